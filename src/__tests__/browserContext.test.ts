@@ -1,4 +1,9 @@
-import { BrowserContext, BrowserState } from "../services/browserContext";
+import {
+  BrowserContext,
+  BrowserState,
+  browserStateFromJSON,
+  browserStateToJSON,
+} from "../services/browserContext";
 import { DOMElementNode, ElementMap } from "../types/dom";
 
 function makeElement(
@@ -95,3 +100,385 @@ describe("BrowserContext.mergeCachedElements", () => {
     expect(Object.values(merged.elementMap)).toHaveLength(1);
   });
 });
+
+describe("BrowserContext xpath to CSS conversion", () => {
+  const ctx = new BrowserContext({} as any);
+  const convert = (xpath: string): Promise<string> =>
+    ctx["_convert_simple_xpath_to_css_selector"](xpath);
+
+  it("turns positional steps into nth-of-type", async () => {
+    expect(await convert("/html/body/div[2]/span")).toBe(
+      "html > body > div:nth-of-type(2) > span"
+    );
+  });
+
+  it("turns an id anchor into an attribute selector", async () => {
+    expect(await convert('//*[@id="main"]/ul/li[3]')).toBe(
+      '*[id="main"] > ul > li:nth-of-type(3)'
+    );
+  });
+
+  it("turns a data-testid anchor into an attribute selector", async () => {
+    expect(await convert('//*[@data-testid="cart"]/button[1]')).toBe(
+      '*[data-testid="cart"] > button:nth-of-type(1)'
+    );
+  });
+
+  it("keeps a slash inside a quoted predicate within its step", async () => {
+    expect(await convert('//*[@id="a/b"]')).toBe('*[id="a/b"]');
+  });
+
+  it("chains a shadow host's selector to the path inside its shadow tree", async () => {
+    expect(
+      await convert("/html/body/sl-dialog/#shadow-root/div[2]/button")
+    ).toBe("html > body > sl-dialog > div:nth-of-type(2) > button");
+  });
+
+  it("uses a descendant combinator when the shadow path is id-anchored", async () => {
+    expect(
+      await convert('/html/body/my-app/#shadow-root//*[@id="save"]')
+    ).toBe('html > body > my-app *[id="save"]');
+  });
+});
+
+describe("BrowserContext scroll sweep targets", () => {
+  const ctx = new BrowserContext({} as any);
+
+  const scrollable = {
+    vertical: true,
+    horizontal: false,
+    scrollTop: 0,
+    scrollLeft: 0,
+    scrollHeight: 2000,
+    clientHeight: 400,
+    scrollWidth: 300,
+    clientWidth: 300,
+  };
+
+  function makeTree() {
+    const body = new DOMElementNode("body", "/html/body", {}, [], true, null);
+    const sidebar = new DOMElementNode("nav", "/html/body/nav", {}, [], true, body);
+    sidebar.scrollable = scrollable;
+    const log = new DOMElementNode("div", '//*[@id="log"]', {}, [], true, body);
+    log.scrollable = scrollable;
+    const strip = new DOMElementNode("div", "/html/body/div", {}, [], true, body);
+    strip.scrollable = { ...scrollable, vertical: false, horizontal: true };
+    body.children.push(sidebar, log, strip);
+    return { state: makeLiveState({ 0: body }), sidebar, log, strip };
+  }
+
+  it("sweeps the window, then each vertical container in document order", () => {
+    const { state, sidebar, log } = makeTree();
+
+    expect(ctx["findScrollTargets"](state, "all", "vertical")).toEqual([
+      null,
+      sidebar,
+      log,
+    ]);
+  });
+
+  it("finds a single container by its xpath", () => {
+    const { state, log } = makeTree();
+
+    expect(
+      ctx["findScrollTargets"](state, '//*[@id="log"]', "vertical")
+    ).toEqual([log]);
+    expect(() =>
+      ctx["findScrollTargets"](state, "/html/body/div", "vertical")
+    ).toThrow("No vertically scrollable container at /html/body/div");
+  });
+
+  it("only sweeps a container along the axes it scrolls", () => {
+    const { state, strip } = makeTree();
+
+    expect(ctx["findScrollTargets"](state, "all", "horizontal")).toEqual([
+      null,
+      strip,
+    ]);
+    expect(ctx["scrollAxes"](strip, "both")).toEqual(["x"]);
+    expect(ctx["scrollAxes"](null, "both")).toEqual(["y", "x"]);
+  });
+});
+
+describe("BrowserContext scroll sweeps", () => {
+  type Point = { x: number; y: number };
+
+  // A scroll target showing `view` of `size` content, clamped at its ends
+  // like a real one, that records every position it's moved to.
+  function fakeDriver(size: Point, view: Point, start: Point = { x: 0, y: 0 }) {
+    const position = { ...start };
+    const clamp = (axis: "x" | "y", value: number) =>
+      Math.max(0, Math.min(value, size[axis] - view[axis]));
+    return {
+      position,
+      driver: {
+        position: async () => ({ ...position }),
+        scrollTo: async (x: number, y: number) => {
+          position.x = clamp("x", x);
+          position.y = clamp("y", y);
+        },
+        scrollBy: async (axis: "x" | "y", stepPx: number | undefined) => {
+          position[axis] = clamp(axis, position[axis] + (stepPx ?? view[axis]));
+        },
+        scrollSize: async () => ({ ...size }),
+      },
+    };
+  }
+
+  // Items laid out at `origins`, each visible while it lies within the view
+  // of whatever `scroller` is scrolled to, under a body holding `container`.
+  function stateOf(
+    origins: Point[],
+    scroller: { position: Point },
+    view: Point,
+    container: DOMElementNode | null = null
+  ): BrowserState {
+    const elementMap: ElementMap = {};
+    origins.forEach((origin, index) => {
+      const { x, y } = scroller.position;
+      const visible =
+        origin.x >= x &&
+        origin.x < x + view.x &&
+        origin.y >= y &&
+        origin.y < y + view.y;
+      elementMap[index] = makeElement(`/html/body/a[${index + 1}]`, {
+        isVisible: visible,
+        isInteractive: true,
+        elementIndex: index,
+      });
+    });
+    const state = makeLiveState(elementMap);
+    if (container) {
+      state.elementTree = new DOMElementNode(
+        "body",
+        "/html/body",
+        {},
+        [container],
+        true,
+        null
+      );
+    }
+    return state;
+  }
+
+  function sweepContext(window: ReturnType<typeof fakeDriver>) {
+    const ctx = new BrowserContext({
+      waitForTimeout: async () => undefined,
+    } as any);
+    ctx["windowScrollDriver"] = () => window.driver;
+    return ctx;
+  }
+
+  const positionOf = (state: BrowserState, xpath: string) =>
+    Object.values(state.elementMap).find((element) => element.xpath === xpath)
+      ?.scrollPosition;
+
+  it("sweeps a container, stamps its offsets and restores both positions", async () => {
+    const window = fakeDriver({ x: 1280, y: 3000 }, { x: 1280, y: 720 }, {
+      x: 0,
+      y: 900,
+    });
+    const list = fakeDriver({ x: 300, y: 1000 }, { x: 300, y: 400 }, {
+      x: 0,
+      y: 150,
+    });
+    const container = new DOMElementNode(
+      "ul",
+      '//*[@id="results"]',
+      {},
+      [],
+      true,
+      null
+    );
+    container.scrollable = {
+      vertical: true,
+      horizontal: false,
+      scrollTop: 150,
+      scrollLeft: 0,
+      scrollHeight: 1000,
+      clientHeight: 400,
+      scrollWidth: 300,
+      clientWidth: 300,
+    };
+    const rows = Array.from({ length: 10 }, (_, row) => ({
+      x: 0,
+      y: row * 100,
+    }));
+    const ctx = sweepContext(window);
+    ctx["containerScrollDriver"] = async () => list.driver;
+    ctx.updateState = async () =>
+      stateOf(rows, list, { x: 300, y: 400 }, container);
+
+    const state = await ctx.getStateAcrossScroll({
+      target: '//*[@id="results"]',
+      settleMs: 0,
+    });
+
+    expect(Object.keys(state.elementMap)).toHaveLength(10);
+    const offsets = rows.map(
+      (_, row) => positionOf(state, `/html/body/a[${row + 1}]`)?.y
+    );
+    // Seen at 0, then one container height on, then clamped at the end.
+    expect(offsets).toEqual([0, 0, 0, 0, 400, 400, 400, 400, 600, 600]);
+    expect(positionOf(state, "/html/body/a[1]")).toEqual({
+      container: '//*[@id="results"]',
+      x: 0,
+      y: 0,
+    });
+    expect(
+      Object.values(state.elementMap).map((element) => element.scrollY)
+    ).toEqual(Array(10).fill(null));
+    expect(list.position).toEqual({ x: 0, y: 150 });
+    expect(window.position).toEqual({ x: 0, y: 900 });
+  });
+
+  // A 2x2 grid of cells, each filling the window's view.
+  const view = { x: 1000, y: 600 };
+  const cells = [
+    { x: 0, y: 0 },
+    { x: 1000, y: 0 },
+    { x: 0, y: 600 },
+    { x: 1000, y: 600 },
+  ];
+
+  it("sweeps every row from left to right for both directions", async () => {
+    const window = fakeDriver({ x: 2000, y: 1200 }, view, { x: 0, y: 300 });
+    const ctx = sweepContext(window);
+    ctx.updateState = async () => stateOf(cells, window, view);
+
+    const state = await ctx.getStateAcrossScroll({
+      direction: "both",
+      settleMs: 0,
+    });
+
+    expect(
+      cells.map((_, cell) => positionOf(state, `/html/body/a[${cell + 1}]`))
+    ).toEqual(cells.map((cell) => ({ container: null, ...cell })));
+    expect(window.position).toEqual({ x: 0, y: 300 });
+  });
+
+  it("only sweeps sideways for horizontal", async () => {
+    const window = fakeDriver({ x: 2000, y: 1200 }, view);
+    const ctx = sweepContext(window);
+    ctx.updateState = async () => stateOf(cells, window, view);
+
+    const state = await ctx.getStateAcrossScroll({
+      direction: "horizontal",
+      settleMs: 0,
+    });
+
+    expect(
+      cells.map((_, cell) => positionOf(state, `/html/body/a[${cell + 1}]`))
+    ).toEqual([
+      { container: null, x: 0, y: 0 },
+      { container: null, x: 1000, y: 0 },
+      null,
+      null,
+    ]);
+  });
+
+  // A carousel of three pages of two slides behind a "next" arrow that
+  // wraps around to the first page, as long as it stays enabled.
+  function carouselContext(options: { enabledClicks?: number } = {}) {
+    const window = fakeDriver({ x: 1280, y: 720 }, { x: 1280, y: 720 });
+    const carousel = { page: 0, clicks: 0 };
+    const control = {
+      isVisible: async () => true,
+      isEnabled: async () =>
+        carousel.clicks < (options.enabledClicks ?? Infinity),
+      click: async () => {
+        carousel.clicks++;
+        carousel.page = (carousel.page + 1) % 3;
+      },
+    };
+    const ctx = new BrowserContext({
+      waitForTimeout: async () => undefined,
+      locator: () => ({ first: () => control }),
+    } as any);
+    ctx["windowScrollDriver"] = () => window.driver;
+    const slides = Array.from({ length: 6 }, (_, slide) => ({
+      x: Math.floor(slide / 2) * 1280,
+      y: 0,
+    }));
+    ctx.updateState = async () =>
+      stateOf(slides, { position: { x: carousel.page * 1280, y: 0 } }, {
+        x: 1280,
+        y: 720,
+      });
+    return { ctx, carousel };
+  }
+
+  it("clicks through a carousel until a click reveals nothing new", async () => {
+    const { ctx, carousel } = carouselContext();
+
+    const state = await ctx.getStateAcrossScroll({
+      carouselNextSelectors: [".next"],
+      settleMs: 0,
+    });
+
+    // The third click wrapped back to the first page.
+    expect(carousel.clicks).toBe(3);
+    expect(
+      [1, 3, 5].map(
+        (slide) => positionOf(state, `/html/body/a[${slide}]`)?.carousel
+      )
+    ).toEqual([
+      undefined,
+      { next: ".next", advances: 1 },
+      { next: ".next", advances: 2 },
+    ]);
+  });
+
+  it("stops at a disabled control or the advance limit", async () => {
+    const disabled = carouselContext({ enabledClicks: 1 });
+    await disabled.ctx.getStateAcrossScroll({
+      carouselNextSelectors: [".next"],
+      settleMs: 0,
+    });
+    expect(disabled.carousel.clicks).toBe(1);
+
+    const limited = carouselContext();
+    const state = await limited.ctx.getStateAcrossScroll({
+      carouselNextSelectors: [".next"],
+      maxCarouselAdvances: 1,
+      settleMs: 0,
+    });
+    expect(limited.carousel.clicks).toBe(1);
+    expect(positionOf(state, "/html/body/a[5]")).toBeNull();
+  });
+});
+
+describe("BrowserState JSON", () => {
+  it("round-trips the page fields along with the DOM state", () => {
+    const body = makeElement("/html/body", {
+      isVisible: true,
+      isInteractive: false,
+      elementIndex: 0,
+    });
+    const link = makeElement("/html/body/a[2]", {
+      isVisible: true,
+      isInteractive: true,
+      elementIndex: 1,
+      scrollY: 4000,
+    });
+    link.parent = body;
+    link.highlightIndex = 0;
+    body.children.push(link);
+    const state: BrowserState = {
+      ...makeLiveState({ 0: body, 1: link }),
+      selectorMap: { 0: link },
+      tab: "checkout",
+    };
+
+    const restored = browserStateFromJSON(
+      JSON.stringify(browserStateToJSON(state))
+    );
+
+    expect(restored.url).toBe("https://example.com");
+    expect(restored.screenshot).toBe("live-screenshot");
+    expect(restored.tab).toBe("checkout");
+    expect(restored.selectorMap[0]).toBe(restored.elementMap[1]);
+    expect(restored.selectorMap[0].parent).toBe(restored.elementTree);
+    expect(restored.selectorMap[0].scrollY).toBe(4000);
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  DOMElementNode,
+  DOMState,
+  DOMTextNode,
+  isGeneratedIdentifier,
+} from "../types/dom";
+
+function element(
+  tagName: string,
+  attributes: Record<string, string>,
+  text: string,
+  ancestors: string[] = ["body", "main"]
+): DOMElementNode {
+  let parent: DOMElementNode | null = null;
+  for (const tag of ancestors) {
+    const ancestor: DOMElementNode = new DOMElementNode(
+      tag,
+      "",
+      {},
+      [],
+      true,
+      parent
+    );
+    parent?.children.push(ancestor);
+    parent = ancestor;
+  }
+  const node = new DOMElementNode(tagName, "", attributes, [], true, parent);
+  parent?.children.push(node);
+  if (text) node.children.push(new DOMTextNode(text, true, node));
+  return node;
+}
+
+describe("DOMElementNode.hash", () => {
+  test("does not collide on xpaths that share a long prefix", () => {
+    const a = new DOMElementNode(
+      "a",
+      "/html/body/div/div/ul/li[1]/a",
+      {},
+      [],
+      true,
+      null
+    );
+    const b = new DOMElementNode(
+      "a",
+      "/html/body/div/div/ul/li[2]/a",
+      {},
+      [],
+      true,
+      null
+    );
+
+    expect(a.hash.xpath_hash).not.toBe(b.hash.xpath_hash);
+  });
+});
+
+describe("DOMElementNode.getAllTextTillNextClickableElement", () => {
+  test("never reads a masked control's value, whatever the type's case", () => {
+    for (const type of ["password", "PASSWORD", "Hidden"]) {
+      const input = element("input", { type, value: "initial" }, "");
+      input.formState = { value: "hunter2", disabled: false, invalid: false };
+
+      const text = input.getAllTextTillNextClickableElement();
+
+      expect(text).not.toContain("hunter2");
+      expect(text).not.toContain("initial");
+    }
+  });
+});
+
+describe("isGeneratedIdentifier", () => {
+  test.each([":r1:", "css-1x2y3z", "Button_root__3xYz9", "item-12345", "a1b2c3"])(
+    "flags %s",
+    (value) => {
+      expect(isGeneratedIdentifier(value)).toBe(true);
+    }
+  );
+
+  test.each(["submit", "main-nav", "heading1", "btn-primary", "step-2"])(
+    "keeps %s",
+    (value) => {
+      expect(isGeneratedIdentifier(value)).toBe(false);
+    }
+  );
+});
+
+describe("DOMState JSON", () => {
+  function state(): DOMState {
+    const body = new DOMElementNode("body", "/html/body", {}, [], true, null);
+    const button = new DOMElementNode(
+      "button",
+      "/html/body/button",
+      { type: "submit" },
+      [],
+      true,
+      body
+    );
+    button.isInteractive = true;
+    button.highlightIndex = 0;
+    button.elementIndex = 1;
+    button.scrollY = 1200;
+    button.formState = { disabled: false, invalid: false };
+    button.children.push(new DOMTextNode("Save", true, button));
+    body.children.push(button);
+    body.elementIndex = 0;
+
+    const result = new DOMState(body, { 0: button }, { 0: body, 1: button });
+    result.changes = {
+      incremental: true,
+      added: [button],
+      removed: [],
+      modified: [],
+    };
+    return result;
+  }
+
+  test("round-trips the tree, its links and indices through a string", () => {
+    const restored = DOMState.fromJSON(JSON.stringify(state()));
+
+    const body = restored.elementTree;
+    const button = body.children[0] as DOMElementNode;
+    expect(button).toBeInstanceOf(DOMElementNode);
+    expect(button.parent).toBe(body);
+    expect(button.children[0]).toBeInstanceOf(DOMTextNode);
+    expect(button.children[0].parent).toBe(button);
+    expect(restored.selectorMap[0]).toBe(button);
+    expect(restored.elementMap[1]).toBe(button);
+    expect(restored.changes?.added[0]).toBe(button);
+    expect(button.scrollY).toBe(1200);
+    expect(button.formState).toEqual({ disabled: false, invalid: false });
+    expect(button.hash).toEqual(state().selectorMap[0].hash);
+  });
+
+  test("keeps map entries that aren't in the tree", () => {
+    const original = state();
+    // As after a scroll sweep: pooled from another snapshot's tree.
+    const otherBody = new DOMElementNode(
+      "body",
+      "/html/body",
+      {},
+      [],
+      true,
+      null
+    );
+    const pooled = new DOMElementNode(
+      "a",
+      "/html/body/a[40]",
+      {},
+      [],
+      true,
+      otherBody
+    );
+    otherBody.children.push(pooled);
+    original.elementMap[2] = pooled;
+
+    const restored = DOMState.fromJSON(original.toJSON());
+
+    expect(restored.elementMap[2].xpath).toBe("/html/body/a[40]");
+    expect(restored.elementMap[2].parent?.children).toContain(
+      restored.elementMap[2]
+    );
+  });
+
+  test("leaves the values of password and hidden inputs out", () => {
+    const original = state();
+    const body = original.elementTree;
+    const inputs = ["password", "HIDDEN"].map((type) => {
+      const input = new DOMElementNode(
+        "input",
+        `/html/body/input[@type="${type}"]`,
+        { type, value: "hunter2" },
+        [],
+        true,
+        body
+      );
+      input.formState = { value: "hunter2", disabled: false, invalid: false };
+      body.children.push(input);
+      return input;
+    });
+
+    const json = JSON.stringify(original);
+    const restored = DOMState.fromJSON(json);
+
+    expect(json).not.toContain("hunter2");
+    expect(restored.elementTree.children[1]).toMatchObject({
+      attributes: { type: "password" },
+      formState: { disabled: false, invalid: false },
+    });
+    expect(inputs[0].formState?.value).toBe("hunter2");
+  });
+
+  test("rejects another serialization version", () => {
+    expect(() =>
+      DOMState.fromJSON({ ...state().toJSON(), version: 2 as any })
+    ).toThrow("Unsupported serialized state version 2");
+  });
+});
@@ -0,0 +1,807 @@
+import * as domExtractor from "../scripts/domExtractor";
+import { DomService } from "../services/domService";
+import {
+  DOMElementNode,
+  DOMState,
+  DEFAULT_ELEMENT_INCLUSION_POLICY,
+} from "../types/dom";
+import { ExtractedElementNode } from "../types/extraction";
+
+const viewport = {
+  width: 1280,
+  height: 720,
+  scrollX: 0,
+  scrollY: 300,
+  devicePixelRatio: 2,
+};
+
+function elementData(
+  overrides: Partial<ExtractedElementNode> = {}
+): ExtractedElementNode {
+  const xpath = overrides.xpath ?? "/html/body";
+  return {
+    type: "ELEMENT_NODE",
+    tagName: "div",
+    xpath,
+    absoluteXPath: xpath,
+    semanticXPath: null,
+    attributes: {},
+    text: "",
+    isVisible: true,
+    visibility: { visible: true, reasons: [] },
+    isInteractive: false,
+    interactiveReasons: [],
+    isTopElement: true,
+    occludedBy: null,
+    role: null,
+    accessibleName: "",
+    accessibleDescription: "",
+    formState: null,
+    scrollable: null,
+    isInViewport: true,
+    shadowRoot: false,
+    inShadowRoot: false,
+    highlightIndex: null,
+    elementIndex: null,
+    viewport,
+    viewportCoordinates: { x: 10, y: 20, width: 100, height: 40 },
+    pageCoordinates: { x: 10, y: 320, width: 100, height: 40 },
+    frameId: null,
+    frameContentOffset: null,
+    children: [],
+    ...overrides,
+  };
+}
+
+describe("DomService coordinates", () => {
+  // Neither method under test touches the page.
+  const service = new DomService({} as any);
+
+  it("carries viewport info through without swapping width and height", async () => {
+    const [tree] = await service["constructDomTree"]({
+      rootId: "node_0",
+      map: { node_0: elementData() },
+    });
+
+    expect(tree.viewportInfo).toEqual(viewport);
+  });
+
+  it("carries viewport and page coordinates onto the node", async () => {
+    const [tree] = await service["constructDomTree"]({
+      rootId: "node_0",
+      map: { node_0: elementData() },
+    });
+
+    expect(tree.viewportCoordinates).toEqual({
+      x: 10,
+      y: 20,
+      width: 100,
+      height: 40,
+    });
+    expect(tree.pageCoordinates).toEqual({
+      x: 10,
+      y: 320,
+      width: 100,
+      height: 40,
+    });
+  });
+
+  it("translates a child frame's boxes into the owning frame's viewport", () => {
+    const owner = new DOMElementNode(
+      "iframe",
+      "/html/body/iframe",
+      {},
+      [],
+      true,
+      null
+    );
+    owner.viewportCoordinates = { x: 50, y: 60, width: 400, height: 300 };
+    owner.viewportInfo = viewport;
+
+    const inner = new DOMElementNode(
+      "button",
+      "/html/body/button",
+      {},
+      [],
+      true,
+      null
+    );
+    inner.viewportCoordinates = { x: 5, y: 5, width: 80, height: 20 };
+    const childTree = new DOMElementNode(
+      "body",
+      "/html/body",
+      {},
+      [inner],
+      true,
+      null
+    );
+    inner.parent = childTree;
+
+    service["translateFrameCoordinates"](childTree, owner, { x: 2, y: 2 });
+
+    expect(inner.viewportCoordinates).toEqual({
+      x: 57,
+      y: 67,
+      width: 80,
+      height: 20,
+    });
+    expect(inner.pageCoordinates).toEqual({
+      x: 57,
+      y: 367,
+      width: 80,
+      height: 20,
+    });
+  });
+});
+
+describe("DomService incremental extraction", () => {
+  const service = new DomService({} as any);
+
+  async function previousState() {
+    const [tree, selectorMap, elementMap] = await service["constructDomTree"]({
+      rootId: "node_0",
+      // Children precede their parents, as in the page script's output.
+      map: {
+        node_1: elementData({
+          tagName: "button",
+          xpath: "/html/body/button",
+          isInteractive: true,
+          highlightIndex: 0,
+          elementIndex: 0,
+        }),
+        node_3: elementData({
+          tagName: "a",
+          xpath: "/html/body/div/a",
+          isInteractive: true,
+          highlightIndex: 1,
+          elementIndex: 1,
+        }),
+        node_2: elementData({
+          xpath: "/html/body/div",
+          children: ["node_3"],
+        }),
+        node_0: elementData({ children: ["node_1", "node_2"] }),
+      },
+    });
+    return new DOMState(tree, selectorMap, elementMap);
+  }
+
+  it("splices re-extracted subtrees in and reuses the rest of the tree", async () => {
+    const previous = await previousState();
+    const unchangedButton = previous.selectorMap[0];
+
+    const result = service["applyIncrementalExtraction"](
+      previous,
+      {
+        mode: "incremental",
+        rootIds: ["node_10"],
+        rootXPaths: ["/html/body/div"],
+        map: {
+          node_11: elementData({
+            tagName: "input",
+            xpath: "/html/body/div/input",
+            isInteractive: true,
+            highlightIndex: 7,
+            elementIndex: 7,
+          }),
+          node_12: elementData({
+            tagName: "a",
+            xpath: "/html/body/div/a",
+            attributes: { href: "/next" },
+            isInteractive: true,
+            highlightIndex: 8,
+            elementIndex: 8,
+          }),
+          node_10: elementData({
+            xpath: "/html/body/div",
+            children: ["node_11", "node_12"],
+          }),
+        },
+      }
+    );
+
+    expect(result).not.toBeNull();
+    const [tree, selectorMap, elementMap, changes] = result!;
+
+    expect(tree).toBe(previous.elementTree);
+    expect(selectorMap[0]).toBe(unchangedButton);
+    expect(selectorMap[1].tagName).toBe("input");
+    expect(selectorMap[2].tagName).toBe("a");
+    expect(Object.keys(elementMap)).toEqual(["0", "1", "2"]);
+    expect(selectorMap[1].parent?.parent).toBe(tree);
+
+    expect(changes.added.map((n) => n.xpath)).toEqual(["/html/body/div/input"]);
+    expect(changes.modified.map((n) => n.xpath)).toEqual(["/html/body/div/a"]);
+    expect(changes.removed).toEqual([]);
+  });
+
+  it("gives up when a changed subtree isn't in the previous tree", async () => {
+    const previous = await previousState();
+    const before = JSON.stringify(previous.toJSON());
+
+    const result = service["applyIncrementalExtraction"](previous, {
+      mode: "incremental",
+      rootIds: ["node_10"],
+      rootXPaths: ["/html/body/section"],
+      map: {
+        node_10: elementData({ tagName: "section", xpath: "/html/body/section" }),
+      },
+    });
+
+    expect(result).toBeNull();
+    expect(JSON.stringify(previous.toJSON())).toBe(before);
+  });
+
+  it("doesn't probe for listeners on an incremental update", async () => {
+    const page = {
+      evaluate: async (script: string) =>
+        script === "1+1"
+          ? 2
+          : {
+              version: 1,
+              mode: "incremental",
+              rootIds: [],
+              rootXPaths: [],
+              map: {},
+              report: {
+                truncated: false,
+                elementsExtracted: 0,
+                elementsOnPage: 0,
+                skippedForNodeLimit: 0,
+                skippedForDepth: 0,
+                skippedForTime: 0,
+                skippedOffscreen: 0,
+                truncatedTexts: 0,
+                elapsedMs: 0,
+              },
+              viewport,
+              nextHighlightIndex: 0,
+              nextElementIndex: 0,
+            },
+    };
+    const probing = new DomService(page as any, {
+      detectEventListeners: true,
+      incremental: true,
+    });
+    const probe = jest
+      .spyOn(probing as any, "markElementsWithClickListeners")
+      .mockResolvedValue(undefined);
+    const previous = await previousState();
+
+    const [tree] = await probing["buildDomTree"](0, previous);
+
+    expect(tree).toBe(previous.elementTree);
+    expect(probe).not.toHaveBeenCalled();
+  });
+});
+
+describe("DomService element inclusion policy", () => {
+  it("layers the given fields over the default policy", () => {
+    const service = new DomService({} as any, {
+      elementInclusion: { includeTags: ["svg"], leafTextOnly: true },
+    });
+
+    expect(service["inclusionPolicy"]).toEqual({
+      ...DEFAULT_ELEMENT_INCLUSION_POLICY,
+      includeTags: ["svg"],
+      leafTextOnly: true,
+    });
+  });
+
+  it("rejects a rule with an invalid pattern up front", () => {
+    expect(
+      () =>
+        new DomService({} as any, {
+          elementInclusion: {
+            rules: [{ textPattern: "(unclosed", include: true }],
+          },
+        })
+    ).toThrow(/Invalid element inclusion rule pattern/);
+  });
+});
+
+describe("DomService extraction budget", () => {
+  function counters(elementsExtracted: number, startedAt = Date.now()) {
+    return {
+      highlightIndex: 0,
+      elementIndex: 0,
+      startedAt,
+      report: {
+        truncated: false,
+        elementsExtracted,
+        elementsOnPage: elementsExtracted,
+        skippedForNodeLimit: 0,
+        skippedForDepth: 0,
+        skippedForTime: 0,
+        skippedOffscreen: 0,
+        truncatedTexts: 0,
+        elapsedMs: 0,
+      },
+    };
+  }
+
+  it("hands a child frame only what earlier frames left", () => {
+    const service = new DomService({} as any, {
+      budget: { maxNodes: 1000, maxDepth: 20 },
+    });
+
+    expect(service["remainingBudget"](counters(400))).toEqual({
+      maxNodes: 600,
+      maxDepth: 20,
+    });
+  });
+
+  it("reports why nothing is left", () => {
+    const nodes = new DomService({} as any, { budget: { maxNodes: 1000 } });
+    expect(nodes["remainingBudget"](counters(1000))).toBe(
+      "skippedForNodeLimit"
+    );
+
+    const time = new DomService({} as any, { budget: { timeLimitMs: 50 } });
+    expect(time["remainingBudget"](counters(0, Date.now() - 100))).toBe(
+      "skippedForTime"
+    );
+  });
+});
+
+describe("DomService cdp-snapshot backend", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("falls back to the script when the snapshot can't be captured", async () => {
+    const detach = jest.fn(async () => undefined);
+    const page = {
+      evaluate: async () => 2,
+      mainFrame: () => ({}),
+      context: () => ({
+        browser: () => null,
+        newCDPSession: async () => ({
+          send: async () => {
+            throw new Error("Target closed");
+          },
+          detach,
+        }),
+      }),
+    };
+    const service = new DomService(page as any, { backend: "cdp-snapshot" });
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    const fromScript = jest
+      .spyOn(service as any, "buildFrameTree")
+      .mockResolvedValue([elementData(), {}, {}]);
+
+    await service["buildDomTree"](0);
+
+    expect(fromScript).toHaveBeenCalled();
+    expect(detach).toHaveBeenCalled();
+  });
+});
+
+describe("DomService xpaths", () => {
+  const service = new DomService({} as any);
+
+  it("carries both xpath strategies onto the node", async () => {
+    const [tree] = await service["constructDomTree"]({
+      rootId: "node_0",
+      map: {
+        node_0: elementData({
+          xpath: '//*[@id="main"]',
+          absoluteXPath: "/html/body/div[2]",
+          semanticXPath: '//*[@id="main"]',
+        }),
+      },
+    });
+
+    expect(tree.xpath).toBe('//*[@id="main"]');
+    expect(tree.absoluteXPath).toBe("/html/body/div[2]");
+    expect(tree.semanticXPath).toBe('//*[@id="main"]');
+  });
+
+  it("falls back to the xpath as the absolute path for older payloads", async () => {
+    const [tree] = await service["constructDomTree"]({
+      rootId: "node_0",
+      map: { node_0: elementData() },
+    });
+
+    expect(tree.absoluteXPath).toBe("/html/body");
+    expect(tree.semanticXPath).toBeNull();
+  });
+});
+
+describe("DomService frames", () => {
+  const report = {
+    truncated: false,
+    elementsExtracted: 0,
+    elementsOnPage: 0,
+    skippedForNodeLimit: 0,
+    skippedForDepth: 0,
+    skippedForTime: 0,
+    skippedOffscreen: 0,
+    truncatedTexts: 0,
+    elapsedMs: 0,
+  };
+
+  // The page script reduced to its arguments, for the fake frames to read.
+  beforeEach(() => {
+    jest
+      .spyOn(domExtractor, "domTreeOverlayScript")
+      .mockImplementation((args) => JSON.stringify(args));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Stands in for a Playwright frame whose page script returns `map`, with
+  // indices numbered from the offsets DomService passes in. `map` is given
+  // the frame ids DomService tagged this frame's iframes with, in order.
+  function fakeFrame(
+    map: (frameIds: string[]) => Record<string, ExtractedElementNode>,
+    childFrames: any[] = []
+  ) {
+    const frameIds: string[] = [];
+    for (const child of childFrames) {
+      child.frameElement = async () => ({
+        evaluate: async (_tag: unknown, frameId: string) => {
+          frameIds.push(frameId);
+        },
+        dispose: async () => undefined,
+      });
+    }
+    return {
+      childFrames: () => childFrames,
+      url: () => "about:srcdoc",
+      evaluate: async (script: string) => {
+        const args: domExtractor.DomTreeOverlayArgs = JSON.parse(script);
+        const nodes = map(frameIds);
+        let nextHighlightIndex = args.highlightIndexOffset ?? 0;
+        let nextElementIndex = args.elementIndexOffset ?? 0;
+        for (const node of Object.values(nodes)) {
+          if (node.highlightIndex !== null) {
+            node.highlightIndex = nextHighlightIndex++;
+          }
+          if (node.elementIndex !== null) node.elementIndex = nextElementIndex++;
+        }
+        return {
+          version: 1,
+          mode: "full",
+          rootId: "body",
+          report: { ...report, elementsExtracted: Object.keys(nodes).length },
+          map: nodes,
+          viewport,
+          nextHighlightIndex,
+          nextElementIndex,
+        };
+      },
+    };
+  }
+
+  const box = (x: number, y: number) => ({ x, y, width: 50, height: 20 });
+  const control = (tagName: string, x: number, y: number) =>
+    elementData({
+      tagName,
+      xpath: `/html/body/${tagName}`,
+      isInteractive: true,
+      highlightIndex: 0,
+      elementIndex: 0,
+      viewportCoordinates: box(x, y),
+    });
+  const iframe = (
+    frameId: string,
+    x: number,
+    y: number
+  ): ExtractedElementNode =>
+    elementData({
+      tagName: "iframe",
+      xpath: "/html/body/iframe",
+      viewportCoordinates: { x, y, width: 400, height: 300 },
+      frameId,
+      frameContentOffset: { x: 2, y: 2 },
+    });
+
+  // The page: a button and an iframe holding an input and another iframe,
+  // which holds a link.
+  function nestedFrames() {
+    const inner = fakeFrame(() => ({
+      a: control("a", 5, 5),
+      body: elementData({ children: ["a"] }),
+    }));
+    const outer = fakeFrame(
+      ([innerId]) => ({
+        input: control("input", 0, 0),
+        iframe: iframe(innerId, 10, 50),
+        body: elementData({ children: ["input", "iframe"] }),
+      }),
+      [inner]
+    );
+    return fakeFrame(
+      ([outerId]) => ({
+        button: control("button", 0, 0),
+        iframe: iframe(outerId, 100, 200),
+        body: elementData({ children: ["button", "iframe"] }),
+      }),
+      [outer]
+    );
+  }
+
+  async function extract(mainFrame: any) {
+    const service = new DomService({} as any);
+    const counters = service["newFrameCounters"]();
+    const [tree, selectorMap, elementMap] = await service["buildFrameTree"](
+      mainFrame,
+      [],
+      {
+        viewportExpansion: 0,
+        debugMode: false,
+        inclusionPolicy: DEFAULT_ELEMENT_INCLUSION_POLICY,
+      },
+      {},
+      counters
+    );
+    return { tree, selectorMap, elementMap, counters };
+  }
+
+  it("grafts each frame's tree under the iframe that owns it", async () => {
+    const { tree } = await extract(nestedFrames());
+
+    const outerOwner = tree.children[1] as DOMElementNode;
+    const outerBody = outerOwner.children[0] as DOMElementNode;
+    const innerOwner = outerBody.children[1] as DOMElementNode;
+    const innerBody = innerOwner.children[0] as DOMElementNode;
+
+    expect(outerOwner.tagName).toBe("iframe");
+    expect(outerBody.parent).toBe(outerOwner);
+    expect(innerBody.parent).toBe(innerOwner);
+    expect((innerBody.children[0] as DOMElementNode).tagName).toBe("a");
+  });
+
+  it("numbers indices on from the frames extracted before", async () => {
+    const { selectorMap, elementMap, counters } = await extract(
+      nestedFrames()
+    );
+
+    expect(
+      Object.entries(selectorMap).map(([index, node]) => [
+        index,
+        node.tagName,
+        node.highlightIndex,
+      ])
+    ).toEqual([
+      ["0", "button", 0],
+      ["1", "input", 1],
+      ["2", "a", 2],
+    ]);
+    expect(Object.keys(elementMap)).toEqual(["0", "1", "2"]);
+    expect(counters.report.elementsExtracted).toBe(8);
+  });
+
+  it("records the chain of owning iframes on each node", async () => {
+    const { selectorMap } = await extract(nestedFrames());
+
+    expect(selectorMap[0].framePath).toEqual([]);
+    expect(selectorMap[1].framePath).toEqual(["/html/body/iframe"]);
+    expect(selectorMap[2].framePath).toEqual([
+      "/html/body/iframe",
+      "/html/body/iframe",
+    ]);
+  });
+
+  it("moves nested frames' boxes into the top-level viewport", async () => {
+    const { selectorMap } = await extract(nestedFrames());
+
+    // Each level adds its iframe's position and the 2px it insets content.
+    expect(selectorMap[1].viewportCoordinates).toEqual(box(102, 202));
+    expect(selectorMap[2].viewportCoordinates).toEqual(box(119, 259));
+    expect(selectorMap[2].pageCoordinates).toEqual(box(119, 559));
+  });
+
+  it("leaves out a frame that fails, keeping the rest of the page", async () => {
+    const broken = fakeFrame(() => ({}));
+    broken.evaluate = async () => {
+      throw new Error("Frame was detached");
+    };
+    const main = fakeFrame(
+      ([frameId]) => ({
+        button: control("button", 0, 0),
+        iframe: iframe(frameId, 100, 200),
+        body: elementData({ children: ["button", "iframe"] }),
+      }),
+      [broken]
+    );
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const { tree, selectorMap } = await extract(main);
+
+    expect(Object.keys(selectorMap)).toEqual(["0"]);
+    expect((tree.children[1] as DOMElementNode).children).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    error.mockRestore();
+  });
+});
+
+describe("DomService event listener detection", () => {
+  interface FakeNode {
+    nodeType: number;
+    localName: string;
+    backendNodeId: number;
+    shadowRootType?: string;
+    children?: FakeNode[];
+    shadowRoots?: FakeNode[];
+    contentDocument?: FakeNode;
+  }
+
+  const element = (
+    backendNodeId: number,
+    localName: string,
+    children: FakeNode[] = [],
+    extra: Partial<FakeNode> = {}
+  ): FakeNode => ({
+    nodeType: 1,
+    localName,
+    backendNodeId,
+    children,
+    ...extra,
+  });
+  const documentOf = (backendNodeId: number, body: FakeNode[]): FakeNode => ({
+    nodeType: 9,
+    localName: "",
+    backendNodeId,
+    children: [
+      element(backendNodeId + 1, "html", [
+        element(backendNodeId + 2, "head", [
+          element(backendNodeId + 3, "script"),
+        ]),
+        element(backendNodeId + 4, "body", body),
+      ]),
+    ],
+  });
+
+  // Stands in for a page whose frames each reach `documents[i]` over their
+  // own CDP session, or share their parent's where that's null. Elements'
+  // listener types come from `listeners`, by backend node id.
+  function fakePage(
+    documents: Array<FakeNode | null>,
+    listeners: Record<number, string[]>
+  ) {
+    const frames = documents.map((document) => ({ document }));
+    const calls = {
+      probed: [] as number[],
+      cleared: [] as number[],
+      marked: {} as Record<number, string[]>,
+      detached: 0,
+      inFlight: 0,
+      maxInFlight: 0,
+    };
+    const nodeOf = (objectId: string) => Number(objectId.split(":")[1]);
+
+    const session = (document: FakeNode) => ({
+      send: async (method: string, params: any = {}) => {
+        switch (method) {
+          case "DOM.getDocument":
+            return { root: document };
+          case "DOM.resolveNode":
+            return { object: { objectId: `node:${params.backendNodeId}` } };
+          case "DOMDebugger.getEventListeners": {
+            calls.inFlight++;
+            calls.maxInFlight = Math.max(calls.maxInFlight, calls.inFlight);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            calls.inFlight--;
+            const node = nodeOf(params.objectId);
+            calls.probed.push(node);
+            return {
+              listeners: (listeners[node] ?? []).map((type) => ({ type })),
+            };
+          }
+          case "Runtime.callFunctionOn":
+            if (params.arguments) {
+              calls.marked[nodeOf(params.objectId)] = params.arguments[0].value;
+            } else {
+              calls.cleared.push(nodeOf(params.objectId));
+            }
+            return {};
+          default:
+            return {};
+        }
+      },
+      detach: async () => {
+        calls.detached++;
+      },
+    });
+
+    const page = {
+      frames: () => frames,
+      mainFrame: () => frames[0],
+      context: () => ({
+        browser: () => null,
+        newCDPSession: async (target: any) => {
+          const document = target === page ? documents[0] : target.document;
+          if (!document) throw new Error("Frame has no separate session");
+          return session(document);
+        },
+      }),
+    };
+    return { page, calls };
+  }
+
+  it("tags listeners in shadow roots and every frame", async () => {
+    const main = documentOf(1, [
+      element(10, "div"),
+      element(11, "button"),
+      element(12, "todo-item", [], {
+        shadowRoots: [
+          {
+            nodeType: 11,
+            localName: "",
+            backendNodeId: 13,
+            shadowRootType: "open",
+            children: [element(14, "span")],
+          },
+        ],
+      }),
+      element(15, "iframe", [], {
+        contentDocument: documentOf(20, [element(30, "div")]),
+      }),
+    ]);
+    const outOfProcess = documentOf(100, [element(110, "p")]);
+    const { page, calls } = fakePage([main, outOfProcess, null], {
+      10: ["click", "click", "focus"],
+      11: ["click"],
+      14: ["mousedown"],
+      30: ["click"],
+      110: ["pointerup"],
+    });
+
+    await new DomService(page as any)["markElementsWithClickListeners"]();
+
+    expect(calls.marked).toEqual({
+      10: ["click"],
+      14: ["mousedown"],
+      30: ["click"],
+      110: ["pointerup"],
+    });
+    // Nothing in <head>, and nothing interactive by tag alone.
+    expect(calls.probed).not.toContain(4);
+    expect(calls.probed).not.toContain(11);
+    expect(calls.cleared).toEqual([1, 13, 20, 100]);
+    expect(calls.detached).toBe(2);
+  });
+
+  it("only probes when asked to", async () => {
+    const page = { evaluate: async () => 2, mainFrame: () => ({}) };
+    const probed: boolean[] = [];
+    for (const options of [{}, { detectEventListeners: true }]) {
+      const service = new DomService(page as any, options);
+      const probe = jest
+        .spyOn(service as any, "markElementsWithClickListeners")
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(service as any, "buildFrameTree")
+        .mockResolvedValue([elementData(), {}, {}]);
+
+      await service["buildDomTree"](0);
+      probed.push(probe.mock.calls.length > 0);
+    }
+
+    expect(probed).toEqual([false, true]);
+  });
+
+  it("probes in bounded batches, up to maxListenerProbes in all", async () => {
+    const divs = (from: number) =>
+      Array.from({ length: 40 }, (_, i) => element(from + i, "div"));
+    const { page, calls } = fakePage(
+      [documentOf(1, divs(10)), documentOf(100, divs(110))],
+      {}
+    );
+
+    await new DomService(page as any, {
+      maxListenerProbes: 50,
+    })["markElementsWithClickListeners"]();
+
+    expect(calls.probed).toHaveLength(50);
+    expect(calls.probed.filter((node) => node >= 100)).toHaveLength(10);
+    expect(calls.maxInFlight).toBeGreaterThan(1);
+    expect(calls.maxInFlight).toBeLessThanOrEqual(20);
+  });
+});
@@ -0,0 +1,637 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Browser, Page, chromium } from "playwright";
+import { DomService } from "../services/domService";
+import {
+  DocumentSnapshot,
+  DomSnapshot,
+  SNAPSHOT_COMPUTED_STYLES,
+  SnapshotExtractionOptions,
+  extractFromSnapshot,
+} from "../services/domSnapshot";
+import { validateExtractionPayload } from "../services/payloadValidation";
+import {
+  CoordinateSet,
+  DEFAULT_ELEMENT_INCLUSION_POLICY,
+  DOMBaseNode,
+  DOMElementNode,
+  DOMTextNode,
+  ExtractionBudget,
+} from "../types/dom";
+import {
+  ExtractedElementNode,
+  FullExtractionPayload,
+} from "../types/extraction";
+import { describeInBrowser } from "./setup";
+
+type StyleProperty = (typeof SNAPSHOT_COMPUTED_STYLES)[number];
+
+interface ElementSpec {
+  tag: string;
+  attributes?: Record<string, string>;
+  /** Laid out at this box (x, y, width, height) when given. */
+  box?: [number, number, number, number];
+  style?: Partial<Record<StyleProperty, string>>;
+  paintOrder?: number;
+  children?: Array<ElementSpec | string>;
+  shadow?: Array<ElementSpec | string>;
+  inputValue?: string;
+  checked?: boolean;
+  selected?: boolean;
+  contentDocument?: number;
+}
+
+// Builds a snapshot the way CDP lays one out: one document per body given,
+// each `<html><body>` filling a 1280x720 viewport, nodes in document order.
+function snapshotOf(
+  ...bodies: Array<Array<ElementSpec | string>>
+): DomSnapshot {
+  const strings: string[] = [];
+  const intern = (value: string) => {
+    const index = strings.indexOf(value);
+    return index === -1 ? strings.push(value) - 1 : index;
+  };
+
+  const documents = bodies.map((body): DocumentSnapshot => {
+    const nodes = {
+      parentIndex: [] as number[],
+      nodeType: [] as number[],
+      nodeName: [] as number[],
+      nodeValue: [] as number[],
+      attributes: [] as number[][],
+      shadowRootType: { index: [] as number[], value: [] as number[] },
+      inputValue: { index: [] as number[], value: [] as number[] },
+      inputChecked: { index: [] as number[] },
+      optionSelected: { index: [] as number[] },
+      contentDocumentIndex: { index: [] as number[], value: [] as number[] },
+    };
+    const layout = {
+      nodeIndex: [] as number[],
+      styles: [] as number[][],
+      bounds: [] as number[][],
+      text: [] as number[],
+      paintOrders: [] as number[],
+      scrollRects: [] as number[][],
+      clientRects: [] as number[][],
+    };
+
+    const addNode = (parent: number, type: number, name: string) => {
+      nodes.parentIndex.push(parent);
+      nodes.nodeType.push(type);
+      nodes.nodeName.push(intern(name));
+      nodes.nodeValue.push(-1);
+      nodes.attributes.push([]);
+      return nodes.parentIndex.length - 1;
+    };
+
+    const addContent = (parent: number, content: ElementSpec | string) => {
+      if (typeof content === "string") {
+        const text = addNode(parent, 3, "#text");
+        nodes.nodeValue[text] = intern(content);
+        return;
+      }
+      addElement(parent, content);
+    };
+
+    const addElement = (parent: number, spec: ElementSpec) => {
+      const node = addNode(parent, 1, spec.tag.toUpperCase());
+      nodes.attributes[node] = Object.entries(spec.attributes ?? {}).flatMap(
+        ([name, value]) => [intern(name), intern(value)]
+      );
+      if (spec.inputValue !== undefined) {
+        nodes.inputValue.index.push(node);
+        nodes.inputValue.value.push(intern(spec.inputValue));
+      }
+      if (spec.checked) nodes.inputChecked.index.push(node);
+      if (spec.selected) nodes.optionSelected.index.push(node);
+      if (spec.contentDocument !== undefined) {
+        nodes.contentDocumentIndex.index.push(node);
+        nodes.contentDocumentIndex.value.push(spec.contentDocument);
+      }
+      if (spec.box) {
+        const [, , width, height] = spec.box;
+        layout.nodeIndex.push(node);
+        layout.styles.push(
+          SNAPSHOT_COMPUTED_STYLES.map((property) =>
+            spec.style?.[property] !== undefined
+              ? intern(spec.style[property]!)
+              : -1
+          )
+        );
+        layout.bounds.push(spec.box);
+        layout.text.push(-1);
+        layout.paintOrders.push(spec.paintOrder ?? layout.nodeIndex.length);
+        layout.scrollRects.push([0, 0, width, height]);
+        layout.clientRects.push([0, 0, width, height]);
+      }
+      if (spec.shadow) {
+        const shadowRoot = addNode(node, 11, "#document-fragment");
+        nodes.shadowRootType.index.push(shadowRoot);
+        nodes.shadowRootType.value.push(intern("open"));
+        spec.shadow.forEach((child) => addContent(shadowRoot, child));
+      }
+      spec.children?.forEach((child) => addContent(node, child));
+    };
+
+    const document = addNode(-1, 9, "#document");
+    addElement(document, {
+      tag: "html",
+      box: [0, 0, 1280, 720],
+      children: [{ tag: "body", box: [0, 0, 1280, 720], children: body }],
+    });
+    return { nodes, layout, scrollOffsetX: 0, scrollOffsetY: 0 };
+  });
+
+  return { documents, strings };
+}
+
+const options: SnapshotExtractionOptions = {
+  viewport: {
+    width: 1280,
+    height: 720,
+    scrollX: 0,
+    scrollY: 0,
+    devicePixelRatio: 1,
+  },
+  viewportExpansion: 0,
+  inclusionPolicy: DEFAULT_ELEMENT_INCLUSION_POLICY,
+  budget: {},
+  detectEventListeners: true,
+  highlightIndexOffset: 0,
+  elementIndexOffset: 0,
+};
+
+function elementsOf(snapshot: DomSnapshot, documentIndex = 0) {
+  const { payload } = extractFromSnapshot(snapshot, documentIndex, options);
+  return Object.values(payload.map).filter(
+    (node): node is ExtractedElementNode => node.type === "ELEMENT_NODE"
+  );
+}
+
+describe("extractFromSnapshot", () => {
+  test("builds a payload DomService accepts, walking shadow roots", () => {
+    const snapshot = snapshotOf([
+      {
+        tag: "nav",
+        attributes: { id: "menu" },
+        box: [0, 0, 1280, 40],
+        children: [
+          {
+            tag: "a",
+            attributes: { href: "/" },
+            box: [0, 0, 60, 40],
+            children: ["Home"],
+          },
+          {
+            tag: "a",
+            attributes: { href: "/docs" },
+            box: [60, 0, 60, 40],
+            children: ["Docs"],
+          },
+        ],
+      },
+      {
+        tag: "save-bar",
+        box: [0, 40, 200, 40],
+        shadow: [{ tag: "button", box: [0, 40, 80, 40], children: ["Save"] }],
+      },
+    ]);
+
+    const { payload } = extractFromSnapshot(snapshot, 0, options);
+
+    expect(() => validateExtractionPayload(payload)).not.toThrow();
+    const links = Object.values(payload.map).filter(
+      (node): node is ExtractedElementNode =>
+        node.type === "ELEMENT_NODE" && node.tagName === "a"
+    );
+    expect(links.map((link) => [link.xpath, link.accessibleName])).toEqual([
+      ['//*[@id="menu"]/a[1]', "Home"],
+      ['//*[@id="menu"]/a[2]', "Docs"],
+    ]);
+    expect(links.map((link) => link.highlightIndex)).toEqual([0, 1]);
+
+    const save = Object.values(payload.map).find(
+      (node): node is ExtractedElementNode =>
+        node.type === "ELEMENT_NODE" && node.tagName === "button"
+    );
+    expect(save).toMatchObject({
+      xpath: "/html/body/save-bar/#shadow-root/button",
+      inShadowRoot: true,
+      highlightIndex: 2,
+    });
+    expect(payload.nextHighlightIndex).toBe(3);
+  });
+
+  test("takes elements without a layout object as display:none", () => {
+    const elements = elementsOf(
+      snapshotOf([
+        { tag: "button", children: ["Hidden"] },
+        {
+          tag: "div",
+          attributes: { class: "contents" },
+          children: [
+            { tag: "button", box: [0, 0, 80, 30], children: ["Shown"] },
+          ],
+        },
+      ])
+    );
+
+    const [hidden, shown] = elements.filter(
+      (node) => node.tagName === "button"
+    );
+    expect(hidden.isVisible).toBe(false);
+    expect(hidden.visibility.reasons).toEqual(["display-none"]);
+    expect(hidden.highlightIndex).toBeNull();
+    // Rendered children, so `display: contents` rather than none.
+    const wrapper = elements.find((node) => node.tagName === "div");
+    expect(wrapper?.visibility.reasons).toEqual(["zero-size"]);
+    expect(shown.isVisible).toBe(true);
+  });
+
+  test("records opacity, clipping and aria-hidden from computed styles", () => {
+    const elements = elementsOf(
+      snapshotOf([
+        {
+          tag: "p",
+          box: [0, 0, 200, 20],
+          style: { opacity: "0" },
+          children: ["Saved"],
+        },
+        {
+          tag: "div",
+          box: [0, 100, 200, 50],
+          style: { "overflow-x": "hidden", "overflow-y": "hidden" },
+          children: [
+            { tag: "span", box: [0, 200, 100, 20], children: ["Below"] },
+          ],
+        },
+        {
+          tag: "a",
+          attributes: { href: "#top", "aria-hidden": "true" },
+          box: [0, 300, 100, 20],
+          children: ["Back to top"],
+        },
+      ])
+    );
+    const byTag = (tagName: string) =>
+      elements.find((node) => node.tagName === tagName)!;
+
+    expect(byTag("p").visibility.reasons).toEqual(["opacity-zero"]);
+    expect(byTag("span").visibility.reasons).toEqual(["clipped"]);
+    expect(byTag("a").visibility).toEqual({
+      visible: true,
+      reasons: ["aria-hidden"],
+    });
+  });
+
+  test("reports content scrolled out of a container as outside the viewport", () => {
+    const elements = elementsOf(
+      snapshotOf([
+        {
+          tag: "ul",
+          box: [0, 0, 200, 100],
+          style: { "overflow-x": "hidden", "overflow-y": "auto" },
+          children: [
+            {
+              tag: "li",
+              box: [0, 0, 200, 40],
+              children: [{ tag: "button", box: [0, 0, 100, 40] }],
+            },
+            {
+              tag: "li",
+              box: [0, 400, 200, 40],
+              children: [{ tag: "button", box: [0, 400, 100, 40] }],
+            },
+            {
+              tag: "li",
+              box: [300, 0, 200, 40],
+              children: [{ tag: "button", box: [300, 0, 100, 40] }],
+            },
+          ],
+        },
+      ])
+    );
+    const buttons = elements.filter((node) => node.tagName === "button");
+
+    expect(buttons[0].visibility.reasons).toEqual([]);
+    expect(buttons[1].visibility.reasons).toEqual(["outside-viewport"]);
+    expect(buttons[1].isVisible).toBe(false);
+    expect(buttons[2].visibility.reasons).toEqual(["clipped"]);
+  });
+
+  test("hit-tests candidates against layout boxes in paint order", () => {
+    const overlay = (style: ElementSpec["style"]): ElementSpec => ({
+      tag: "div",
+      attributes: { id: "overlay" },
+      box: [0, 0, 1280, 720],
+      style,
+      paintOrder: 100,
+    });
+    const button: ElementSpec = {
+      tag: "button",
+      box: [10, 10, 80, 30],
+      children: ["Buy"],
+    };
+
+    const covered = elementsOf(snapshotOf([button, overlay({})])).find(
+      (node) => node.tagName === "button"
+    );
+    expect(covered).toMatchObject({
+      isTopElement: false,
+      occludedBy: '//*[@id="overlay"]',
+    });
+
+    const clickThrough = elementsOf(
+      snapshotOf([button, overlay({ "pointer-events": "none" })])
+    ).find((node) => node.tagName === "button");
+    expect(clickThrough?.isTopElement).toBe(true);
+  });
+
+  test("reads live form state from the snapshot tables", () => {
+    const elements = elementsOf(
+      snapshotOf([
+        {
+          tag: "input",
+          attributes: { type: "email", required: "" },
+          box: [0, 0, 200, 20],
+          inputValue: "",
+        },
+        {
+          tag: "input",
+          attributes: { type: "checkbox" },
+          box: [0, 30, 20, 20],
+          checked: true,
+        },
+        {
+          tag: "select",
+          box: [0, 60, 200, 20],
+          children: [
+            { tag: "option", children: ["Canada"] },
+            { tag: "option", children: ["France"], selected: true },
+          ],
+        },
+      ])
+    );
+    const [email, checkbox] = elements.filter(
+      (node) => node.tagName === "input"
+    );
+    const select = elements.find((node) => node.tagName === "select");
+
+    expect(email.formState).toMatchObject({
+      value: "",
+      required: true,
+      invalid: true,
+    });
+    expect(checkbox.formState?.checked).toBe(true);
+    expect(select?.formState).toMatchObject({
+      selectedIndex: 1,
+      selectedOptions: ["France"],
+    });
+    // A select's options are never laid out, but aren't display:none.
+    expect(
+      elements.find((node) => node.tagName === "option")?.visibility.reasons
+    ).toEqual(["zero-size"]);
+  });
+
+  test("keeps masked input values out of accessible names", () => {
+    const elements = elementsOf(
+      snapshotOf([
+        {
+          tag: "label",
+          box: [0, 0, 300, 20],
+          children: [
+            "Code",
+            {
+              tag: "input",
+              attributes: { type: "PASSWORD" },
+              box: [50, 0, 100, 20],
+              inputValue: "hunter2",
+            },
+            {
+              tag: "input",
+              attributes: { type: "hidden" },
+              inputValue: "csrf-token",
+            },
+            {
+              tag: "input",
+              attributes: { type: "text" },
+              box: [150, 0, 100, 20],
+              inputValue: "visible",
+            },
+          ],
+        },
+        {
+          tag: "button",
+          box: [0, 30, 80, 20],
+          children: [
+            "Go",
+            {
+              tag: "input",
+              attributes: { type: "password" },
+              box: [40, 30, 30, 20],
+              inputValue: "hunter2",
+            },
+          ],
+        },
+      ])
+    );
+
+    const names = elements.map((node) => node.accessibleName ?? "");
+    expect(names.some((name) => name.includes("hunter2"))).toBe(false);
+    expect(names.some((name) => name.includes("csrf-token"))).toBe(false);
+    expect(
+      elements.find((node) => node.tagName === "button")?.accessibleName
+    ).toBe("Go");
+  });
+
+  test("lists the frames whose documents the snapshot holds", () => {
+    const snapshot = snapshotOf(
+      [
+        {
+          tag: "iframe",
+          box: [100, 200, 300, 150],
+          style: { "padding-left": "5px", "padding-right": "5px" },
+          contentDocument: 1,
+        },
+      ],
+      [{ tag: "button", box: [0, 0, 80, 30], children: ["Reply"] }]
+    );
+
+    const { payload, frames } = extractFromSnapshot(snapshot, 0, options);
+    const iframe = Object.values(payload.map).find(
+      (node): node is ExtractedElementNode =>
+        node.type === "ELEMENT_NODE" && node.tagName === "iframe"
+    );
+
+    expect(iframe?.frameId).toBe("snapshot_document_1");
+    expect(iframe?.frameContentOffset).toEqual({ x: 5, y: 0 });
+    expect(frames.get("snapshot_document_1")).toMatchObject({
+      documentIndex: 1,
+      viewport: { width: 290, height: 150 },
+    });
+  });
+});
+
+describe("extractFromSnapshot budget", () => {
+  const paragraphs = (count: number): ElementSpec[] =>
+    Array.from({ length: count }, (_, i) => ({
+      tag: "p",
+      box: [0, i * 20, 400, 20],
+      children: [`Paragraph ${i + 1}`],
+    }));
+  const extract = (snapshot: DomSnapshot, budget: ExtractionBudget) =>
+    extractFromSnapshot(snapshot, 0, { ...options, budget }).payload;
+  const elements = (payload: FullExtractionPayload) =>
+    Object.values(payload.map).filter(
+      (node): node is ExtractedElementNode => node.type === "ELEMENT_NODE"
+    );
+
+  test("counts every text it cuts, element text included", () => {
+    const payload = extract(
+      snapshotOf([
+        { tag: "p", box: [0, 0, 400, 20], children: ["Read the full terms"] },
+      ]),
+      { maxTextLength: 8 }
+    );
+
+    const paragraph = elements(payload).find((node) => node.tagName === "p");
+    expect(paragraph?.text).toBe("Read the…");
+    // The body's text, the paragraph's, and its text node.
+    expect(payload.report.truncatedTexts).toBe(3);
+    expect(payload.report.truncated).toBe(false);
+  });
+
+  test("spends the last quarter of an over-budget walk on controls", () => {
+    const payload = extract(
+      snapshotOf([
+        ...paragraphs(6),
+        {
+          tag: "div",
+          box: [0, 120, 400, 40],
+          children: [{ tag: "button", box: [0, 120, 80, 40] }],
+        },
+      ]),
+      // 10 elements on the page, html and body included.
+      { maxNodes: 8 }
+    );
+
+    const tags = elements(payload).map((node) => node.tagName);
+    // The sixth paragraph makes way for the button.
+    expect(tags).toHaveLength(8);
+    expect(tags).toEqual(expect.arrayContaining(["div", "button"]));
+    expect(payload.report.skippedForNodeLimit).toBe(1);
+  });
+
+  test("keeps shadow hosts, which may hold controls", () => {
+    const payload = extract(
+      snapshotOf([
+        ...paragraphs(6),
+        {
+          tag: "save-bar",
+          box: [0, 120, 400, 40],
+          shadow: [{ tag: "button", box: [0, 120, 80, 40] }],
+        },
+      ]),
+      { maxNodes: 8 }
+    );
+
+    const tags = elements(payload).map((node) => node.tagName);
+    expect(tags).toHaveLength(8);
+    expect(tags).toEqual(expect.arrayContaining(["save-bar", "button"]));
+  });
+
+  test("walks everything while the page fits its budget", () => {
+    const payload = extract(snapshotOf(paragraphs(6)), { maxNodes: 8 });
+
+    expect(elements(payload)).toHaveLength(7);
+    expect(payload.report.truncated).toBe(false);
+  });
+});
+
+// Compares the two backends on real pages, so it needs a browser.
+describeInBrowser("cdp-snapshot backend parity", () => {
+  let browser: Browser;
+  let page: Page;
+
+  const fixture = (name: string) =>
+    fs.readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+
+  // Everything both backends put on an element, in tree order. Geometry is
+  // rounded: the two read it from different layout APIs.
+  function outline(node: DOMBaseNode): unknown {
+    if (node instanceof DOMTextNode) return node.text;
+    const element = node as DOMElementNode;
+    const { validationMessage, ...formState } = element.formState ?? {};
+    const round = (box: CoordinateSet | null) =>
+      box && [box.x, box.y, box.width, box.height].map(Math.round);
+    return {
+      tagName: element.tagName,
+      xpath: element.xpath,
+      absoluteXPath: element.absoluteXPath,
+      semanticXPath: element.semanticXPath,
+      attributes: element.attributes,
+      framePath: element.framePath,
+      isVisible: element.isVisible,
+      isInViewport: element.isInViewport,
+      visibility: element.visibility,
+      isInteractive: element.isInteractive,
+      interactiveReasons: element.interactiveReasons,
+      isTopElement: element.isTopElement,
+      occludedBy: element.occludedBy,
+      shadowRoot: element.shadowRoot,
+      inShadowRoot: element.inShadowRoot,
+      highlightIndex: element.highlightIndex,
+      elementIndex: element.elementIndex,
+      role: element.role,
+      accessibleName: element.accessibleName,
+      accessibleDescription: element.accessibleDescription,
+      formState: element.formState ? formState : null,
+      scrollable: element.scrollable,
+      viewportCoordinates: round(element.viewportCoordinates),
+      pageCoordinates: round(element.pageCoordinates),
+      children: element.children.map(outline),
+    };
+  }
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage({ viewport: { width: 1280, height: 720 } });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  test.each(["form.html", "components.html"])(
+    "%s yields the same state as the script",
+    async (name) => {
+      await page.setContent(fixture(name));
+
+      // The two detect script-attached listeners differently.
+      const extract = (backend: "script" | "cdp-snapshot") =>
+        new DomService(page, {
+          backend,
+          detectEventListeners: false,
+        }).getClickableElements(false, -1, 0);
+      const fromScript = await extract("script");
+      const fromSnapshot = await extract("cdp-snapshot");
+
+      expect(outline(fromSnapshot.elementTree)).toEqual(
+        outline(fromScript.elementTree)
+      );
+      expect(fromSnapshot.elementTree.viewportInfo).toEqual(
+        fromScript.elementTree.viewportInfo
+      );
+      expect(Object.keys(fromSnapshot.selectorMap)).toEqual(
+        Object.keys(fromScript.selectorMap)
+      );
+    }
+  );
+});
@@ -0,0 +1,355 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Browser, Page, chromium } from "playwright";
+import { domTreeOverlayScript } from "../scripts/domExtractor";
+import { DomService } from "../services/domService";
+import { ExtractionError } from "../services/errors";
+import { validateExtractionPayload } from "../services/payloadValidation";
+import {
+  DEFAULT_ELEMENT_INCLUSION_POLICY,
+  DOMElementNode,
+  ExtractionBudget,
+} from "../types/dom";
+import {
+  EXTRACTION_PAYLOAD_VERSION,
+  ExtractedElementNode,
+  ExtractionPayload,
+} from "../types/extraction";
+import { describeInBrowser } from "./setup";
+
+const viewport = {
+  width: 1280,
+  height: 720,
+  scrollX: 0,
+  scrollY: 0,
+  devicePixelRatio: 1,
+};
+
+function elementData(
+  overrides: Partial<ExtractedElementNode> = {}
+): ExtractedElementNode {
+  return {
+    type: "ELEMENT_NODE",
+    tagName: "body",
+    xpath: "/html/body",
+    absoluteXPath: "/html/body",
+    semanticXPath: null,
+    attributes: {},
+    text: "",
+    isVisible: true,
+    visibility: { visible: true, reasons: [] },
+    isInteractive: false,
+    interactiveReasons: [],
+    isTopElement: true,
+    occludedBy: null,
+    role: null,
+    accessibleName: "",
+    accessibleDescription: "",
+    formState: null,
+    scrollable: null,
+    isInViewport: true,
+    shadowRoot: false,
+    inShadowRoot: false,
+    highlightIndex: null,
+    elementIndex: null,
+    viewport,
+    viewportCoordinates: { x: 0, y: 0, width: 1280, height: 720 },
+    pageCoordinates: { x: 0, y: 0, width: 1280, height: 720 },
+    frameId: null,
+    frameContentOffset: null,
+    children: [],
+    ...overrides,
+  };
+}
+
+function payload(
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    version: EXTRACTION_PAYLOAD_VERSION,
+    mode: "full",
+    rootId: "node_0",
+    report: {
+      truncated: false,
+      elementsExtracted: 1,
+      elementsOnPage: 1,
+      skippedForNodeLimit: 0,
+      skippedForDepth: 0,
+      skippedForTime: 0,
+      skippedOffscreen: 0,
+      truncatedTexts: 0,
+      elapsedMs: 3,
+    },
+    map: {
+      text_0: { type: "TEXT_NODE", text: "Hello", isVisible: true },
+      node_0: elementData({ children: ["text_0"] }),
+    },
+    viewport,
+    nextHighlightIndex: 0,
+    nextElementIndex: 0,
+    ...overrides,
+  };
+}
+
+function validationError(value: unknown): ExtractionError {
+  try {
+    validateExtractionPayload(value);
+  } catch (e) {
+    if (e instanceof ExtractionError) return e;
+    throw e;
+  }
+  throw new Error("expected the payload to be rejected");
+}
+
+describe("validateExtractionPayload", () => {
+  test("accepts what the page script produces", () => {
+    const valid = payload();
+
+    expect(validateExtractionPayload(valid)).toBe(valid);
+  });
+
+  test("rejects a page script that returned nothing", () => {
+    expect(validationError(undefined).message).toBe(
+      "payload: expected an object, got undefined"
+    );
+  });
+
+  test("rejects a payload from another version of the page script", () => {
+    const error = validationError(payload({ version: 0 }));
+
+    expect(error.path).toBe("payload.version");
+    expect(error.message).toMatch(/expected 1, got 0/);
+  });
+
+  test("names the path of a mistyped field", () => {
+    const node = elementData({ children: ["text_0"] });
+    (node.viewportCoordinates as any).width = "1280px";
+    const error = validationError(
+      payload({
+        map: {
+          text_0: { type: "TEXT_NODE", text: "Hello", isVisible: true },
+          node_0: node,
+        },
+      })
+    );
+
+    expect(error.path).toBe("payload.map.node_0.viewportCoordinates.width");
+    expect(error.message).toBe(
+      "payload.map.node_0.viewportCoordinates.width: expected a number, got string"
+    );
+  });
+
+  test("rejects a child listed after its parent", () => {
+    const error = validationError(
+      payload({
+        map: {
+          node_0: elementData({ children: ["text_0"] }),
+          text_0: { type: "TEXT_NODE", text: "Hello", isVisible: true },
+        },
+      })
+    );
+
+    expect(error.path).toBe("payload.map.node_0.children[0]");
+  });
+
+  test("rejects an incremental payload whose roots don't line up", () => {
+    const error = validationError(
+      payload({
+        mode: "incremental",
+        rootId: undefined,
+        rootIds: ["node_0"],
+        rootXPaths: [],
+      })
+    );
+
+    expect(error.path).toBe("payload.rootXPaths");
+  });
+});
+
+// Runs the real page script, so it needs a browser.
+describeInBrowser("extraction on fixture pages", () => {
+  let browser: Browser;
+  let page: Page;
+
+  const fixture = (name: string) =>
+    fs.readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+
+  function findElements(
+    root: DOMElementNode,
+    matches: (node: DOMElementNode) => boolean
+  ): DOMElementNode[] {
+    const found: DOMElementNode[] = [];
+    const visit = (node: DOMElementNode) => {
+      if (matches(node)) found.push(node);
+      for (const child of node.children) {
+        if (child instanceof DOMElementNode) visit(child);
+      }
+    };
+    visit(root);
+    return found;
+  }
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  beforeEach(async () => {
+    page = await browser.newPage({ viewport: { width: 1280, height: 720 } });
+  });
+
+  afterEach(async () => {
+    await page.close();
+  });
+
+  test.each(["form.html", "components.html"])(
+    "%s yields a valid payload",
+    async (name) => {
+      await page.setContent(fixture(name));
+
+      const result = await page.evaluate(
+        domTreeOverlayScript({
+          viewportExpansion: 0,
+          debugMode: false,
+          inclusionPolicy: DEFAULT_ELEMENT_INCLUSION_POLICY,
+        })
+      );
+
+      expect(() => validateExtractionPayload(result)).not.toThrow();
+    }
+  );
+
+  describe("within a budget", () => {
+    const extract = async (budget: ExtractionBudget) =>
+      validateExtractionPayload(
+        await page.evaluate(
+          domTreeOverlayScript({
+            viewportExpansion: 0,
+            debugMode: false,
+            inclusionPolicy: DEFAULT_ELEMENT_INCLUSION_POLICY,
+            budget,
+          })
+        )
+      );
+    const tagsOf = (payload: ExtractionPayload) =>
+      Object.values(payload.map).flatMap((node) =>
+        node.type === "ELEMENT_NODE" ? [node.tagName] : []
+      );
+
+    test("counts every text it cuts, element text included", async () => {
+      await page.setContent("<p>Read the full terms</p>");
+
+      const result = await extract({ maxTextLength: 8 });
+
+      // The body's text, the paragraph's, and its text node.
+      expect(result.report.truncatedTexts).toBe(3);
+      expect(result.report.truncated).toBe(false);
+    });
+
+    test("spends the last quarter of an over-budget walk on controls", async () => {
+      await page.setContent(
+        "<p>1</p><p>2</p><p>3</p><p>4</p><p>5</p><p>6</p>" +
+          "<div><button>Buy</button></div>"
+      );
+
+      // 11 elements on the page, html, head and body included.
+      const result = await extract({ maxNodes: 8 });
+
+      const tags = tagsOf(result);
+      expect(tags).toHaveLength(8);
+      expect(tags).toEqual(expect.arrayContaining(["div", "button"]));
+      expect(result.report.skippedForNodeLimit).toBe(1);
+    });
+
+    test("keeps shadow hosts, which may hold controls", async () => {
+      await page.setContent(
+        "<p>1</p><p>2</p><p>3</p><p>4</p><p>5</p><p>6</p>" +
+          "<save-bar></save-bar>"
+      );
+      await page.evaluate(() => {
+        const host = document.querySelector("save-bar")!;
+        host.attachShadow({ mode: "open" }).innerHTML = "<button>Save</button>";
+      });
+
+      const result = await extract({ maxNodes: 8 });
+
+      expect(tagsOf(result)).toEqual(
+        expect.arrayContaining(["save-bar", "button"])
+      );
+    });
+  });
+
+  test("carries form state, scrolling and visibility onto the tree", async () => {
+    await page.setContent(fixture("form.html"));
+
+    const state = await new DomService(page).getClickableElements(false);
+    const tree = state.elementTree;
+    const byTag = (tagName: string) =>
+      findElements(tree, (node) => node.tagName === tagName);
+
+    const email = byTag("input").find(
+      (node) => node.attributes.id === "email"
+    );
+    expect(email?.formState).toMatchObject({
+      value: "jane@example.com",
+      required: true,
+    });
+    expect(byTag("select")[0].formState?.selectedOptions).toEqual(["France"]);
+    expect(byTag("ul")[0].scrollable?.vertical).toBe(true);
+
+    const hidden = byTag("button").find(
+      (node) => node.attributes.style === "display: none"
+    );
+    expect(hidden?.isVisible).toBe(false);
+    expect(hidden?.visibility?.reasons).toEqual(["display-none"]);
+    expect(byTag("span")[0].visibility?.reasons).toContain("clipped");
+    expect(byTag("a")[0].visibility).toEqual({
+      visible: true,
+      reasons: ["aria-hidden"],
+    });
+  });
+
+  test("walks shadow roots and frames", async () => {
+    await page.setContent(fixture("components.html"));
+
+    const state = await new DomService(page).getClickableElements(false);
+    const buttons = findElements(
+      state.elementTree,
+      (node) => node.tagName === "button"
+    );
+
+    const save = buttons.find((node) => node.attributes.id === "save");
+    expect(save?.inShadowRoot).toBe(true);
+    const reply = buttons.find((node) => node.attributes.id === "reply");
+    expect(reply?.framePath).toHaveLength(1);
+    expect(
+      findElements(state.elementTree, (node) => node.tagName === "p")
+        .find((node) => node.framePath.length === 0)
+        ?.visibility?.reasons
+    ).toEqual(["opacity-zero"]);
+  });
+
+  test("stitches nested frames into one tree", async () => {
+    await page.setContent(fixture("frames.html"));
+
+    const state = await new DomService(page).getClickableElements(false);
+    const byId = (id: string) =>
+      findElements(state.elementTree, (node) => node.attributes.id === id)[0];
+
+    const [top, middle, inner] = ["top", "middle", "inner"].map(byId);
+    expect(Object.values(state.selectorMap)).toEqual([top, middle, inner]);
+    expect(top.framePath).toEqual([]);
+    expect(middle.framePath).toHaveLength(1);
+    expect(inner.framePath).toHaveLength(2);
+    expect(inner.framePath[0]).toBe(middle.framePath[0]);
+
+    const innerFrame = inner.parent!.parent!;
+    expect(innerFrame.tagName).toBe("iframe");
+    expect(innerFrame.parent!.parent!.tagName).toBe("iframe");
+    // Offset by both iframes, and the outer one's 2px border.
+    expect(inner.viewportCoordinates).toMatchObject({ x: 112, y: 252 });
+  });
+});
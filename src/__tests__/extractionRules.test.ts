@@ -0,0 +1,113 @@
+import {
+  ExtractionDom,
+  createExtractionRules,
+} from "../scripts/extractionRules";
+import { DEFAULT_ELEMENT_INCLUSION_POLICY } from "../types/dom";
+
+interface FakeElement {
+  attributes: Record<string, string>;
+  before?: string;
+  after?: string;
+}
+
+// The rules over a document that only answers what text extraction asks.
+function rulesFor() {
+  const dom: Partial<ExtractionDom<FakeElement>> = {
+    getAttribute: (node, name) => node.attributes[name] ?? null,
+    generatedText: (node, pseudo) => node[pseudo] ?? "",
+  };
+  return createExtractionRules(dom as ExtractionDom<FakeElement>, {
+    viewport: { width: 1280, height: 720 },
+    viewportExpansion: 0,
+    inclusionPolicy: DEFAULT_ELEMENT_INCLUSION_POLICY,
+  });
+}
+
+describe("applyTextTransform", () => {
+  const { applyTextTransform } = rulesFor();
+
+  test("changes case as the computed text-transform does", () => {
+    expect(applyTextTransform("Save Draft", "uppercase")).toBe("SAVE DRAFT");
+    expect(applyTextTransform("Save Draft", "lowercase")).toBe("save draft");
+    expect(applyTextTransform("Save Draft", "none")).toBe("Save Draft");
+  });
+
+  test("capitalizes the first letter of each word, hyphenated parts too", () => {
+    expect(
+      applyTextTransform("sign in to a pay-as-you-go plan", "capitalize")
+    ).toBe("Sign In To A Pay-As-You-Go Plan");
+    expect(applyTextTransform("  already UPPER", "capitalize")).toBe(
+      "  Already UPPER"
+    );
+  });
+});
+
+describe("unescapeCssString", () => {
+  const { unescapeCssString } = rulesFor();
+
+  test("decodes hex escapes, swallowing one space after them", () => {
+    expect(unescapeCssString("\\2192  next")).toBe("\u2192 next");
+    expect(unescapeCssString("\\1F600")).toBe("\u{1F600}");
+    expect(unescapeCssString("\\00a0x")).toBe("\u00a0x");
+  });
+
+  test("replaces null and out-of-range code points", () => {
+    expect(unescapeCssString("\\0")).toBe("\uFFFD");
+    expect(unescapeCssString("\\110000")).toBe("\uFFFD");
+  });
+
+  test("keeps any other escaped character as itself", () => {
+    expect(unescapeCssString('say \\"hi\\"')).toBe('say "hi"');
+    expect(unescapeCssString("a\\\\b")).toBe("a\\b");
+  });
+});
+
+describe("getContentText", () => {
+  const rules = rulesFor();
+  const element: FakeElement = { attributes: { "data-step": "3" } };
+  const contentText = (content: string, textTransform = "none") =>
+    rules.getContentText(element, content, textTransform);
+
+  test("joins strings and attr() references", () => {
+    expect(contentText('"Step " attr(data-step)')).toBe("Step 3");
+    expect(contentText("'single' \"double\"")).toBe("singledouble");
+    expect(contentText("attr(data-missing)")).toBe("");
+  });
+
+  test("leaves out counters and quotes", () => {
+    expect(contentText('counter(item) ". "')).toBe(". ");
+    expect(contentText('counters(item, ".") " "')).toBe(" ");
+    expect(contentText('open-quote "cited" close-quote')).toBe("cited");
+  });
+
+  test("stops at the alternative text", () => {
+    expect(contentText('"\\2192" / "next"')).toBe("\u2192");
+  });
+
+  test("renders nothing for none and normal", () => {
+    expect(contentText("none")).toBe("");
+    expect(contentText("normal")).toBe("");
+  });
+
+  test("applies the pseudo-element's text-transform", () => {
+    expect(contentText('"new " attr(data-step)', "capitalize")).toBe("New 3");
+  });
+});
+
+describe("getGeneratedText", () => {
+  const rules = rulesFor();
+
+  test("drops icon font glyphs and collapses whitespace", () => {
+    const element: FakeElement = {
+      attributes: {},
+      before: "\uE001  Settings ",
+      after: "\u{F0001}",
+    };
+    expect(rules.getGeneratedText(element, "before")).toBe("Settings");
+    expect(rules.getGeneratedText(element, "after")).toBe("");
+  });
+
+  test("is empty without generated content", () => {
+    expect(rules.getGeneratedText({ attributes: {} }, "after")).toBe("");
+  });
+});
@@ -0,0 +1,101 @@
+import { DOMElementNode, DOMTextNode } from "../types/dom";
+import {
+  fingerprintElement,
+  fingerprintSimilarity,
+} from "../services/fingerprint";
+
+function element(
+  tagName: string,
+  attributes: Record<string, string>,
+  text: string,
+  ancestors: string[] = ["body", "main"]
+): DOMElementNode {
+  let parent: DOMElementNode | null = null;
+  for (const tag of ancestors) {
+    const ancestor: DOMElementNode = new DOMElementNode(
+      tag,
+      "",
+      {},
+      [],
+      true,
+      parent
+    );
+    parent?.children.push(ancestor);
+    parent = ancestor;
+  }
+  const node = new DOMElementNode(tagName, "", attributes, [], true, parent);
+  parent?.children.push(node);
+  if (text) node.children.push(new DOMTextNode(text, true, node));
+  return node;
+}
+
+describe("fingerprintElement", () => {
+  test("is unaffected by positions, state and generated identifiers", () => {
+    const before = element(
+      "button",
+      { id: ":r4:", class: "btn css-1x2y3z", "aria-expanded": "false" },
+      "Save changes"
+    );
+    before.xpath = "/html/body/main/div[2]/button";
+    const after = element(
+      "button",
+      { id: ":r9:", class: "btn css-9q8w7e", "aria-expanded": "true" },
+      "Save   changes"
+    );
+    after.xpath = "/html/body/main/div[3]/button";
+
+    expect(fingerprintElement(after).digest).toBe(
+      fingerprintElement(before).digest
+    );
+    expect(
+      fingerprintSimilarity(
+        fingerprintElement(before),
+        fingerprintElement(after)
+      )
+    ).toBe(1);
+  });
+
+  test("scores a re-rendered element above an unrelated one", () => {
+    const original = element("button", { "data-testid": "save" }, "Save");
+    const rerendered = element(
+      "button",
+      { "data-testid": "save" },
+      "Save draft",
+      ["body", "main", "div"]
+    );
+    const other = element("button", { "data-testid": "cancel" }, "Cancel");
+    const link = element("a", { "data-testid": "save" }, "Save");
+
+    const similarity = (node: DOMElementNode) =>
+      fingerprintSimilarity(
+        fingerprintElement(original),
+        fingerprintElement(node)
+      );
+
+    expect(similarity(rerendered)).toBeGreaterThan(0.6);
+    expect(similarity(rerendered)).toBeLessThan(1);
+    expect(similarity(other)).toBeLessThan(similarity(rerendered));
+    expect(similarity(link)).toBe(0);
+  });
+
+  test("keeps only digests of the page's content", () => {
+    const node = element("p", { title: "jane@example.com" }, "secret text");
+
+    expect(JSON.stringify(fingerprintElement(node))).not.toMatch(/jane|secret/);
+  });
+
+  test("keys every digest when given a key", () => {
+    const node = element("p", { title: "Total" }, "Total");
+    const plain = fingerprintElement(node);
+    const keyed = fingerprintElement(node, { key: "secret" });
+
+    // A guessed word's plain SHA-256 no longer matches anything.
+    expect(keyed.textTokens).not.toEqual(plain.textTokens);
+    expect(keyed.attributes).not.toEqual(plain.attributes);
+    expect(keyed.digest).not.toBe(plain.digest);
+    expect(fingerprintElement(node, { key: "secret" })).toEqual(keyed);
+    expect(fingerprintElement(node, { key: "other" }).digest).not.toBe(
+      keyed.digest
+    );
+  });
+});
@@ -1,7 +1,12 @@
-import { LLMSelector } from "../services/llmSelector";
+import {
+  ElementVisibilityFilter,
+  LLMSelector,
+} from "../services/llmSelector";
 import { DOMElementNode, SelectorMap } from "../types/dom";
 import { BrowserState } from "../services/browserContext";
 import { ChatOpenAI } from "@langchain/openai";
+import { parseJsonLoosely } from "../services/responseParsing";
+import { RateLimitError } from "../services/errors";
 
 // Mock LLM for testing
 class MockLLM {
@@ -134,6 +139,162 @@ describe("LLMSelector", () => {
     expect(formatted).toContain("[2]<input");
   });
 
+  describe("accessible names in the listing", () => {
+    test("an icon-only button is listed by its computed accessible name", () => {
+      const iconButton = mockSelectorMap[1];
+      iconButton.role = "button";
+      iconButton.accessibleName = "Close dialog";
+
+      const formatted = selector["formatElementsForLLM"](
+        mockBrowserState.elementTree,
+        mockBrowserState.selectorMap
+      );
+
+      expect(formatted).toContain("[1]<button>Close dialog</button>");
+    });
+
+    test("a label that differs from the rendered text is listed alongside it", () => {
+      const input = mockSelectorMap[2];
+      input.accessibleName = "Email address";
+      input.accessibleDescription = "We never share it";
+
+      const formatted = selector["formatElementsForLLM"](
+        mockBrowserState.elementTree,
+        mockBrowserState.selectorMap
+      );
+
+      expect(formatted).toContain(
+        "[2]<input Email address;We never share it>Enter text</input>"
+      );
+    });
+  });
+
+  describe("occluded candidates", () => {
+    let coveredButton: DOMElementNode;
+
+    beforeEach(() => {
+      coveredButton = mockSelectorMap[1];
+      coveredButton.occludedBy = '//*[@id="cookie-banner"]';
+    });
+
+    test("are tagged in the listing by default", () => {
+      const formatted = selector["formatElementsForLLM"](
+        mockBrowserState.elementTree,
+        mockBrowserState.selectorMap
+      );
+
+      expect(formatted).toContain("[1]<button occluded");
+      expect(formatted).toContain("[2]<input>Enter text</input>");
+    });
+
+    test('are never offered or resolved with occludedElements: "exclude"', async () => {
+      let capturedUserMessage = "";
+      const mockLLM = {
+        async invoke(messages: any[]) {
+          capturedUserMessage = messages[1].content as string;
+          return {
+            content: JSON.stringify({
+              selectedIndex: 1,
+              confidence: 0.9,
+              reasoning: "guessed the covered button",
+            }),
+          };
+        },
+      } as any;
+
+      const excluding = new LLMSelector(mockLLM, {
+        useVision: false,
+        occludedElements: "exclude",
+      });
+      const result = await excluding.selectElement(
+        "click the button",
+        mockBrowserState
+      );
+
+      expect(capturedUserMessage).not.toContain("[1]<button");
+      expect(result.selectedElement).toBeNull();
+    });
+  });
+
+  describe("form control state", () => {
+    test("shows the live value rather than the markup's value attribute", () => {
+      const input = mockSelectorMap[2];
+      input.attributes = { type: "text", value: "initial" };
+      input.formState = {
+        value: "jane@",
+        disabled: false,
+        required: true,
+        invalid: true,
+        validationMessage: "Please include an '@'",
+      };
+
+      const formatted = selector["formatElementsForLLM"](
+        mockBrowserState.elementTree,
+        mockBrowserState.selectorMap
+      );
+
+      expect(formatted).toContain(
+        `[2]<input value="jane@" required invalid="Please include an '@'">jane@</input>`
+      );
+    });
+
+    test("tags an unchecked checkbox and never reveals a password", () => {
+      const checkbox = mockSelectorMap[1];
+      checkbox.tagName = "input";
+      checkbox.attributes = { type: "checkbox" };
+      checkbox.formState = { checked: false, disabled: false, invalid: false };
+
+      const password = mockSelectorMap[2];
+      password.attributes = { type: "password" };
+      password.formState = { value: "hunter2", disabled: false, invalid: false };
+
+      const formatted = selector["formatElementsForLLM"](
+        mockBrowserState.elementTree,
+        mockBrowserState.selectorMap
+      );
+
+      expect(formatted).toContain("[1]<input unchecked");
+      expect(formatted).toContain("[2]<input filled");
+      expect(formatted).not.toContain("hunter2");
+    });
+  });
+
+  describe("redaction", () => {
+    test("keeps detected values out of the prompt but keeps indices", async () => {
+      let capturedUserMessage = "";
+      const mockLLM = {
+        async invoke(messages: any[]) {
+          capturedUserMessage = messages[1].content as string;
+          return {
+            content: JSON.stringify({
+              selectedIndex: 2,
+              confidence: 0.9,
+              reasoning: "the email field",
+            }),
+          };
+        },
+      } as any;
+      mockSelectorMap[2].attributes = {
+        type: "email",
+        placeholder: "jane@example.com",
+      };
+
+      const redacting = new LLMSelector(mockLLM, {
+        useVision: false,
+        redaction: { detectors: ["email"] },
+      });
+      const result = await redacting.selectElement("the email field", {
+        ...mockBrowserState,
+        url: "https://example.com/users/jane@example.com",
+      });
+
+      expect(capturedUserMessage).not.toContain("jane@example.com");
+      expect(capturedUserMessage).toContain("[2]<input");
+      expect(capturedUserMessage).toContain("[redacted email]");
+      expect(result.selectedElement).toBe(mockSelectorMap[2]);
+    });
+  });
+
   describe("formatAllElementsForLLM visibility handling", () => {
     let visibleHeading: DOMElementNode;
     let hiddenButton: DOMElementNode;
@@ -198,6 +359,69 @@ describe("LLMSelector", () => {
       expect(formatted).toContain("[20]<button hidden");
     });
 
+    test("tags hidden elements with why they're hidden when that's known", () => {
+      hiddenButton.visibility = {
+        visible: false,
+        reasons: ["display-none", "aria-hidden"],
+      };
+      visibleHeading.visibility = { visible: true, reasons: [] };
+
+      const formatted = selector["formatAllElementsForLLM"](elementMap);
+
+      expect(formatted).toContain("[10]<h1/>");
+      expect(formatted).toContain(
+        '[20]<button hidden="display-none" aria-hidden>Open menu</button>'
+      );
+    });
+
+    test("tells off-screen elements apart from collapsed and aria-hidden ones", () => {
+      const below = new DOMElementNode(
+        "p",
+        "/html/body/p[9]",
+        {},
+        [],
+        false,
+        null
+      );
+      below.elementIndex = 30;
+      below.visibility = { visible: false, reasons: ["outside-viewport"] };
+      // Rendered and on screen as far as layout goes, but transparent.
+      const transparent = new DOMElementNode(
+        "input",
+        "/html/body/input",
+        {},
+        [],
+        true,
+        null
+      );
+      transparent.elementIndex = 40;
+      transparent.visibility = { visible: false, reasons: ["opacity-zero"] };
+      const decorative = new DOMElementNode(
+        "svg",
+        "/html/body/svg",
+        {},
+        [],
+        true,
+        null
+      );
+      decorative.elementIndex = 50;
+      decorative.visibility = { visible: true, reasons: ["aria-hidden"] };
+      const pool: SelectorMap = {
+        ...elementMap,
+        30: below,
+        40: transparent,
+        50: decorative,
+      };
+      const keys = (filter: ElementVisibilityFilter) =>
+        Object.keys(selector["filterElementsByVisibility"](pool, filter));
+
+      expect(keys("offscreen-only")).toEqual(["30"]);
+      expect(keys("collapsed-only")).toEqual(["40"]);
+      expect(keys("aria-hidden-only")).toEqual(["50"]);
+      expect(keys("visible-only")).toEqual(["10", "50"]);
+      expect(keys("hidden-only")).toEqual(["20", "30", "40"]);
+    });
+
     test("a selectedIndex outside the filtered pool cannot resolve to a filtered-out element", () => {
       // Guards the lookup-bypass bug: the model must not be able to select
       // something it was never shown just because that index exists in the
@@ -206,9 +430,13 @@ describe("LLMSelector", () => {
         elementMap,
         "visible-only"
       );
-      const result = selector["parseLLMResponseForAllElements"](
-        JSON.stringify({ selectedIndex: 20, confidence: 0.9, reasoning: "test" }),
-        candidates
+      const result = selector["resolveSelection"](
+        {
+          value: { selectedIndex: 20, confidence: 0.9, reasoning: "test" },
+          text: "",
+        },
+        candidates,
+        "element map"
       );
 
       expect(result.selectedElement).toBeNull();
@@ -267,4 +495,520 @@ describe("LLMSelector", () => {
       expect(result.selectedElement).toBe(visibleHeading);
     });
   });
+
+  describe("selecting several elements", () => {
+    // Answers with each of `responses` in turn, recording what it was sent.
+    const scriptedLLM = (...responses: object[]) => {
+      const calls: any[][] = [];
+      return {
+        calls,
+        llm: {
+          async invoke(messages: any[]) {
+            calls.push(messages);
+            return { content: JSON.stringify(responses[calls.length - 1]) };
+          },
+        } as any,
+      };
+    };
+
+    test("returns valid matches in page order, each once", async () => {
+      const { llm } = scriptedLLM({
+        matches: [
+          { index: 2, confidence: 0.8, reasoning: "a text field" },
+          { index: 7, confidence: 0.9, reasoning: "not in the listing" },
+          { index: 1, confidence: 1.4, reasoning: "the button" },
+          2,
+        ],
+        reasoning: "both controls",
+      });
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElements("every control", mockBrowserState);
+
+      expect(
+        result.matches.map(({ element, index, confidence, reasoning }) => [
+          element,
+          index,
+          confidence,
+          reasoning,
+        ])
+      ).toEqual([
+        [mockSelectorMap[1], 1, 1, "the button"],
+        [mockSelectorMap[2], 2, 0.8, "a text field"],
+      ]);
+      expect(result.invalidIndices).toEqual([7]);
+      expect(result.reasoning).toBe("both controls");
+      expect(result.countInRange).toBe(true);
+      expect(result.attempts).toBe(1);
+    });
+
+    test("re-prompts when the number of matches is implausible", async () => {
+      const { llm, calls } = scriptedLLM(
+        { matches: [{ index: 1, confidence: 0.9 }], reasoning: "" },
+        { matches: [1, 2], reasoning: "missed the input" }
+      );
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElements("every control", mockBrowserState, { minCount: 2 });
+
+      expect(result.matches.map((match) => match.index)).toEqual([1, 2]);
+      expect(result.countInRange).toBe(true);
+      expect(result.attempts).toBe(2);
+      // The bounds are only mentioned once the first answer misses them.
+      expect(calls[0]).toHaveLength(2);
+      expect(calls[1]).toHaveLength(4);
+      expect(calls[1][3].content).toContain(
+        "You selected 1 element, but at least 2 should match."
+      );
+    });
+
+    test("gives up after maxReprompts and says so", async () => {
+      const answer = { matches: [1, 2], reasoning: "" };
+      const { llm, calls } = scriptedLLM(answer, answer);
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElements("the button", mockBrowserState, {
+        maxCount: 1,
+        maxReprompts: 1,
+      });
+
+      expect(calls).toHaveLength(2);
+      expect(result.matches).toHaveLength(2);
+      expect(result.countInRange).toBe(false);
+    });
+
+    test("selectAllMatching only resolves elements the filter allows", async () => {
+      const hidden = new DOMElementNode(
+        "tr",
+        "/html/body/table/tr[2]",
+        {},
+        [],
+        false,
+        null
+      );
+      hidden.elementIndex = 3;
+      const { llm, calls } = scriptedLLM({ matches: [1, 3], reasoning: "" });
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectAllMatching(
+        "every row",
+        { ...mockBrowserState, elementMap: { ...mockSelectorMap, 3: hidden } },
+        { visibilityFilter: "visible-only" }
+      );
+
+      expect(calls[0][1].content).not.toContain("[3]<tr");
+      expect(result.matches.map((match) => match.element)).toEqual([
+        mockSelectorMap[1],
+      ]);
+      expect(result.invalidIndices).toEqual([3]);
+    });
+  });
+
+  describe("selecting within a token budget", () => {
+    const labels = [
+      "Home", "Search", "Cart", "Help", "Sign in",
+      "Filters", "Sort", "Checkout", "Wishlist", "Contact",
+    ];
+    const page = (): BrowserState => {
+      const selectorMap: SelectorMap = {};
+      labels.forEach((label, i) => {
+        const button = new DOMElementNode(
+          "button",
+          `/html/body/button[${i + 1}]`,
+          {},
+          [],
+          true,
+          null
+        );
+        button.highlightIndex = i + 1;
+        button.isInteractive = true;
+        button.accessibleName = label;
+        selectorMap[i + 1] = button;
+      });
+      return {
+        ...mockBrowserState,
+        elementTree: selectorMap[1],
+        selectorMap,
+        elementMap: selectorMap,
+      };
+    };
+
+    // Picks "Checkout" when it's listed, else the first button listed.
+    const pickingLLM = (usage?: object) => {
+      const listings: string[][] = [];
+      return {
+        listings,
+        llm: {
+          async invoke(messages: any[]) {
+            const listed = Array.from(
+              String(messages[1].content).matchAll(/\[(\d+)\]<button>([^<]*)/g)
+            );
+            listings.push(listed.map(([, , label]) => label));
+            const pick =
+              listed.find(([, , label]) => label === "Checkout") ?? listed[0];
+            return {
+              content: JSON.stringify({
+                selectedIndex: Number(pick[1]),
+                confidence: 0.9,
+                reasoning: pick[2],
+              }),
+              usage_metadata: usage,
+            };
+          },
+        } as any,
+      };
+    };
+
+    const overhead = (selector: LLMSelector, state: BrowserState) =>
+      selector["estimateTokens"](
+        selector["selectionMessages"]("checkout", state, {}, false)
+      );
+
+    test("picks among chunk winners when the listing is too large", async () => {
+      const { llm, listings } = pickingLLM({
+        input_tokens: 120,
+        output_tokens: 20,
+      });
+      const state = page();
+      const unbounded = new LLMSelector(llm, { useVision: false });
+      const budget = overhead(unbounded, state) + 30;
+      const selector = new LLMSelector(llm, {
+        useVision: false,
+        tokenBudget: budget,
+      });
+
+      const result = await selector.selectElement("checkout", state);
+
+      expect(result.selectedElement).toBe(state.selectorMap[8]);
+      // Consecutive runs in page order, then the winners.
+      expect(listings).toEqual([
+        ["Home", "Search", "Cart", "Help"],
+        ["Sign in", "Filters", "Sort"],
+        ["Checkout", "Wishlist", "Contact"],
+        ["Home", "Sign in", "Checkout"],
+      ]);
+      expect(result.usage).toEqual({
+        calls: 4,
+        inputTokens: 480,
+        outputTokens: 80,
+        estimated: false,
+        chunks: 3,
+      });
+    });
+
+    test("asks a few chunks at a time and stops at a rate limit", async () => {
+      const { llm: picking } = pickingLLM({
+        input_tokens: 120,
+        output_tokens: 20,
+      });
+      let calls = 0;
+      let inFlight = 0;
+      let mostInFlight = 0;
+      const llm = {
+        async invoke(messages: any[]) {
+          const call = ++calls;
+          mostInFlight = Math.max(mostInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+          if (call === 1) {
+            throw Object.assign(new Error("Too many requests"), {
+              status: 429,
+            });
+          }
+          return picking.invoke(messages);
+        },
+      } as any;
+      const state = page();
+      const unbounded = new LLMSelector(llm, { useVision: false });
+      const selector = new LLMSelector(llm, {
+        useVision: false,
+        tokenBudget: overhead(unbounded, state) + 10,
+        retry: { maxRetries: 1, initialDelayMs: 0, maxDelayMs: 0 },
+      });
+      const usage = {
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimated: false,
+        chunks: 0,
+      };
+
+      await expect(
+        selector["selectFromPool"](
+          "checkout",
+          state,
+          state.selectorMap,
+          false,
+          usage
+        )
+      ).rejects.toThrow(RateLimitError);
+
+      // The chunks in flight when the limit hit finished; none started after.
+      expect(mostInFlight).toBe(3);
+      expect(calls).toBe(3);
+      expect(usage).toEqual({
+        calls: 2,
+        inputTokens: 240,
+        outputTokens: 40,
+        estimated: false,
+        chunks: 3,
+      });
+    });
+
+    test("sends a single prompt when the listing fits", async () => {
+      const { llm, listings } = pickingLLM();
+      const state = page();
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+        tokenBudget: 100_000,
+      }).selectElement("checkout", state);
+
+      expect(result.selectedIndex).toBe(8);
+      expect(listings).toHaveLength(1);
+      expect(result.usage).toMatchObject({
+        calls: 1,
+        estimated: true,
+        chunks: 0,
+      });
+      expect(result.usage!.inputTokens).toBeGreaterThan(0);
+    });
+
+    test("rejects a budget too small for any element", async () => {
+      const { llm } = pickingLLM();
+      const state = page();
+      const unbounded = new LLMSelector(llm, { useVision: false });
+
+      await expect(
+        new LLMSelector(llm, {
+          useVision: false,
+          tokenBudget: overhead(unbounded, state),
+        }).selectElement("checkout", state)
+      ).rejects.toThrow("leaves no room for elements");
+    });
+  });
+
+  describe("reading the model's answer", () => {
+    const answering = (...responses: string[]) => {
+      const calls: any[][] = [];
+      return {
+        calls,
+        llm: {
+          async invoke(messages: any[]) {
+            calls.push(messages);
+            return { content: responses[calls.length - 1] };
+          },
+        } as any,
+      };
+    };
+
+    test("finds the JSON among prose, comments and trailing commas", () => {
+      expect(
+        parseJsonLoosely(
+          'The input matches best:\n{"selectedIndex": 2, // the field\n' +
+            '"reasoning": "has {braces}",}\nHope that helps!'
+        )
+      ).toEqual({ selectedIndex: 2, reasoning: "has {braces}" });
+      expect(
+        parseJsonLoosely('```json\n{"matches": [1, 2,]}\n```')
+      ).toEqual({ matches: [1, 2] });
+      expect(() => parseJsonLoosely("No element matches.")).toThrow(
+        "No JSON object"
+      );
+    });
+
+    test("accepts an index written as a string", async () => {
+      const { llm } = answering(
+        'Sure! {"selectedIndex": "[2]", "confidence": "0.7", "reasoning": ""}'
+      );
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElement("the text field", mockBrowserState);
+
+      expect(result.selectedElement).toBe(mockSelectorMap[2]);
+      expect(result.confidence).toBe(0.7);
+    });
+
+    test("sends an unusable answer back once to be repaired", async () => {
+      const { llm, calls } = answering(
+        '{"index": 1, "confidence": 0.9}',
+        '{"selectedIndex": 1, "confidence": 0.9, "reasoning": "the button"}'
+      );
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElement("the button", mockBrowserState);
+
+      expect(result.selectedElement).toBe(mockSelectorMap[1]);
+      expect(calls).toHaveLength(2);
+      expect(calls[1][2].content).toBe('{"index": 1, "confidence": 0.9}');
+      expect(calls[1][3].content).toContain('"selectedIndex" is missing');
+    });
+
+    test("gives up after one repair", async () => {
+      const { llm, calls } = answering("I can't tell.", "Still can't.");
+
+      const result = await new LLMSelector(llm, {
+        useVision: false,
+      }).selectElement("the button", mockBrowserState);
+
+      expect(calls).toHaveLength(2);
+      expect(result.selectedElement).toBeNull();
+    });
+
+    describe("with native structured output", () => {
+      const structuredLLM = (
+        parsed: object | null,
+        raw = "",
+        toolCalls: object[] = []
+      ) => {
+        const bound: any[] = [];
+        return {
+          bound,
+          llm: {
+            async invoke() {
+              throw new Error("asked for text");
+            },
+            withStructuredOutput(schema: any, config: any) {
+              bound.push([schema, config]);
+              return {
+                async invoke() {
+                  return {
+                    raw: { content: raw, tool_calls: toolCalls },
+                    parsed,
+                  };
+                },
+              };
+            },
+          } as any,
+        };
+      };
+
+      // A model whose structured calls fail with `error`, answering `text`
+      // when asked for text.
+      const rejectingLLM = (error: Error, text: string) => {
+        const structuredCalls: any[] = [];
+        const { llm, calls } = answering(text, text);
+        llm.withStructuredOutput = () => ({
+          async invoke(messages: any[]) {
+            structuredCalls.push(messages);
+            throw error;
+          },
+        });
+        return { llm, calls, structuredCalls };
+      };
+      const badRequest = (message: string) =>
+        Object.assign(new Error(message), { status: 400 });
+
+      test("is used when the model supports it", async () => {
+        const { llm, bound } = structuredLLM({
+          selectedIndex: 2,
+          confidence: 0.8,
+          reasoning: "the field",
+        });
+        const structured = new LLMSelector(llm, { useVision: false });
+
+        const result = await structured.selectElement(
+          "the text field",
+          mockBrowserState
+        );
+        await structured.selectElement("the text field", mockBrowserState);
+
+        expect(result.selectedElement).toBe(mockSelectorMap[2]);
+        // Bound once per response format.
+        expect(bound).toHaveLength(1);
+        expect(bound[0][0].required).toContain("selectedIndex");
+        expect(bound[0][1]).toEqual({
+          name: "select_element",
+          includeRaw: true,
+        });
+      });
+
+      test("falls back to the raw text when it couldn't be parsed", async () => {
+        const { llm } = structuredLLM(
+          null,
+          'Here: {"selectedIndex": 1, "confidence": 1, "reasoning": ""}'
+        );
+
+        const result = await new LLMSelector(llm, {
+          useVision: false,
+        }).selectElement("the button", mockBrowserState);
+
+        expect(result.selectedElement).toBe(mockSelectorMap[1]);
+      });
+
+      test("reads the tool call's arguments when they couldn't be parsed", async () => {
+        const { llm } = structuredLLM(null, "", [
+          {
+            name: "select_element",
+            args: { selectedIndex: 1, confidence: 1, reasoning: "" },
+          },
+        ]);
+
+        const result = await new LLMSelector(llm, {
+          useVision: false,
+        }).selectElement("the button", mockBrowserState);
+
+        expect(result.selectedElement).toBe(mockSelectorMap[1]);
+      });
+
+      test("answers in text for good once the tool is rejected", async () => {
+        const answer = '{"selectedIndex": 1, "confidence": 1, "reasoning": ""}';
+        const { llm, calls, structuredCalls } = rejectingLLM(
+          badRequest("Invalid schema for function 'select_element'"),
+          answer
+        );
+        const selector = new LLMSelector(llm, { useVision: false });
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+        await selector.selectElement("the button", mockBrowserState);
+        const result = await selector.selectElement(
+          "the button",
+          mockBrowserState
+        );
+        warn.mockRestore();
+
+        expect(result.selectedElement).toBe(mockSelectorMap[1]);
+        expect(structuredCalls).toHaveLength(1);
+        expect(calls).toHaveLength(2);
+      });
+
+      test("keeps structured output after an unrelated bad request", async () => {
+        const { llm, calls, structuredCalls } = rejectingLLM(
+          badRequest("This model's maximum context length is 128000 tokens"),
+          '{"selectedIndex": 1, "confidence": 1, "reasoning": ""}'
+        );
+        const selector = new LLMSelector(llm, { useVision: false });
+
+        for (let i = 0; i < 2; i++) {
+          await expect(
+            selector.selectElement("the button", mockBrowserState)
+          ).rejects.toThrow("maximum context length");
+        }
+        expect(structuredCalls).toHaveLength(2);
+        expect(calls).toHaveLength(0);
+      });
+
+      test("is skipped when the model can't bind tools", async () => {
+        const { llm, calls } = answering(
+          '{"selectedIndex": 1, "confidence": 1, "reasoning": ""}'
+        );
+        llm.withStructuredOutput = () => {
+          throw new Error('Chat model must implement ".bindTools()"');
+        };
+
+        const result = await new LLMSelector(llm, {
+          useVision: false,
+        }).selectElement("the button", mockBrowserState);
+
+        expect(result.selectedElement).toBe(mockSelectorMap[1]);
+        expect(calls).toHaveLength(1);
+      });
+    });
+  });
 });
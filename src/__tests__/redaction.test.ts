@@ -0,0 +1,140 @@
+import { inflateSync } from "zlib";
+import { Redactor } from "../services/redaction";
+import { pixelateRegions } from "../services/png";
+import { DOMElementNode, DOMTextNode } from "../types/dom";
+
+// 2x2 RGB: red, green / blue, white — rows stored with the Sub and Up
+// filters, so decoding has to undo them.
+const TWO_BY_TWO_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAIAAAACCAIAAAD91JpzAAAAFklEQVR4nGP8z8DA+J+BiZHh/3+G/wAeHAUBO0YLBwAAAABJRU5ErkJggg==";
+
+// Pixels of a PNG written by pixelateRegions (every row unfiltered).
+function pixelsOf(pngBase64: string): number[] {
+  const png = Buffer.from(pngBase64, "base64");
+  const idatStart = png.indexOf("IDAT") + 4;
+  const idatLength = png.readUInt32BE(idatStart - 8);
+  const raw = inflateSync(png.subarray(idatStart, idatStart + idatLength));
+  const rowLength = raw.length / 2;
+  return [
+    ...raw.subarray(1, rowLength),
+    ...raw.subarray(rowLength + 1, 2 * rowLength),
+  ];
+}
+
+describe("Redactor", () => {
+  test("detectors replace only what they recognise", () => {
+    const redactor = new Redactor({
+      detectors: ["email", "card-number", "phone-number"],
+    });
+
+    expect(redactor.redactText("Contact jane.doe@example.com today")).toBe(
+      "Contact [redacted email] today"
+    );
+    expect(redactor.redactText("Card 4111 1111 1111 1111")).toBe(
+      "Card [redacted card number]"
+    );
+    // Fails the Luhn check — an order number, not a card.
+    expect(redactor.redactText("Order 1234 5678 9012 3456")).toBe(
+      "Order 1234 5678 9012 3456"
+    );
+    expect(redactor.redactText("Call (555) 123-4567 or +44 20 7946 0958")).toBe(
+      "Call [redacted phone number] or [redacted phone number]"
+    );
+    expect(redactor.redactText("Released 2024-01-15")).toBe(
+      "Released 2024-01-15"
+    );
+  });
+
+  test("applies custom patterns and leaves text alone by default", () => {
+    expect(new Redactor().redactText("jane@example.com")).toBe(
+      "jane@example.com"
+    );
+    expect(
+      new Redactor({ patterns: [/tok_[a-z0-9]+/i, "ACME-\\d+"] }).redactText(
+        "tok_abc123 and ACME-42"
+      )
+    ).toBe("[redacted] and [redacted]");
+  });
+
+  test("never allows the value of a password or hidden input", () => {
+    const redactor = new Redactor({ denyAttributes: ["data-user"] });
+    const password = new DOMElementNode(
+      "input",
+      "/html/body/input[1]",
+      { type: "password", value: "hunter2" },
+      [],
+      true,
+      null
+    );
+    const search = new DOMElementNode(
+      "input",
+      "/html/body/input[2]",
+      { type: "search", value: "shoes" },
+      [],
+      true,
+      null
+    );
+
+    expect(redactor.isAllowedAttribute(password, "value")).toBe(false);
+    expect(redactor.isAllowedAttribute(search, "value")).toBe(true);
+    expect(redactor.isAllowedAttribute(search, "data-user")).toBe(false);
+    expect(redactor.hasRedactedContent(password)).toBe(true);
+    expect(redactor.hasRedactedContent(search)).toBe(false);
+  });
+
+  test("pixelates the boxes of elements with redacted text", () => {
+    const redactor = new Redactor({ detectors: ["email"] });
+    const root = new DOMElementNode("body", "/html/body", {}, [], true, null);
+    root.viewportCoordinates = { x: 0, y: 0, width: 2, height: 2 };
+    const paragraph = new DOMElementNode(
+      "p",
+      "/html/body/p",
+      {},
+      [],
+      true,
+      root
+    );
+    paragraph.children.push(
+      new DOMTextNode("jane@example.com", true, paragraph)
+    );
+    paragraph.viewportCoordinates = { x: 0, y: 0, width: 2, height: 2 };
+    root.children.push(paragraph);
+
+    const redacted = redactor.redactScreenshot(TWO_BY_TWO_PNG, root);
+
+    expect(redacted).not.toBe(TWO_BY_TWO_PNG);
+    // One block covering all four pixels: each becomes their average.
+    expect(pixelsOf(redacted)).toEqual([
+      128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    ]);
+  });
+
+  test("drops a screenshot it would have to redact but cannot decode", () => {
+    const redactor = new Redactor();
+    const password = new DOMElementNode(
+      "input",
+      "/html/body/input",
+      { type: "password", value: "hunter2" },
+      [],
+      true,
+      null
+    );
+    password.viewportCoordinates = { x: 0, y: 0, width: 10, height: 10 };
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(redactor.redactScreenshot("bm90IGEgcG5n", password)).toBe("");
+    warn.mockRestore();
+  });
+});
+
+describe("pixelateRegions", () => {
+  test("leaves pixels outside the regions untouched", () => {
+    const result = pixelateRegions(TWO_BY_TWO_PNG, [
+      { x: 0, y: 1, width: 2, height: 1 },
+    ]);
+
+    expect(pixelsOf(result!)).toEqual([
+      255, 0, 0, 0, 255, 0, 128, 128, 255, 128, 128, 255,
+    ]);
+  });
+});
@@ -74,6 +74,26 @@ describe("mergeElementsByXPath", () => {
 
     expect(pool.get("/html/body/div[2]")).toBe(onscreen);
   });
+
+  it("keeps same-xpath elements from different frames apart", () => {
+    const pool = new Map<string, DOMElementNode>();
+    const topLevel = makeElement("/html/body/div[1]", {
+      isVisible: true,
+      isInteractive: true,
+      elementIndex: 0,
+    });
+    const inFrame = makeElement("/html/body/div[1]", {
+      isVisible: true,
+      isInteractive: true,
+      elementIndex: 1,
+    });
+    inFrame.framePath = ['//*[@id="payment"]'];
+
+    mergeElementsByXPath(pool, { 0: topLevel, 1: inFrame });
+
+    expect(pool.size).toBe(2);
+    expect(pool.get('//*[@id="payment"] >> /html/body/div[1]')).toBe(inFrame);
+  });
 });
 
 describe("buildIndexedMaps", () => {
@@ -1,6 +1,21 @@
 // Jest setup file for browser tests
+import * as fs from "fs";
 import { chromium } from "playwright";
 
+const hasChromium = (() => {
+  try {
+    return fs.existsSync(chromium.executablePath());
+  } catch {
+    return false;
+  }
+})();
+
+/**
+ * `describe` for tests that need a real browser; skips them where
+ * Playwright's Chromium isn't installed.
+ */
+export const describeInBrowser = hasChromium ? describe : describe.skip;
+
 // Global setup for browser tests
 beforeAll(async () => {
   // Any global setup can go here
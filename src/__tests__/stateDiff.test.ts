@@ -0,0 +1,285 @@
+import * as fingerprint from "../services/fingerprint";
+import { diffStates, formatStateDiff } from "../services/stateDiff";
+import {
+  DOMElementNode,
+  DOMState,
+  DOMTextNode,
+  FormControlState,
+  VisibilityReason,
+} from "../types/dom";
+
+interface Spec {
+  tag: string;
+  attributes?: Record<string, string>;
+  text?: string;
+  hidden?: VisibilityReason[];
+  interactive?: boolean;
+  formState?: FormControlState;
+  children?: Spec[];
+}
+
+const el = (
+  tag: string,
+  options: Omit<Spec, "tag"> = {},
+  ...children: Spec[]
+): Spec => ({ tag, ...options, children });
+
+// A page of `body` specs, with positional xpaths and indices as extracted.
+function stateOf(...body: Spec[]): DOMState {
+  const selectorMap: Record<number, DOMElementNode> = {};
+  const elementMap: Record<number, DOMElementNode> = {};
+
+  const build = (
+    spec: Spec,
+    xpath: string,
+    parent: DOMElementNode | null
+  ): DOMElementNode => {
+    const visible = !spec.hidden;
+    const node = new DOMElementNode(
+      spec.tag,
+      xpath,
+      spec.attributes ?? {},
+      [],
+      visible,
+      parent
+    );
+    node.visibility = { visible, reasons: spec.hidden ?? [] };
+    node.isInteractive = spec.interactive ?? false;
+    node.formState = spec.formState ?? null;
+    node.elementIndex = Object.keys(elementMap).length;
+    elementMap[node.elementIndex] = node;
+    if (visible && node.isInteractive) {
+      node.highlightIndex = Object.keys(selectorMap).length;
+      selectorMap[node.highlightIndex] = node;
+    }
+
+    if (spec.text) {
+      node.children.push(new DOMTextNode(spec.text, visible, node));
+    }
+    const seen: Record<string, number> = {};
+    for (const child of spec.children ?? []) {
+      seen[child.tag] = (seen[child.tag] ?? 0) + 1;
+      node.children.push(
+        build(child, `${xpath}/${child.tag}[${seen[child.tag]}]`, node)
+      );
+    }
+    return node;
+  };
+
+  const tree = build(el("html", {}, el("body", {}, ...body)), "/html", null);
+  return new DOMState(tree, selectorMap, elementMap);
+}
+
+const tags = (nodes: DOMElementNode[]) =>
+  nodes.map((node) => `${node.tagName} ${node.xpath}`);
+
+describe("diffStates", () => {
+  const row = (name: string) =>
+    el(
+      "li",
+      { text: name },
+      el("button", { text: "Delete", interactive: true })
+    );
+
+  test("reports a removed row as removed, not later rows as changed", () => {
+    const before = stateOf(
+      el("ul", {}, row("Alpha"), row("Beta"), row("Gamma"))
+    );
+    const after = stateOf(el("ul", {}, row("Beta"), row("Gamma")));
+
+    const diff = diffStates(before, after);
+
+    expect(tags(diff.removed)).toEqual([
+      "li /html/body[1]/ul[1]/li[1]",
+      "button /html/body[1]/ul[1]/li[1]/button[1]",
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  test("reports reordered and re-parented elements as moved", () => {
+    const before = stateOf(
+      el("ul", {}, row("Alpha"), row("Beta"), row("Gamma")),
+      el("aside", {}, el("a", { text: "Help" }))
+    );
+    const after = stateOf(
+      el("ul", {}, row("Beta"), row("Alpha"), row("Gamma")),
+      el("footer", {}, el("a", { text: "Help" }))
+    );
+
+    const diff = diffStates(before, after);
+
+    // Of two swapped rows, one moved: here Beta, up.
+    expect(tags(diff.moved.map((change) => change.after))).toEqual([
+      "li /html/body[1]/ul[1]/li[1]",
+      "a /html/body[1]/footer[1]/a[1]",
+    ]);
+    expect(diff.moved.every((change) => change.kinds.length === 1)).toBe(true);
+    expect(tags(diff.removed)).toEqual(["aside /html/body[1]/aside[1]"]);
+    expect(tags(diff.added)).toEqual(["footer /html/body[1]/footer[1]"]);
+  });
+
+  test("reports text, attribute, visibility and form state changes", () => {
+    const before = stateOf(
+      el("button", { text: "Save", interactive: true }),
+      el("div", { attributes: { role: "dialog" }, hidden: ["display-none"] }),
+      el("input", {
+        attributes: { name: "email" },
+        interactive: true,
+        formState: { value: "", disabled: false, invalid: false },
+      })
+    );
+    const after = stateOf(
+      el("button", { text: "Saved", interactive: true }),
+      el("div", { attributes: { role: "dialog" } }),
+      el("input", {
+        attributes: { name: "email", "aria-invalid": "true" },
+        interactive: true,
+        formState: { value: "", disabled: false, invalid: true },
+      })
+    );
+
+    const diff = diffStates(before, after);
+
+    expect(diff.textChanged.map((change) => change.text)).toEqual([
+      { before: "Save", after: "Saved" },
+    ]);
+    expect(diff.visibilityChanged.map((change) => change.visibility)).toEqual([
+      {
+        before: { visible: false, reasons: ["display-none"] },
+        after: { visible: true, reasons: [] },
+      },
+    ]);
+    expect(diff.attributeChanged[0].attributes).toEqual([
+      { name: "aria-invalid", before: null, after: "true" },
+    ]);
+    expect(diff.stateChanged[0].formState).toEqual([
+      { name: "invalid", before: false, after: true },
+    ]);
+    expect(diff.changed.map((change) => change.kinds)).toEqual([
+      ["text-changed"],
+      ["visibility-changed"],
+      ["attribute-changed", "state-changed"],
+    ]);
+  });
+
+  describe("on a large page", () => {
+    // Rows whose text changed, moved into a new section.
+    const reworded = (count: number) => {
+      const rows = (due: string) =>
+        Array.from({ length: count }, (_, i) => row(`Item ${i} due ${due}`));
+      return [
+        stateOf(el("ul", {}, ...rows("soon"))),
+        stateOf(el("section", {}, el("ul", {}, ...rows("today")))),
+      ];
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test("compares each changed element with a few candidates", () => {
+      const similarity = jest.spyOn(fingerprint, "fingerprintSimilarity");
+      const [before, after] = reworded(900);
+
+      const diff = diffStates(before, after);
+
+      expect(tags(diff.added)).toEqual(["section /html/body[1]/section[1]"]);
+      expect(diff.removed).toEqual([]);
+      expect(diff.textChanged).toHaveLength(900);
+      expect(diff.textChanged[899].text).toEqual({
+        before: "Item 899 due soon",
+        after: "Item 899 due today",
+      });
+      expect(tags(diff.moved.map((change) => change.after))).toEqual([
+        "ul /html/body[1]/section[1]/ul[1]",
+      ]);
+      expect(similarity.mock.calls.length).toBeLessThanOrEqual(1801 * 50);
+    });
+
+    test("reports what's left as added and removed past the limit", () => {
+      const similarity = jest.spyOn(fingerprint, "fingerprintSimilarity");
+      const [before, after] = reworded(1100);
+
+      const diff = diffStates(before, after);
+
+      expect(similarity).not.toHaveBeenCalled();
+      expect(diff.added).toHaveLength(2202);
+      expect(diff.removed).toHaveLength(2201);
+      expect(diff.changed).toEqual([]);
+    });
+  });
+});
+
+describe("formatStateDiff", () => {
+  test("summarizes a dialog opening and validation text appearing", () => {
+    const dialog = (hidden?: VisibilityReason[]) =>
+      el(
+        "div",
+        { attributes: { role: "dialog" }, hidden },
+        el("p", { text: "Discard changes?", hidden }),
+        el("button", { text: "Discard", interactive: true, hidden })
+      );
+    const before = stateOf(
+      dialog(["display-none"]),
+      el("form", {}, el("input", { attributes: { name: "email" } }))
+    );
+    const after = stateOf(
+      dialog(),
+      el(
+        "form",
+        {},
+        el("input", { attributes: { name: "email" } }),
+        el("div", { text: "Email is required" }, el("strong", { text: "!" }))
+      )
+    );
+
+    expect(formatStateDiff(diffStates(before, after))).toBe(
+      [
+        "2 added, 0 removed, 3 changed",
+        '+ <div> "Email is required !" (+1 inside)',
+        '~ <div role="dialog"> "Discard changes? Discard": ' +
+          "hidden (display-none) -> visible (+2 inside)",
+      ].join("\n")
+    );
+  });
+
+  test("never shows a password's value", () => {
+    const field = (value: string) =>
+      el("input", {
+        attributes: { type: "password", value },
+        interactive: true,
+        formState: { value, disabled: false, invalid: false },
+      });
+
+    const summary = formatStateDiff(
+      diffStates(stateOf(field("")), stateOf(field("hunter2")))
+    );
+
+    expect(summary).toBe(
+      [
+        "0 added, 0 removed, 1 changed",
+        '~ [0]<input type="password">: attribute value changed; value changed',
+      ].join("\n")
+    );
+  });
+
+  test("says so when nothing changed, and caps its length", () => {
+    const items = (count: number) =>
+      Array.from({ length: count }, (_, i) => el("p", { text: `Item ${i}` }));
+
+    expect(formatStateDiff(diffStates(stateOf(), stateOf()))).toBe(
+      "No changes."
+    );
+    expect(
+      formatStateDiff(diffStates(stateOf(), stateOf(...items(5))), {
+        maxLines: 2,
+      }).split("\n")
+    ).toEqual([
+      "5 added, 0 removed, 0 changed",
+      '+ <p> "Item 0"',
+      '+ <p> "Item 1"',
+      "... and 3 more",
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Browser, chromium } from "playwright";
+import { BrowserContext } from "../services/browserContext";
+import { parseMhtml } from "../services/mhtml";
+import { loadStaticPage } from "../services/staticPage";
+import { describeInBrowser } from "./setup";
+
+// Shaped like Chrome's "Save as MHTML" output: a quoted-printable page and
+// a base64 stylesheet, with a folded Content-Type header.
+const ARCHIVE = [
+  "From: <Saved by Blink>",
+  "Snapshot-Content-Location: https://shop.example/checkout",
+  "Subject: Checkout",
+  "MIME-Version: 1.0",
+  "Content-Type: multipart/related;",
+  '\ttype="text/html";',
+  '\tboundary="----MultipartBoundary--abc123----"',
+  "",
+  "",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/html",
+  "Content-ID: <frame-1@mhtml.blink>",
+  "Content-Transfer-Encoding: quoted-printable",
+  "Content-Location: https://shop.example/checkout",
+  "",
+  '<html><head><link rel=3D"stylesheet" href=3D"https://shop.example/a.css">=',
+  "</head><body><button>Place order</button><p>Caf=C3=A9</p></body></html>",
+  "------MultipartBoundary--abc123----",
+  "Content-Type: text/css",
+  "Content-Transfer-Encoding: base64",
+  "Content-Location: https://shop.example/a.css",
+  "",
+  Buffer.from("p { display: none; }").toString("base64"),
+  "",
+  "------MultipartBoundary--abc123------",
+  "",
+].join("\r\n");
+
+describe("parseMhtml", () => {
+  test("decodes each part and keeps where it was saved from", () => {
+    const archive = parseMhtml(Buffer.from(ARCHIVE, "latin1"));
+
+    expect(archive.snapshotLocation).toBe("https://shop.example/checkout");
+    expect(archive.parts).toHaveLength(2);
+
+    const [page, stylesheet] = archive.parts;
+    expect(page.contentType).toBe("text/html");
+    expect(page.contentId).toBe("frame-1@mhtml.blink");
+    expect(page.body.toString("utf8")).toBe(
+      '<html><head><link rel="stylesheet" href="https://shop.example/a.css">' +
+        "</head><body><button>Place order</button><p>Café</p></body></html>"
+    );
+    expect(stylesheet.contentLocation).toBe("https://shop.example/a.css");
+    expect(stylesheet.body.toString("utf8")).toBe("p { display: none; }");
+  });
+
+  test("rejects data that isn't a multipart archive", () => {
+    expect(() =>
+      parseMhtml(Buffer.from("<html><body></body></html>"))
+    ).toThrow("Not an MHTML archive");
+  });
+});
+
+// Loads pages into a real browser.
+describeInBrowser("loadStaticPage", () => {
+  let browser: Browser;
+  let directory: string;
+
+  const visibilityByTag = (state: { elementMap: Record<number, any> }) =>
+    Object.values(state.elementMap).map((node) => [
+      node.tagName,
+      node.isVisible,
+    ]);
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "static-page-"));
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("extracts from markup, refusing every request it makes", async () => {
+    const state = await loadStaticPage(
+      {
+        html: '<button>Save</button><img src="https://cdn.example/logo.png">',
+        baseUrl: "https://app.example/settings",
+      },
+      { browser }
+    );
+
+    expect(state.url).toBe("https://app.example/settings");
+    expect(Object.values(state.selectorMap).map((n) => n.tagName)).toEqual([
+      "button",
+    ]);
+  });
+
+  test("serves an MHTML archive's resources from the archive", async () => {
+    const file = path.join(directory, "checkout.mhtml");
+    fs.writeFileSync(file, ARCHIVE, "latin1");
+
+    const state = await BrowserContext.loadStaticPage({ file }, { browser });
+
+    expect(state.url).toBe("https://shop.example/checkout");
+    // Hidden by the archived stylesheet.
+    expect(visibilityByTag(state)).toContainEqual(["p", false]);
+  });
+
+  test("serves a saved page's files from its directory", async () => {
+    const saved = path.join(directory, "saved");
+    fs.mkdirSync(path.join(saved, "Checkout_files"), { recursive: true });
+    fs.writeFileSync(
+      path.join(saved, "Checkout.html"),
+      '<link rel="stylesheet" href="Checkout_files/a.css"><p>Total</p>'
+    );
+    fs.writeFileSync(
+      path.join(saved, "Checkout_files", "a.css"),
+      "p { display: none; }"
+    );
+
+    const state = await loadStaticPage(
+      { directory: saved },
+      { browser, viewport: { width: 375, height: 667 } }
+    );
+
+    expect(state.elementTree.viewportInfo?.width).toBe(375);
+    expect(visibilityByTag(state)).toContainEqual(["p", false]);
+  });
+});
@@ -6,15 +6,75 @@ export {
   type ElementVisibilityFilter,
   type RetryConfig,
   type ScreenshotDetail,
+  type OccludedElementHandling,
+  type ElementMatch,
+  type ElementsSelectionResult,
+  type ElementsSelectionOptions,
+  type AllElementsSelectionOptions,
+  type SelectionUsage,
 } from "./services/llmSelector";
-export { RateLimitError } from "./services/errors";
+export { RateLimitError, ExtractionError } from "./services/errors";
+export { validateExtractionPayload } from "./services/payloadValidation";
+export {
+  Redactor,
+  DEFAULT_REDACTION_CONFIG,
+  type RedactionConfig,
+  type RedactionDetector,
+} from "./services/redaction";
 export {
   BrowserContext,
   type BrowserState,
   type BrowserContextConfig,
   type ScrollCollectConfig,
+  type ScrollDirection,
+  type SerializedBrowserState,
+  browserStateToJSON,
+  browserStateFromJSON,
 } from "./services/browserContext";
-export { DomService } from "./services/domService";
+export {
+  DomService,
+  type DomServiceOptions,
+  type ExtractionBackend,
+} from "./services/domService";
+export {
+  extractFromSnapshot,
+  SNAPSHOT_COMPUTED_STYLES,
+  type DomSnapshot,
+  type DocumentSnapshot,
+  type SnapshotExtraction,
+  type SnapshotExtractionOptions,
+} from "./services/domSnapshot";
+export {
+  loadStaticPage,
+  DEFAULT_STATIC_PAGE_CONFIG,
+  type StaticPageSource,
+  type StaticPageConfig,
+} from "./services/staticPage";
+export {
+  diffStates,
+  formatStateDiff,
+  DEFAULT_STATE_DIFF_OPTIONS,
+  DEFAULT_STATE_DIFF_FORMAT_OPTIONS,
+  type DiffableState,
+  type StateDiff,
+  type StateDiffOptions,
+  type StateDiffFormatOptions,
+  type ElementChange,
+  type ElementChangeKind,
+  type AttributeChange,
+  type FormStateChange,
+} from "./services/stateDiff";
+export {
+  fingerprintElement,
+  fingerprintSimilarity,
+  type ElementFingerprint,
+  type FingerprintOptions,
+} from "./services/fingerprint";
+export {
+  parseMhtml,
+  type MhtmlArchive,
+  type MhtmlPart,
+} from "./services/mhtml";
 export {
   DOMElementNode,
   DOMTextNode,
@@ -25,35 +85,61 @@ export {
   type ViewportInfo,
   type CoordinateSet,
   type HashedDomElement,
+  type ScrollableInfo,
+  type VisibilityReason,
+  type VisibilityState,
+  type ScrollPosition,
+  type DOMStateChanges,
+  type ElementInclusionPolicy,
+  type ElementInclusionRule,
+  DEFAULT_ELEMENT_INCLUSION_POLICY,
+  type ExtractionBudget,
+  type ExtractionReport,
+  SERIALIZED_STATE_VERSION,
+  type SerializedDOMState,
+  type SerializedNode,
+  type DOMElementNodeData,
 } from "./types/dom";
+export {
+  EXTRACTION_PAYLOAD_VERSION,
+  type ExtractionPayload,
+  type FullExtractionPayload,
+  type IncrementalExtractionPayload,
+  type ExtractedNode,
+  type ExtractedElementNode,
+  type ExtractedTextNode,
+} from "./types/extraction";
 
 // Main class that combines all functionality
 import {
   BrowserContext,
+  BrowserContextConfig,
   BrowserState,
   ScrollCollectConfig,
 } from "./services/browserContext";
 import {
   LLMSelector,
+  LLMSelectorConfig,
   ElementSelectionResult,
   ElementVisibilityFilter,
+  ElementsSelectionResult,
+  ElementsSelectionOptions,
+  AllElementsSelectionOptions,
 } from "./services/llmSelector";
+import { StateDiff, diffStates } from "./services/stateDiff";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { Page } from "playwright";
 import { DOMElementNode, ElementMap } from "./types/dom";
 
 export interface LLMDOMSelectorConfig {
-  browserContext?: Partial<{
-    highlightElements: boolean;
-    viewportExpansion: number;
-    includeDynamicAttributes: boolean;
-    headless: boolean;
-  }>;
-  llmSelector?: Partial<{
-    includeAttributes: string[];
-    useVision: boolean;
-    maxRetries: number;
-  }>;
+  browserContext?: Partial<BrowserContextConfig>;
+  llmSelector?: Partial<LLMSelectorConfig>;
+}
+
+/** A selection, and what acting on it changed on the page. */
+export interface ElementActionResult extends ElementSelectionResult {
+  /** Null when nothing was selected, so nothing was done. */
+  diff: StateDiff | null;
 }
 
 export class LLMDOMSelector {
@@ -141,6 +227,35 @@ export class LLMDOMSelector {
     );
   }
 
+  /**
+   * Select every interactive element matching a description, e.g. "all
+   * product cards". See {@link LLMSelector.selectElements} for the count
+   * bounds.
+   */
+  async selectElements(
+    prompt: string,
+    options?: Partial<ElementsSelectionOptions>
+  ): Promise<ElementsSelectionResult> {
+    const browserState = await this.browserContext.getState();
+    return await this.llmSelector.selectElements(prompt, browserState, options);
+  }
+
+  /**
+   * Select every element (interactive or not) matching a description, e.g.
+   * "all rows with status Failed".
+   */
+  async selectAllMatching(
+    prompt: string,
+    options?: Partial<AllElementsSelectionOptions>
+  ): Promise<ElementsSelectionResult> {
+    const browserState = await this.browserContext.getState();
+    return await this.llmSelector.selectAllMatching(
+      prompt,
+      browserState,
+      options
+    );
+  }
+
   /**
    * Get a specific element by its index
    */
@@ -221,6 +336,31 @@ export class LLMDOMSelector {
     return result;
   }
 
+  /**
+   * Select and click an element using LLM, then report what the click
+   * changed — a dialog opening, a row disappearing, validation text
+   * appearing. Render the diff for a model with `formatStateDiff`.
+   */
+  async selectAndClickWithDiff(prompt: string): Promise<ElementActionResult> {
+    const { result, diff } = await this.trackChanges(() =>
+      this.selectAndClick(prompt)
+    );
+    return { ...result, diff: result.selectedElement ? diff : null };
+  }
+
+  /**
+   * Run an action against the page and diff the state before it (the
+   * current one, extracted if there is none yet) with a fresh one after.
+   */
+  async trackChanges<T>(
+    action: () => Promise<T>
+  ): Promise<{ result: T; diff: StateDiff }> {
+    const before = await this.browserContext.getState();
+    const result = await action();
+    const after = await this.browserContext.updateState();
+    return { result, diff: diffStates(before, after) };
+  }
+
   /**
    * Select and input text to an element using LLM
    */
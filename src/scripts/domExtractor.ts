@@ -1,22 +1,156 @@
 // DOM extraction script - based on jsScript.ts from original project
-export function buildDomTreeOverlay(args: {
-  doHighlightElements: boolean;
-  focusHighlightIndex: number;
+import type {
+  ElementInclusionPolicy,
+  ExtractionBudget,
+  ExtractionReport,
+} from "../types/dom";
+import type {
+  ExtractedElementNode,
+  ExtractedNode,
+  ExtractionPayload,
+} from "../types/extraction";
+import { createExtractionRules } from "./extractionRules";
+
+/**
+ * The source that runs {@link buildDomTreeOverlay} with `args` when
+ * evaluated in a page or frame, handing it the shared extraction rules it
+ * can't import there.
+ */
+export function domTreeOverlayScript(args: DomTreeOverlayArgs): string {
+  return `(${buildDomTreeOverlay})(${JSON.stringify(
+    args
+  )}, ${createExtractionRules})`;
+}
+
+export interface DomTreeOverlayArgs {
   viewportExpansion: number;
   debugMode: boolean;
-}): any {
+  /**
+   * Where this frame's index counters start. DomService extracts each frame
+   * separately, continuing from wherever the previous frame's counters
+   * stopped, so indices stay unique across the whole stitched tree.
+   */
+  highlightIndexOffset?: number;
+  elementIndexOffset?: number;
+  /**
+   * Leave a MutationObserver running on the page after this extraction,
+   * recording which elements change before the next one.
+   */
+  trackMutations?: boolean;
+  /**
+   * Re-extract only the subtrees the observer saw change since the last
+   * extraction (mode "incremental"), when it can. Falls back to a full walk
+   * (mode "full") when there is no observer yet, the page scrolled or was
+   * resized (which changes visibility without any mutation), or the body
+   * itself changed.
+   */
+  incremental?: boolean;
+  /** Which elements go into the element map. */
+  inclusionPolicy: ElementInclusionPolicy;
+  /** Limits on this frame's walk (already net of what other frames used). */
+  budget?: ExtractionBudget;
+}
+
+export function buildDomTreeOverlay(
+  args: DomTreeOverlayArgs,
+  // Passed in rather than imported: see createExtractionRules.
+  createRules: typeof createExtractionRules
+): ExtractionPayload {
   const {
-    doHighlightElements = true,
-    focusHighlightIndex = -1,
     viewportExpansion = 0,
     debugMode = false,
+    highlightIndexOffset = 0,
+    elementIndexOffset = 0,
+    trackMutations = false,
+    incremental = false,
+    inclusionPolicy,
+    budget = {},
   } = args;
 
-  // Remove existing highlights
-  const existingContainer = document.getElementById(
-    "playwright-highlight-container"
-  );
-  if (existingContainer) {
+  const HIGHLIGHT_CONTAINER_ID = "playwright-highlight-container";
+
+  // Persists between calls on the page's window, owned by this script.
+  const tracker: {
+    observer: MutationObserver;
+    dirty: Set<Element>;
+    requiresFull: boolean;
+  } | null = (window as any).__llmDomSelectorMutations || null;
+
+  // Decided up front: an incremental pass leaves the page's highlight
+  // overlay alone, since only its changed subtrees are walked.
+  const incrementalRoots = incremental ? getIncrementalRoots() : null;
+
+  // Minimal set of changed subtrees to re-extract, or null when a full walk
+  // is needed instead.
+  function getIncrementalRoots(): Element[] | null {
+    if (!tracker || tracker.requiresFull) return null;
+    recordMutations(tracker.observer.takeRecords(), tracker);
+    if (tracker.requiresFull) return null;
+
+    const dirty = Array.from(tracker.dirty).filter(
+      (element) => element.isConnected
+    );
+    const roots = dirty.filter(
+      (element) =>
+        !dirty.some(
+          (other) => other !== element && isRenderedWithin(other, element)
+        )
+    );
+    if (
+      roots.some(
+        (root) =>
+          root === document.body ||
+          root === document.documentElement ||
+          !document.body ||
+          !isRenderedWithin(document.body, root)
+      )
+    ) {
+      return null;
+    }
+    return roots;
+  }
+
+  // Takes the tracker explicitly: the observer's callback is this function
+  // as defined by the run that installed it, when `tracker` was still null.
+  function recordMutations(
+    records: MutationRecord[],
+    tracker: { dirty: Set<Element> }
+  ): void {
+    for (const record of records) {
+      const changedNodes = [
+        ...Array.from(record.addedNodes),
+        ...Array.from(record.removedNodes),
+      ];
+      // Our own highlight overlay coming and going is not a page change.
+      if (
+        changedNodes.length > 0 &&
+        changedNodes.every(
+          (node) => (node as Element).id === HIGHLIGHT_CONTAINER_ID
+        )
+      ) {
+        continue;
+      }
+
+      let target: Node | null = record.target;
+      if (target instanceof ShadowRoot) target = target.host;
+      else if (target.nodeType !== Node.ELEMENT_NODE) {
+        target =
+          target.parentNode instanceof ShadowRoot
+            ? target.parentNode.host
+            : target.parentElement;
+      }
+      if (!target) continue;
+      if ((target as Element).closest?.(`#${HIGHLIGHT_CONTAINER_ID}`)) {
+        continue;
+      }
+      tracker.dirty.add(target as Element);
+    }
+  }
+
+  // Remove existing highlights; DomService draws them afresh once it has
+  // the final indices (see drawHighlightOverlay).
+  const existingContainer = document.getElementById(HIGHLIGHT_CONTAINER_ID);
+  if (existingContainer && !incrementalRoots) {
     existingContainer.remove();
   }
 
@@ -24,218 +158,294 @@ export function buildDomTreeOverlay(args: {
   const viewport = {
     width: window.innerWidth,
     height: window.innerHeight,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    devicePixelRatio: window.devicePixelRatio || 1,
   };
 
-  // Create highlight container
-  let highlightContainer: HTMLElement | null = null;
-  if (doHighlightElements) {
-    highlightContainer = document.createElement("div");
-    highlightContainer.id = "playwright-highlight-container";
-    highlightContainer.style.cssText = `
-      position: fixed;
-      top: 0;
-      left: 0;
-      width: 100%;
-      height: 100%;
-      pointer-events: none;
-      z-index: 2147483647;
-    `;
-    document.body.appendChild(highlightContainer);
-  }
-
   // Node map and counters
-  const nodeMap: Record<string, any> = {};
+  const nodeMap: Record<string, ExtractedNode> = {};
   let nodeIdCounter = 0;
-  let highlightIndex = 0; // For interactive elements only
-  let elementIndex = 0; // For ALL elements
-
-  // Helper function to generate XPath
-  function getXPath(element: Element): string {
-    if (element.id) {
-      return `//*[@id="${element.id}"]`;
-    }
-    if (element === document.body) {
-      return "/html/body";
-    }
-
-    const path: string[] = [];
-    let current: Element | null = element;
-    // Set when the climb stops early at an id-bearing ancestor (anything
-    // other than <html>/<body>) rather than reaching the true document root.
-    let anchoredAtAncestorId = false;
-
-    while (current && current.nodeType === Node.ELEMENT_NODE) {
-      let selector = current.nodeName.toLowerCase();
-      if (current.id) {
-        selector += `[@id="${current.id}"]`;
-        path.unshift(selector);
-        anchoredAtAncestorId = true;
-        break;
-      } else {
-        let sibling = current.previousElementSibling;
-        let index = 1;
-        while (sibling) {
-          if (sibling.nodeName === current.nodeName) {
-            index++;
-          }
-          sibling = sibling.previousElementSibling;
-        }
-        if (index > 1) {
-          selector += `[${index}]`;
-        }
-      }
-      path.unshift(selector);
-      current = current.parentElement;
-    }
-
-    // A single leading slash is a document-root-anchored absolute path, valid
-    // only when the climb reached <html>. When it stopped early at an
-    // ancestor's id instead, that ancestor is virtually never a direct child
-    // of the Document node (e.g. a framework's `#__nuxt`/`#app`/`#root` mount
-    // div sits under <body>), so the path needs the "search anywhere" `//`
-    // prefix — otherwise it silently matches zero elements.
-    return (anchoredAtAncestorId ? "//" : "/") + path.join("/");
+  let highlightIndex = highlightIndexOffset; // For interactive elements only
+  let elementIndex = elementIndexOffset; // For ALL elements
+
+  const startedAt = performance.now();
+  const deadline =
+    budget.timeLimitMs !== undefined ? startedAt + budget.timeLimitMs : null;
+  const report: ExtractionReport = {
+    truncated: false,
+    elementsExtracted: 0,
+    elementsOnPage: document.getElementsByTagName("*").length,
+    skippedForNodeLimit: 0,
+    skippedForDepth: 0,
+    skippedForTime: 0,
+    skippedOffscreen: 0,
+    truncatedTexts: 0,
+    elapsedMs: 0,
+  };
+  // When the whole page can't fit in the node budget anyway, spend it on
+  // what's on screen: subtrees lying entirely outside the (expanded)
+  // viewport aren't walked at all.
+  const skipOffscreen =
+    budget.maxNodes !== undefined && report.elementsOnPage > budget.maxNodes;
+
+  // Text cut to maxTextLength, counting each cut in the report.
+  function truncateText(text: string): string {
+    if (budget.maxTextLength === undefined) return text;
+    if (text.length <= budget.maxTextLength) return text;
+    report.truncatedTexts++;
+    return `${text.substring(0, budget.maxTextLength)}…`;
   }
 
-  // Helper function to check if element is visible
-  function isElementVisible(element: Element): boolean {
-    const style = window.getComputedStyle(element);
-    if (style.display === "none" || style.visibility === "hidden") {
-      return false;
-    }
-
-    const rect = element.getBoundingClientRect();
+  function isOffscreen(rect: DOMRect): boolean {
     return (
       rect.width > 0 &&
       rect.height > 0 &&
-      rect.top < viewport.height + viewportExpansion &&
-      rect.bottom > -viewportExpansion &&
-      rect.left < viewport.width + viewportExpansion &&
-      rect.right > -viewportExpansion
+      (rect.bottom < -viewportExpansion ||
+        rect.top > viewport.height + viewportExpansion ||
+        rect.right < -viewportExpansion ||
+        rect.left > viewport.width + viewportExpansion)
     );
   }
 
-  // Helper function to check if element is interactive
-  function isElementInteractive(element: Element): boolean {
-    const tagName = element.tagName.toLowerCase();
-    const interactiveTags = [
-      "a",
-      "button",
-      "input",
-      "select",
-      "textarea",
-      "option",
-      "optgroup",
-      "fieldset",
-      "legend",
-      "details",
-      "summary",
-    ];
-
-    if (interactiveTags.includes(tagName)) {
-      return true;
+  type BudgetSkip =
+    | "skippedForNodeLimit"
+    | "skippedForDepth"
+    | "skippedForTime"
+    | "skippedOffscreen";
+
+  // Why this element's children must be left out, if they must. Counted
+  // once per skipped subtree, not per element in it.
+  function budgetCut(rect: DOMRect, depth: number): BudgetSkip | null {
+    if (budget.maxDepth !== undefined && depth >= budget.maxDepth) {
+      return "skippedForDepth";
     }
+    if (skipOffscreen && isOffscreen(rect)) return "skippedOffscreen";
+    return null;
+  }
 
-    // Check for clickable attributes
-    const clickableAttributes = [
-      "onclick",
-      "onmousedown",
-      "onmouseup",
-      "onmousemove",
-      "onmouseover",
-      "onmouseout",
-    ];
+  // Every element with an open shadow root, and each of its ancestors:
+  // what a selector can't see into might hold controls.
+  let shadowHostAncestry: Set<Element> | null = null;
+  function getShadowHostAncestry(): Set<Element> {
+    if (shadowHostAncestry) return shadowHostAncestry;
+    const ancestry = new Set<Element>();
+    const visitIn = (root: Document | ShadowRoot) => {
+      root.querySelectorAll("*").forEach((element) => {
+        if (!element.shadowRoot) return;
+        for (
+          let current: Element | null = element;
+          current && !ancestry.has(current);
+          current =
+            current.parentElement ??
+            (current.parentNode instanceof ShadowRoot
+              ? current.parentNode.host
+              : null)
+        ) {
+          ancestry.add(current);
+        }
+        visitIn(element.shadowRoot);
+      });
+    };
+    visitIn(document);
+    shadowHostAncestry = ancestry;
+    return ancestry;
+  }
+
+  function mayContainControl(element: Element): boolean {
+    return (
+      element.matches(rules.controlSelector) ||
+      element.querySelector(rules.controlSelector) !== null ||
+      getShadowHostAncestry().has(element)
+    );
+  }
 
-    for (const attr of clickableAttributes) {
-      if (element.hasAttribute(attr)) {
-        return true;
+  // Whether the walk must leave this element out rather than visit it.
+  // With the page over its node budget, the last quarter of the budget
+  // goes to subtrees that may hold a control.
+  function budgetExhausted(element: Element): BudgetSkip | null {
+    if (budget.maxNodes !== undefined) {
+      if (report.elementsExtracted >= budget.maxNodes) {
+        return "skippedForNodeLimit";
       }
+      if (
+        skipOffscreen &&
+        report.elementsExtracted >= budget.maxNodes * 0.75 &&
+        !mayContainControl(element)
+      ) {
+        return "skippedForNodeLimit";
+      }
+    }
+    if (deadline !== null && performance.now() > deadline) {
+      return "skippedForTime";
     }
+    return null;
+  }
 
-    // Check for role attribute
-    const role = element.getAttribute("role");
-    if (
-      role &&
-      ["button", "link", "menuitem", "tab", "option"].includes(role)
-    ) {
-      return true;
+  function depthOf(element: Element): number {
+    let depth = 0;
+    let current: Node | null = element;
+    const top = document.body || document.documentElement;
+    while (current && current !== top) {
+      current =
+        current instanceof ShadowRoot ? current.host : current.parentNode;
+      depth++;
     }
+    return depth;
+  }
 
-    // Check for tabindex
-    const tabIndex = element.getAttribute("tabindex");
-    if (tabIndex && tabIndex !== "-1") {
-      return true;
+  // Computed styles, looked up once per element per extraction.
+  const computedStyles = new Map<Element, CSSStyleDeclaration>();
+  function styleOf(element: Element): CSSStyleDeclaration {
+    let style = computedStyles.get(element);
+    if (!style) {
+      style = window.getComputedStyle(element);
+      computedStyles.set(element, style);
     }
+    return style;
+  }
 
-    return false;
+  function contentOf(nodes: NodeListOf<ChildNode>): Array<Element | string> {
+    const content: Array<Element | string> = [];
+    nodes.forEach((node) => {
+      if (node.nodeType === Node.ELEMENT_NODE) content.push(node as Element);
+      else if (node.nodeType === Node.TEXT_NODE) {
+        content.push(node.textContent || "");
+      }
+    });
+    return content;
   }
 
-  // Helper function to check if element should be included in elementMap
-  // This includes both interactive elements AND content elements (with text or specific tags)
-  function shouldIncludeInElementMap(element: Element): boolean {
-    const tagName = element.tagName.toLowerCase();
-
-    // Content tags that should always be included
-    const contentTags = [
-      "p",
-      "h1",
-      "h2",
-      "h3",
-      "h4",
-      "h5",
-      "h6",
-      "pre",
-      "blockquote",
-      "abbr",
-      "cite",
-      "code",
-      "strong",
-      "em",
-      "small",
-      "mark",
-      "ul",
-      "ol",
-      "li",
-      "dl",
-      "dt",
-      "dd",
-      "table",
-      "thead",
-      "tbody",
-      "tfoot",
-      "tr",
-      "td",
-      "th",
-      "caption",
-      "col",
-      "colgroup",
-      "img",
-      "picture",
-      "figure",
-      "figcaption",
-      "audio",
-      "video",
-      "source",
-      "track",
-    ];
+  const rules = createRules<Element>(
+    {
+      tagName: (element) => element.tagName.toLowerCase(),
+      nodeName: (element) => element.nodeName,
+      getAttribute: (element, name) => element.getAttribute(name),
+      parentElement: (element) => element.parentElement,
+      composedParent: (element) => {
+        const parentNode = element.parentNode;
+        return (
+          element.parentElement ??
+          (parentNode instanceof ShadowRoot ? parentNode.host : null)
+        );
+      },
+      shadowHost: (element) => {
+        const root = element.getRootNode();
+        return root instanceof ShadowRoot ? root.host : null;
+      },
+      siblings: (element) =>
+        element.parentNode
+          ? Array.from((element.parentNode as ParentNode).children)
+          : [element],
+      childNodes: (element) => contentOf(element.childNodes),
+      shadowChildNodes: (element) =>
+        element.shadowRoot ? contentOf(element.shadowRoot.childNodes) : null,
+      textContent: (element) => element.textContent || "",
+      forEachElement: (visit) => {
+        const visitIn = (root: Document | ShadowRoot) => {
+          root.querySelectorAll("*").forEach((element) => {
+            visit(element);
+            if (element.shadowRoot) visitIn(element.shadowRoot);
+          });
+        };
+        visitIn(document);
+      },
+      getElementById: (element, id) =>
+        (element.getRootNode() as Document | ShadowRoot).getElementById(id),
+      labels: (element) =>
+        Array.from((element as HTMLInputElement).labels || []),
+      controlValue: (element) => (element as HTMLInputElement).value || "",
+      isChecked: (element) => (element as HTMLInputElement).checked === true,
+      isIndeterminate: (element) =>
+        (element as HTMLInputElement).indeterminate === true,
+      selectOptions: (element) =>
+        Array.from((element as HTMLSelectElement).options || []),
+      isSelected: (option) => (option as HTMLOptionElement).selected === true,
+      isDisabled: (element) => element.matches(":disabled"),
+      // Read validity rather than calling checkValidity(), which would fire
+      // `invalid` events at the page.
+      validity: (element) => {
+        const control = element as HTMLInputElement;
+        return {
+          valid: !control.willValidate || control.validity.valid,
+          message: control.validationMessage || "",
+        };
+      },
+      scrollMetrics: (element) => ({
+        scrollTop: element.scrollTop,
+        scrollLeft: element.scrollLeft,
+        scrollHeight: element.scrollHeight,
+        scrollWidth: element.scrollWidth,
+        clientHeight: element.clientHeight,
+        clientWidth: element.clientWidth,
+      }),
+      isContentEditable: (element) =>
+        (element as HTMLElement).isContentEditable === true,
+      style: (element, property) => styleOf(element).getPropertyValue(property),
+      isDisplayNone: (element) => styleOf(element).display === "none",
+      isRoot: (element) =>
+        element === document.documentElement || element === document.body,
+      getBoundingRect: (element) => element.getBoundingClientRect(),
+      generatedText: (element, pseudo): string => {
+        const style = window.getComputedStyle(element, `::${pseudo}`);
+        if (style.display === "none") return "";
+        return rules.getContentText(
+          element,
+          style.content,
+          style.textTransform
+        );
+      },
+      elementFromPoint: (element, x, y) =>
+        (element.getRootNode() as Document | ShadowRoot).elementFromPoint(x, y),
+      isRenderedWithin,
+    },
+    { viewport, viewportExpansion, inclusionPolicy }
+  );
 
-    // Include if it's a content tag
-    if (contentTags.includes(tagName)) {
-      return true;
+  // Handler props frameworks leave on elements they attached listeners to
+  const frameworkHandlerProps = [
+    "onClick",
+    "onMouseDown",
+    "onMouseUp",
+    "onPointerDown",
+    "onPointerUp",
+    "onTouchStart",
+  ];
+
+  // Why the element looks interactive beyond what its markup and style
+  // say (see getInteractiveReasons in the rules): the listeners DomService
+  // probed over CDP, and the handler props React/Vue leave on their
+  // elements, for apps that attach listeners from script.
+  function getScriptReasons(element: Element): string[] {
+    const reasons: string[] = [];
+    const listenerTypes: string[] =
+      (element as any).__llmDomSelectorListeners || [];
+    for (const type of listenerTypes) {
+      reasons.push(`listener:${type}`);
     }
 
-    // Include if element has visible text content
-    const textContent = element.textContent?.trim();
-    if (textContent && textContent.length > 0) {
-      return true;
+    for (const key of Object.keys(element)) {
+      // React 17+ keeps the current props of a host element here; with
+      // event delegation, listeners never show up on the element itself.
+      if (key.startsWith("__reactProps$")) {
+        const props = (element as any)[key] || {};
+        for (const prop of frameworkHandlerProps) {
+          if (typeof props[prop] === "function") {
+            reasons.push(`react:${prop}`);
+          }
+        }
+      }
     }
 
-    // Include if it's an interactive element
-    if (isElementInteractive(element)) {
-      return true;
+    // Vue 3 keeps its event invokers on the element as `_vei`.
+    const vueInvokers = (element as any)._vei;
+    if (vueInvokers && typeof vueInvokers === "object") {
+      for (const prop of frameworkHandlerProps) {
+        if (vueInvokers[prop]) reasons.push(`vue:${prop}`);
+      }
     }
 
-    return false;
+    return reasons;
   }
 
   // Helper function to get element attributes
@@ -248,69 +458,59 @@ export function buildDomTreeOverlay(args: {
     return attributes;
   }
 
-  // Helper function to get element text content
-  function getElementText(element: Element): string {
-    return element.textContent?.trim() || "";
+  // Whether `hit` is `element` itself or rendered inside it, including
+  // through its shadow tree.
+  function isRenderedWithin(element: Element, hit: Element): boolean {
+    let current: Node | null = hit;
+    while (current) {
+      if (current === element) return true;
+      current =
+        current instanceof ShadowRoot ? current.host : current.parentNode;
+    }
+    return false;
   }
 
-  // Helper function to create highlight element
-  function createHighlightElement(
-    element: Element,
-    index: number,
-    isFocused: boolean = false
-  ): HTMLElement | null {
-    if (!highlightContainer) return null;
-
-    const rect = element.getBoundingClientRect();
-    const highlight = document.createElement("div");
-    highlight.className = "playwright-highlight";
-    highlight.style.cssText = `
-      position: absolute;
-      left: ${rect.left}px;
-      top: ${rect.top}px;
-      width: ${rect.width}px;
-      height: ${rect.height}px;
-      border: 2px solid ${isFocused ? "#ff0000" : "#00ff00"};
-      background-color: ${
-        isFocused ? "rgba(255, 0, 0, 0.1)" : "rgba(0, 255, 0, 0.1)"
-      };
-      pointer-events: none;
-      z-index: 2147483646;
-      box-sizing: border-box;
-    `;
-
-    // Add index label
-    const label = document.createElement("div");
-    label.textContent = index.toString();
-    label.style.cssText = `
-      position: absolute;
-      top: -20px;
-      left: 0;
-      background-color: ${isFocused ? "#ff0000" : "#00ff00"};
-      color: white;
-      padding: 2px 6px;
-      font-size: 12px;
-      font-weight: bold;
-      border-radius: 3px;
-      white-space: nowrap;
-    `;
-    highlight.appendChild(label);
-    highlightContainer.appendChild(highlight);
-
-    return highlight;
+  // Border + padding between an element's border box and its content box
+  function getContentOffset(element: Element): { x: number; y: number } {
+    const style = window.getComputedStyle(element);
+    return {
+      x: element.clientLeft + (parseFloat(style.paddingLeft) || 0),
+      y: element.clientTop + (parseFloat(style.paddingTop) || 0),
+    };
   }
 
   // Main traversal function
   function traverseElement(
     element: Element,
-    parentId: string | null = null
+    parentId: string | null = null,
+    inShadowRoot: boolean = false,
+    depth: number = 0
   ): string {
     const nodeId = `node_${nodeIdCounter++}`;
-    const isVisible = isElementVisible(element);
-    const isInteractive = isElementInteractive(element);
-    const xpath = getXPath(element);
+    report.elementsExtracted++;
+    const rect = element.getBoundingClientRect();
+    const visibilityReasons = rules.getVisibilityReasons(element, rect);
+    const isVisible = rules.isLaidOut(visibilityReasons);
+    const interactiveReasons = [
+      ...rules.getInteractiveReasons(element),
+      ...getScriptReasons(element),
+    ];
+    const isInteractive = interactiveReasons.length > 0;
+    const { xpath, absoluteXPath, semanticXPath } = rules.getXPaths(element);
     const attributes = getElementAttributes(element);
-    const text = getElementText(element);
+    const textTransform = styleOf(element).textTransform;
+    const beforeText = rules.getGeneratedText(element, "before");
+    const afterText = rules.getGeneratedText(element, "after");
+    const text = truncateText(
+      rules.getElementText(element, beforeText, afterText)
+    );
+
+    // Only candidates the model can pick are worth the hit-testing cost;
+    // everything else is assumed to be on top.
+    const occlusion =
+      isVisible && isInteractive
+        ? rules.getOcclusion(element, rect)
+        : { isTopElement: true, occludedBy: null };
 
     // Determine if this element should get a highlight index (interactive only)
     let currentHighlightIndex: number | null = null;
@@ -321,63 +521,146 @@ export function buildDomTreeOverlay(args: {
     // Assign elementIndex to elements that should be in elementMap
     // This includes interactive elements, content tags, and elements with text
     let currentElementIndex: number | null = null;
-    if (shouldIncludeInElementMap(element)) {
+    if (rules.shouldIncludeInElementMap(element, isInteractive)) {
       currentElementIndex = elementIndex++;
     }
 
-    // Create highlight element if needed
-    if (doHighlightElements && currentHighlightIndex !== null) {
-      const isFocused = currentHighlightIndex === focusHighlightIndex;
-      createHighlightElement(element, currentHighlightIndex, isFocused);
-    }
+    // Accessible name/role only matter for elements that end up in a map —
+    // computing them for every wrapper would be wasted work.
+    const isListed =
+      currentHighlightIndex !== null || currentElementIndex !== null;
+    const role = isListed ? rules.getRole(element) : null;
+    const accessibleName = isListed
+      ? rules.getAccessibleName(element, role)
+      : "";
+    const formState = rules.getFormState(element);
+    const scrollable = rules.getScrollableInfo(element);
+    const accessibleDescription = isListed
+      ? rules.getAccessibleDescription(element, accessibleName)
+      : "";
 
     // Get children (including text nodes)
     const children: string[] = [];
 
-    // Process child nodes (both elements and text)
+    // Only open shadow roots are reachable from page script; a closed one
+    // reads as null here, exactly as it does to any other script on the page.
+    const shadowRoot = element.shadowRoot;
+    if (shadowRoot) visitedShadowRoots.push(shadowRoot);
+
+    // A web component's rendered content lives in its shadow tree, not in
+    // childNodes. Walk it first, then the light-DOM children (which are only
+    // rendered where the shadow tree slots them in).
+    const childNodes: Array<{ node: Node; inShadowRoot: boolean }> = [];
+    if (shadowRoot) {
+      for (let i = 0; i < shadowRoot.childNodes.length; i++) {
+        childNodes.push({
+          node: shadowRoot.childNodes[i],
+          inShadowRoot: true,
+        });
+      }
+    }
     for (let i = 0; i < element.childNodes.length; i++) {
-      const childNode = element.childNodes[i];
+      childNodes.push({ node: element.childNodes[i], inShadowRoot });
+    }
+
+    const addTextNode = (text: string) => {
+      const textNodeId = `text_${nodeIdCounter++}`;
+      nodeMap[textNodeId] = {
+        type: "TEXT_NODE",
+        text: truncateText(text),
+        isVisible: isVisible, // Text visibility follows parent element
+      };
+      children.push(textNodeId);
+    };
+
+    // Generated content renders as if it were the first and last child.
+    if (beforeText) addTextNode(beforeText);
+
+    const cut = budgetCut(rect, depth);
+    if (cut) {
+      report[cut]++;
+      childNodes.length = 0;
+    }
+
+    // Process child nodes (both elements and text)
+    for (const child of childNodes) {
+      const childNode = child.node;
 
       if (childNode.nodeType === Node.TEXT_NODE) {
         // Create text node
         const textContent = childNode.textContent?.trim();
         if (textContent) {
-          const textNodeId = `text_${nodeIdCounter++}`;
-          nodeMap[textNodeId] = {
-            type: "TEXT_NODE",
-            text: textContent,
-            isVisible: isVisible, // Text visibility follows parent element
-          };
-          children.push(textNodeId);
+          addTextNode(rules.applyTextTransform(textContent, textTransform));
         }
       } else if (childNode.nodeType === Node.ELEMENT_NODE) {
-        // The highlight overlay was just injected into the page (above, for
-        // visual debugging) by this very same scan — it must never be walked
-        // as page content, or its own numbered highlight boxes end up in the
-        // element pool shown to the LLM as if they were real candidates.
-        if (childNode === highlightContainer) continue;
+        const exhausted = budgetExhausted(childNode as Element);
+        if (exhausted) {
+          report[exhausted]++;
+          continue;
+        }
 
         // Process element child
-        const childId = traverseElement(childNode as Element, nodeId);
+        const childId = traverseElement(
+          childNode as Element,
+          nodeId,
+          child.inShadowRoot,
+          depth + 1
+        );
         children.push(childId);
       }
     }
 
+    if (afterText) addTextNode(afterText);
+
     // Create node data
-    const nodeData: any = {
+    const nodeData: ExtractedElementNode = {
       type: "ELEMENT_NODE",
       tagName: element.tagName.toLowerCase(),
       xpath,
+      absoluteXPath,
+      semanticXPath,
       attributes,
       text,
       isVisible,
+      visibility: {
+        visible: visibilityReasons.every((reason) => reason === "aria-hidden"),
+        reasons: visibilityReasons,
+      },
       isInteractive,
-      isTopElement: parentId === null,
+      interactiveReasons,
+      isTopElement: occlusion.isTopElement,
+      occludedBy: occlusion.occludedBy,
+      role,
+      accessibleName,
+      accessibleDescription,
+      formState,
+      scrollable,
       isInViewport: isVisible,
-      shadowRoot: false,
+      shadowRoot: shadowRoot !== null,
+      inShadowRoot,
       highlightIndex: currentHighlightIndex, // For interactive elements only
       elementIndex: currentElementIndex, // For ALL elements
       viewport: viewport,
+      viewportCoordinates: {
+        x: rect.left,
+        y: rect.top,
+        width: rect.width,
+        height: rect.height,
+      },
+      pageCoordinates: {
+        x: rect.left + viewport.scrollX,
+        y: rect.top + viewport.scrollY,
+        width: rect.width,
+        height: rect.height,
+      },
+      // Set on the owning <iframe>/<frame> by DomService before this runs,
+      // so it can graft the child frame's own extraction under this node.
+      frameId: (element as any).__llmDomSelectorFrameId ?? null,
+      // Where the frame's own viewport starts inside this element's border
+      // box, for translating the child frame's coordinates into this one's.
+      frameContentOffset: (element as any).__llmDomSelectorFrameId
+        ? getContentOffset(element)
+        : null,
       children,
     };
 
@@ -386,12 +669,178 @@ export function buildDomTreeOverlay(args: {
     return nodeId;
   }
 
-  // Start traversal from body
-  const rootId = traverseElement(document.body);
+  // A MutationObserver never crosses into a shadow tree, so each one walked
+  // is observed on its own.
+  const visitedShadowRoots: ShadowRoot[] = [];
+
+  function installMutationTracking(): void {
+    let current = tracker;
+    if (!current) {
+      const dirty = new Set<Element>();
+      current = {
+        dirty,
+        requiresFull: false,
+        observer: new MutationObserver((records) =>
+          recordMutations(records, { dirty })
+        ),
+      };
+      (window as any).__llmDomSelectorMutations = current;
+      // Scrolling (of the page or any container) and resizing change what
+      // is visible without mutating anything.
+      const invalidate = () => {
+        current!.requiresFull = true;
+      };
+      window.addEventListener("resize", invalidate);
+      document.addEventListener("scroll", invalidate, true);
+      // Typing and toggling change a control's live state without touching
+      // its attributes, so the observer never hears of them.
+      const markControlDirty = (event: Event) => {
+        const target = event.composedPath()[0];
+        if (!(target instanceof Element)) return;
+        dirty.add(target);
+        // Checking a radio silently unchecks the rest of its group.
+        if (target instanceof HTMLInputElement && target.type === "radio") {
+          const group = (target.getRootNode() as ParentNode).querySelectorAll(
+            `input[type="radio"][name="${CSS.escape(target.name)}"]`
+          );
+          group.forEach((radio) => dirty.add(radio));
+        }
+      };
+      document.addEventListener("input", markControlDirty, true);
+      document.addEventListener("change", markControlDirty, true);
+    }
+
+    const options: MutationObserverInit = {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    };
+    current.observer.takeRecords();
+    current.observer.observe(document, options);
+    for (const root of visitedShadowRoots) {
+      current.observer.observe(root, options);
+    }
+    current.dirty.clear();
+    current.requiresFull = false;
+  }
+
+  let result:
+    | { mode: "incremental"; rootIds: string[]; rootXPaths: string[] }
+    | { mode: "full"; rootId: string };
+  if (incrementalRoots) {
+    const rootIds = incrementalRoots.map((root) =>
+      traverseElement(
+        root,
+        null,
+        root.getRootNode() instanceof ShadowRoot,
+        depthOf(root)
+      )
+    );
+    result = {
+      mode: "incremental",
+      rootIds,
+      rootXPaths: incrementalRoots.map((root) => rules.getXPaths(root).xpath),
+    };
+  } else {
+    // Start traversal from body (a frameset document has none)
+    result = {
+      mode: "full",
+      rootId: traverseElement(document.body || document.documentElement),
+    };
+  }
+
+  if (trackMutations) installMutationTracking();
+
+  report.elapsedMs = performance.now() - startedAt;
+  report.truncated =
+    report.skippedForNodeLimit +
+      report.skippedForDepth +
+      report.skippedForTime +
+      report.skippedOffscreen >
+    0;
 
   return {
-    rootId,
+    ...result,
+    // Mirrors EXTRACTION_PAYLOAD_VERSION, which this script can't import.
+    version: 1,
+    report,
     map: nodeMap,
     viewport,
+    nextHighlightIndex: highlightIndex,
+    nextElementIndex: elementIndex,
   };
 }
+
+/**
+ * Draws the numbered highlight boxes for a set of already-extracted
+ * elements, in top-level viewport coordinates. DomService draws them once
+ * extraction is done, as indices are only final after every frame has been
+ * walked and, incrementally, after the changed subtrees are merged into the
+ * previous tree — so the boxes can't be drawn during the walk itself.
+ */
+export function drawHighlightOverlay(args: {
+  highlights: Array<{
+    index: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }>;
+  focusHighlightIndex: number;
+}): void {
+  const { highlights, focusHighlightIndex } = args;
+
+  document.getElementById("playwright-highlight-container")?.remove();
+
+  const container = document.createElement("div");
+  container.id = "playwright-highlight-container";
+  container.style.cssText = `
+    position: fixed;
+    top: 0;
+    left: 0;
+    width: 100%;
+    height: 100%;
+    pointer-events: none;
+    z-index: 2147483647;
+  `;
+
+  for (const box of highlights) {
+    const isFocused = box.index === focusHighlightIndex;
+    const highlight = document.createElement("div");
+    highlight.className = "playwright-highlight";
+    highlight.style.cssText = `
+      position: absolute;
+      left: ${box.x}px;
+      top: ${box.y}px;
+      width: ${box.width}px;
+      height: ${box.height}px;
+      border: 2px solid ${isFocused ? "#ff0000" : "#00ff00"};
+      background-color: ${
+        isFocused ? "rgba(255, 0, 0, 0.1)" : "rgba(0, 255, 0, 0.1)"
+      };
+      pointer-events: none;
+      z-index: 2147483646;
+      box-sizing: border-box;
+    `;
+
+    const label = document.createElement("div");
+    label.textContent = box.index.toString();
+    label.style.cssText = `
+      position: absolute;
+      top: -20px;
+      left: 0;
+      background-color: ${isFocused ? "#ff0000" : "#00ff00"};
+      color: white;
+      padding: 2px 6px;
+      font-size: 12px;
+      font-weight: bold;
+      border-radius: 3px;
+      white-space: nowrap;
+    `;
+    highlight.appendChild(label);
+    container.appendChild(highlight);
+  }
+
+  (document.body || document.documentElement).appendChild(container);
+}
@@ -0,0 +1,1220 @@
+// Extraction rules shared by both backends - see createExtractionRules
+import type {
+  ElementInclusionPolicy,
+  FormControlState,
+  ScrollableInfo,
+  VisibilityReason,
+} from "../types/dom";
+
+/** The computed style properties the rules read. */
+export type RuleStyleProperty =
+  | "visibility"
+  | "opacity"
+  | "position"
+  | "overflow-x"
+  | "overflow-y"
+  | "clip"
+  | "clip-path"
+  | "cursor"
+  | "text-transform";
+
+/** A border box relative to the viewport, as getBoundingClientRect has it. */
+export interface RuleRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+/** An element's scroll offsets, and its scroll and client sizes. */
+export type ScrollMetrics = Omit<ScrollableInfo, "vertical" | "horizontal">;
+
+/** Constraint validation as the browser reports it. */
+export interface ControlValidity {
+  valid: boolean;
+  /** Empty when the browser has nothing to say. */
+  message: string;
+}
+
+/**
+ * What the rules need to know about a document, whichever way it's read:
+ * `buildDomTreeOverlay` answers from the live DOM, the cdp-snapshot backend
+ * from a `DOMSnapshot.captureSnapshot` result. `N` is an element as that
+ * side refers to one; text nodes are passed as their text.
+ */
+export interface ExtractionDom<N> {
+  /** Lowercase tag name. */
+  tagName(node: N): string;
+  /** The node name as the DOM reports it, case included. */
+  nodeName(node: N): string;
+  getAttribute(node: N, name: string): string | null;
+  /** Null at the top of a document or shadow tree. */
+  parentElement(node: N): N | null;
+  /** The parent element, or for the top of a shadow tree, its host. */
+  composedParent(node: N): N | null;
+  /** The host of the shadow tree the node is in, null outside one. */
+  shadowHost(node: N): N | null;
+  /** The element children of the node's parent node, the node included. */
+  siblings(node: N): N[];
+  /** Child elements, and text nodes as their text. */
+  childNodes(node: N): Array<N | string>;
+  /** The same for the node's open shadow root; null without one. */
+  shadowChildNodes(node: N): Array<N | string> | null;
+  textContent(node: N): string;
+  /** Visits every element of the document and its open shadow trees. */
+  forEachElement(visit: (node: N) => void): void;
+  /** Looks an id up in the node's own document or shadow tree. */
+  getElementById(node: N, id: string): N | null;
+  /** The labels of a labelable element. */
+  labels(node: N): N[];
+  /** The live value of an input or textarea. */
+  controlValue(node: N): string;
+  /** The live `checked` of a checkbox or radio button. */
+  isChecked(node: N): boolean;
+  /** The live `indeterminate` of a checkbox. */
+  isIndeterminate(node: N): boolean;
+  /** A select's options, those in optgroups included, in order. */
+  selectOptions(node: N): N[];
+  /** The live `selected` of an option. */
+  isSelected(option: N): boolean;
+  /** Whether a form control matches `:disabled` (fieldsets included). */
+  isDisabled(node: N): boolean;
+  /**
+   * Null where it can't be told: the rules then only check for a missing
+   * required value.
+   */
+  validity(node: N): ControlValidity | null;
+  /** Null where the element's scroll sizes aren't known. */
+  scrollMetrics(node: N): ScrollMetrics | null;
+  isContentEditable(node: N): boolean;
+  style(node: N, property: RuleStyleProperty): string;
+  /** `display: none` on the node itself, not inherited from an ancestor. */
+  isDisplayNone(node: N): boolean;
+  /** The document element or body, whose overflow is the viewport's. */
+  isRoot(node: N): boolean;
+  getBoundingRect(node: N): RuleRect;
+  /** What a pseudo-element's `content` renders, before any cleaning up. */
+  generatedText(node: N, pseudo: "before" | "after"): string;
+  /** The topmost element at a viewport point, as the node's tree sees it. */
+  elementFromPoint(node: N, x: number, y: number): N | null;
+  /** Whether `hit` is `element` or rendered inside it (shadow trees too). */
+  isRenderedWithin(element: N, hit: N): boolean;
+}
+
+export interface XPaths {
+  xpath: string;
+  absoluteXPath: string;
+  semanticXPath: string | null;
+}
+
+export interface ClipRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// What an element gets from its ancestors (and itself) that its own
+// computed style doesn't say: display:none and opacity:0 aren't
+// inherited properties, and clipping comes from every overflow ancestor.
+export interface InheritedVisibility {
+  displayNone: boolean;
+  transparent: boolean;
+  ariaHidden: boolean;
+  // Region the element's descendants are clipped to by `overflow: hidden`
+  // (or `clip`) ancestors, null if unclipped.
+  childClip: ClipRegion | null;
+  // Region scroll containers show of the element's descendants; what lies
+  // outside is scrolled away, not hidden. Null if nothing scrolls.
+  childScrollport: ClipRegion | null;
+}
+
+export interface ExtractionRulesOptions {
+  viewport: { width: number; height: number };
+  viewportExpansion: number;
+  inclusionPolicy: ElementInclusionPolicy;
+}
+
+/**
+ * How an element's xpaths, visibility, interactivity, role, accessible name
+ * and text are worked out, written once for both extraction backends so
+ * they can't drift apart.
+ *
+ * Self-contained: `buildDomTreeOverlay` runs in the page, where nothing can
+ * be imported, so DomService sends this function's source along with it.
+ * Nothing outside its own body may be referenced at runtime.
+ */
+export function createExtractionRules<N>(
+  dom: ExtractionDom<N>,
+  options: ExtractionRulesOptions
+) {
+  const { viewport, viewportExpansion, inclusionPolicy } = options;
+
+  // Separates a shadow host's xpath from the path inside its shadow tree.
+  // XPath itself cannot cross a shadow boundary, so the combined string is
+  // not evaluable as-is — BrowserContext splits on it to build a
+  // shadow-piercing CSS locator instead. Mirrors SHADOW_ROOT_XPATH_SEPARATOR.
+  const SHADOW_ROOT_SEPARATOR = "/#shadow-root";
+
+  // Attributes that can anchor a semantic xpath, most trusted first.
+  const ANCHOR_ATTRIBUTES = ["id", "data-testid"];
+
+  const INTERACTIVE_TAGS = [
+    "a",
+    "button",
+    "input",
+    "select",
+    "textarea",
+    "option",
+    "optgroup",
+    "fieldset",
+    "legend",
+    "details",
+    "summary",
+  ];
+
+  const CLICKABLE_ATTRIBUTES = [
+    "onclick",
+    "onmousedown",
+    "onmouseup",
+    "onmousemove",
+    "onmouseover",
+    "onmouseout",
+  ];
+
+  const INTERACTIVE_ROLES = [
+    "button",
+    "link",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "tab",
+    "option",
+    "checkbox",
+    "radio",
+    "switch",
+    "combobox",
+    "searchbox",
+    "textbox",
+    "slider",
+    "spinbutton",
+    "treeitem",
+  ];
+
+  // Implicit ARIA roles of the elements pages most commonly leave
+  // unannotated (HTML-AAM). Context-dependent cases (header/footer scoping,
+  // unnamed sections and forms) are simplified to their usual meaning.
+  const IMPLICIT_ROLES: Record<string, string> = {
+    article: "article",
+    aside: "complementary",
+    button: "button",
+    datalist: "listbox",
+    details: "group",
+    dialog: "dialog",
+    fieldset: "group",
+    figure: "figure",
+    footer: "contentinfo",
+    form: "form",
+    h1: "heading",
+    h2: "heading",
+    h3: "heading",
+    h4: "heading",
+    h5: "heading",
+    h6: "heading",
+    header: "banner",
+    hr: "separator",
+    li: "listitem",
+    main: "main",
+    menu: "list",
+    meter: "meter",
+    nav: "navigation",
+    ol: "list",
+    optgroup: "group",
+    option: "option",
+    output: "status",
+    progress: "progressbar",
+    section: "region",
+    summary: "button",
+    table: "table",
+    tbody: "rowgroup",
+    td: "cell",
+    textarea: "textbox",
+    tfoot: "rowgroup",
+    th: "columnheader",
+    thead: "rowgroup",
+    tr: "row",
+    ul: "list",
+  };
+
+  const INPUT_ROLES: Record<string, string> = {
+    button: "button",
+    checkbox: "checkbox",
+    email: "textbox",
+    image: "button",
+    number: "spinbutton",
+    radio: "radio",
+    range: "slider",
+    reset: "button",
+    search: "searchbox",
+    submit: "button",
+    tel: "textbox",
+    text: "textbox",
+    url: "textbox",
+  };
+
+  // Roles whose accessible name is computed from their content.
+  const NAME_FROM_CONTENT_ROLES = new Set([
+    "button",
+    "cell",
+    "checkbox",
+    "columnheader",
+    "gridcell",
+    "heading",
+    "link",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "option",
+    "radio",
+    "row",
+    "rowheader",
+    "switch",
+    "tab",
+    "tooltip",
+    "treeitem",
+  ]);
+
+  const LABELABLE_TAGS = ["input", "select", "textarea", "meter", "progress"];
+
+  // `isVisible` is the layout check highlight indices have always been
+  // based on: rendered, with a size, within the expanded viewport. Being
+  // transparent or clipped shows in the visibility reasons only, so the
+  // invisible native inputs behind custom checkboxes and file pickers stay
+  // selectable.
+  const LAYOUT_HIDDEN_REASONS: VisibilityReason[] = [
+    "display-none",
+    "zero-size",
+    "visibility-hidden",
+    "outside-viewport",
+  ];
+
+  // Icon fonts map their glyphs to Private Use Area code points, which mean
+  // nothing as text (BMP area, then supplementary planes 15-16).
+  const PRIVATE_USE_CHARS = /[\uE000-\uF8FF]|[\uDB80-\uDBFF][\uDC00-\uDFFF]/g;
+
+  // --- Text ---
+
+  function normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+  }
+
+  // The text as rendered, i.e. after the element's `text-transform`.
+  function applyTextTransform(text: string, textTransform: string): string {
+    switch (textTransform) {
+      case "uppercase":
+        return text.toUpperCase();
+      case "lowercase":
+        return text.toLowerCase();
+      case "capitalize":
+        return text.replace(
+          /(^|[\s\-])(\S)/g,
+          (_, boundary: string, first: string) => boundary + first.toUpperCase()
+        );
+      default:
+        return text;
+    }
+  }
+
+  function unescapeCssString(value: string): string {
+    return value.replace(
+      /\\(?:([0-9a-fA-F]{1,6})\s?|([\s\S]))/g,
+      (_, hex: string | undefined, char: string | undefined) => {
+        if (hex === undefined) return char!;
+        const codePoint = parseInt(hex, 16);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : "\uFFFD";
+      }
+    );
+  }
+
+  // The text a computed `content` value renders on the node: its strings
+  // and attr() references, up to any alternative text after "/". Counters,
+  // quotes and images don't render as readable text and are left out.
+  function getContentText(
+    node: N,
+    content: string,
+    textTransform: string
+  ): string {
+    if (!content || content === "none" || content === "normal") return "";
+
+    const parts: string[] = [];
+    // Strings, attr() references, the "/" before alternative text, and
+    // counter()/counters() calls, matched whole so a counters() separator
+    // isn't taken for a string.
+    const tokenPattern = new RegExp(
+      [
+        /"((?:[^"\\]|\\[\s\S])*)"/.source,
+        /'((?:[^'\\]|\\[\s\S])*)'/.source,
+        /attr\(\s*([^\s)]+)\s*\)/.source,
+        /(\/)/.source,
+        /counters?\([^)]*\)/.source,
+      ].join("|"),
+      "g"
+    );
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(content))) {
+      if (match[4] !== undefined) break;
+      if (match[3] !== undefined) {
+        parts.push(dom.getAttribute(node, match[3]) ?? "");
+      } else if (match[1] !== undefined || match[2] !== undefined) {
+        parts.push(unescapeCssString(match[1] ?? match[2]));
+      }
+    }
+    return applyTextTransform(parts.join(""), textTransform);
+  }
+
+  // Text rendered by a ::before/::after pseudo-element, icon glyphs left out.
+  function getGeneratedText(node: N, pseudo: "before" | "after"): string {
+    return normalizeWhitespace(
+      dom.generatedText(node, pseudo).replace(PRIVATE_USE_CHARS, "")
+    );
+  }
+
+  // The element's text as a person sees it: transformed, and with its own
+  // generated content around it.
+  function getElementText(
+    node: N,
+    beforeText: string,
+    afterText: string
+  ): string {
+    const textContent = applyTextTransform(
+      dom.textContent(node).trim(),
+      dom.style(node, "text-transform")
+    );
+    return [beforeText, textContent, afterText]
+      .filter((part) => part !== "")
+      .join(" ");
+  }
+
+  // --- XPaths ---
+
+  // Mirrors isGeneratedIdentifier in types/dom.ts: ids a framework or build
+  // step made up, which change between renders.
+  function isGeneratedIdentifier(value: string): boolean {
+    return (
+      /^:r[0-9a-z]+:$/i.test(value) ||
+      /\d{3,}/.test(value) ||
+      /[0-9a-f]{8}-[0-9a-f]{4}-/i.test(value) ||
+      /^(css|sc|jsx|emotion)-[0-9a-z]+$/i.test(value) ||
+      /__[0-9a-z]{5}$/i.test(value) ||
+      /^(?=.*\d.*\d)(?=.*[a-z])[0-9a-z]{6,}$/i.test(
+        value.split(/[-_]/).pop() || ""
+      )
+    );
+  }
+
+  // How many elements carry each anchor attribute value, counted once
+  // across the document and every open shadow tree — the shadow-piercing
+  // CSS locators built from these xpaths would see them all. Makes checking
+  // an anchor's uniqueness a lookup instead of an xpath evaluation per
+  // element.
+  let anchorCounts: Map<string, number> | null = null;
+  function getAnchorCounts(): Map<string, number> {
+    if (anchorCounts) return anchorCounts;
+    const counts = new Map<string, number>();
+    dom.forEachElement((node) => {
+      for (const attribute of ANCHOR_ATTRIBUTES) {
+        const value = dom.getAttribute(node, attribute);
+        if (value === null) continue;
+        const key = `${attribute}=${value}`;
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    });
+    anchorCounts = counts;
+    return counts;
+  }
+
+  // An `*[@attribute="value"]` step identifying this element alone, or null.
+  function getAnchorStep(node: N): string | null {
+    for (const attribute of ANCHOR_ATTRIBUTES) {
+      const value = dom.getAttribute(node, attribute);
+      if (!value || value.includes('"') || isGeneratedIdentifier(value)) {
+        continue;
+      }
+      if (getAnchorCounts().get(`${attribute}=${value}`) === 1) {
+        return `*[@${attribute}="${value}"]`;
+      }
+    }
+    return null;
+  }
+
+  // The element's tag, indexed among its same-tag siblings whenever it has
+  // any — an unindexed step would match all of them.
+  function getPositionalStep(node: N): string {
+    const name = dom.nodeName(node);
+    const sameTag = dom
+      .siblings(node)
+      .filter((sibling) => dom.nodeName(sibling) === name);
+    return sameTag.length > 1
+      ? `${name.toLowerCase()}[${sameTag.indexOf(node) + 1}]`
+      : name.toLowerCase();
+  }
+
+  // Purely positional path from the top of the element's own tree: the
+  // document, or — for an element rendered inside a shadow root — that
+  // shadow root.
+  function getLocalAbsoluteXPath(node: N): string {
+    const path: string[] = [];
+    for (
+      let current: N | null = node;
+      current !== null;
+      current = dom.parentElement(current)
+    ) {
+      path.unshift(getPositionalStep(current));
+    }
+    return "/" + path.join("/");
+  }
+
+  // Positional path below the nearest element (itself included) with a
+  // unique, stable anchor attribute, or null when there is none. Anchored
+  // paths start with "//": the anchor is virtually never a direct child of
+  // the tree's root.
+  function getLocalSemanticXPath(node: N): string | null {
+    const path: string[] = [];
+    for (
+      let current: N | null = node;
+      current !== null;
+      current = dom.parentElement(current)
+    ) {
+      const anchor = getAnchorStep(current);
+      if (anchor) {
+        path.unshift(anchor);
+        return "//" + path.join("/");
+      }
+      path.unshift(getPositionalStep(current));
+    }
+    return null;
+  }
+
+  const xpathCache = new Map<N, XPaths>();
+
+  // Both xpaths of an element, and the one to identify it by: the semantic
+  // path when there is one (it survives unrelated changes elsewhere in the
+  // page), else the absolute one. Both are unique by construction.
+  function getXPaths(node: N): XPaths {
+    const cached = xpathCache.get(node);
+    if (cached) return cached;
+
+    const localAbsolute = getLocalAbsoluteXPath(node);
+    const localSemantic = getLocalSemanticXPath(node);
+    const shadowHost = dom.shadowHost(node);
+
+    let xpaths: XPaths;
+    if (shadowHost !== null) {
+      const host = getXPaths(shadowHost);
+      const xpath =
+        host.xpath + SHADOW_ROOT_SEPARATOR + (localSemantic ?? localAbsolute);
+      xpaths = {
+        xpath,
+        absoluteXPath:
+          host.absoluteXPath + SHADOW_ROOT_SEPARATOR + localAbsolute,
+        semanticXPath:
+          host.semanticXPath !== null || localSemantic !== null ? xpath : null,
+      };
+    } else {
+      xpaths = {
+        xpath: localSemantic ?? localAbsolute,
+        absoluteXPath: localAbsolute,
+        semanticXPath: localSemantic,
+      };
+    }
+    xpathCache.set(node, xpaths);
+    return xpaths;
+  }
+
+  // --- Visibility ---
+
+  // `region` narrowed to `rect` along one axis.
+  function narrowRegion(
+    region: ClipRegion | null,
+    rect: ClipRegion,
+    axis: "x" | "y"
+  ): ClipRegion {
+    const current = region ?? {
+      left: -Infinity,
+      top: -Infinity,
+      right: Infinity,
+      bottom: Infinity,
+    };
+    return axis === "x"
+      ? {
+          ...current,
+          left: Math.max(rect.left, current.left),
+          right: Math.min(rect.right, current.right),
+        }
+      : {
+          ...current,
+          top: Math.max(rect.top, current.top),
+          bottom: Math.min(rect.bottom, current.bottom),
+        };
+  }
+
+  function isOutside(rect: ClipRegion, region: ClipRegion | null): boolean {
+    return (
+      region !== null &&
+      (rect.right <= region.left ||
+        rect.left >= region.right ||
+        rect.bottom <= region.top ||
+        rect.top >= region.bottom)
+    );
+  }
+
+  const inheritedVisibility = new Map<N, InheritedVisibility>();
+
+  function getInheritedVisibility(node: N): InheritedVisibility {
+    const cached = inheritedVisibility.get(node);
+    if (cached) return cached;
+
+    const parent = dom.composedParent(node);
+    const fromParent: InheritedVisibility =
+      parent !== null
+        ? getInheritedVisibility(parent)
+        : {
+            displayNone: false,
+            transparent: false,
+            ariaHidden: false,
+            childClip: null,
+            childScrollport: null,
+          };
+
+    // Fixed elements escape their ancestors' overflow; the root's overflow
+    // is the viewport's, which outside-viewport already covers.
+    const isFixed = dom.style(node, "position") === "fixed";
+    let childClip = isFixed ? null : fromParent.childClip;
+    let childScrollport = isFixed ? null : fromParent.childScrollport;
+    if (!dom.isRoot(node)) {
+      for (const axis of ["x", "y"] as const) {
+        const overflow = dom.style(node, `overflow-${axis}`);
+        if (overflow === "visible") continue;
+        const rect = dom.getBoundingRect(node);
+        if (["auto", "scroll", "overlay"].includes(overflow)) {
+          childScrollport = narrowRegion(childScrollport, rect, axis);
+        } else {
+          childClip = narrowRegion(childClip, rect, axis);
+        }
+      }
+    }
+
+    const state: InheritedVisibility = {
+      displayNone: fromParent.displayNone || dom.isDisplayNone(node),
+      transparent: fromParent.transparent || dom.style(node, "opacity") === "0",
+      ariaHidden:
+        fromParent.ariaHidden ||
+        dom.getAttribute(node, "aria-hidden") === "true",
+      childClip,
+      childScrollport,
+    };
+    inheritedVisibility.set(node, state);
+    return state;
+  }
+
+  // Every reason the element can't be seen, or isn't exposed to assistive
+  // tech; none for an element that's visible on screen. Reasons implied by
+  // another (a display:none element also has no size) are left out.
+  function getVisibilityReasons(node: N, rect: RuleRect): VisibilityReason[] {
+    const inherited = getInheritedVisibility(node);
+    const reasons: VisibilityReason[] = [];
+    const hasSize = rect.width > 0 && rect.height > 0;
+    const visibility = dom.style(node, "visibility");
+
+    if (inherited.displayNone) reasons.push("display-none");
+    else if (!hasSize) reasons.push("zero-size");
+    if (visibility === "hidden" || visibility === "collapse") {
+      reasons.push("visibility-hidden");
+    }
+    if (inherited.transparent) reasons.push("opacity-zero");
+
+    if (hasSize) {
+      const parent = dom.composedParent(node);
+      const fromParent =
+        dom.style(node, "position") === "fixed" || parent === null
+          ? null
+          : getInheritedVisibility(parent);
+      // The "visually hidden" pattern screen-reader-only text uses.
+      const clippedToNothing =
+        dom.style(node, "clip") === "rect(0px, 0px, 0px, 0px)" ||
+        dom.style(node, "clip-path") === "inset(50%)";
+      if (isOutside(rect, fromParent?.childClip ?? null) || clippedToNothing) {
+        reasons.push("clipped");
+      }
+
+      // Scrolled out of a container's view is as off-screen as scrolled
+      // out of the window's: a scroll brings it back.
+      const inViewport =
+        rect.top < viewport.height + viewportExpansion &&
+        rect.bottom > -viewportExpansion &&
+        rect.left < viewport.width + viewportExpansion &&
+        rect.right > -viewportExpansion &&
+        !isOutside(rect, fromParent?.childScrollport ?? null);
+      if (!inViewport) reasons.push("outside-viewport");
+    }
+
+    if (inherited.ariaHidden) reasons.push("aria-hidden");
+    return reasons;
+  }
+
+  function isLaidOut(reasons: VisibilityReason[]): boolean {
+    return !reasons.some((reason) => LAYOUT_HIDDEN_REASONS.includes(reason));
+  }
+
+  // --- Interactivity ---
+
+  // The reasons the element looks interactive that both backends can read
+  // from markup and style. Each adds the script-attached listeners it can
+  // detect itself.
+  function getInteractiveReasons(node: N): string[] {
+    const reasons: string[] = [];
+    const tagName = dom.tagName(node);
+
+    if (INTERACTIVE_TAGS.includes(tagName)) reasons.push(`tag:${tagName}`);
+
+    for (const attribute of CLICKABLE_ATTRIBUTES) {
+      if (dom.getAttribute(node, attribute) !== null) {
+        reasons.push(`attribute:${attribute}`);
+      }
+    }
+
+    const role = dom.getAttribute(node, "role");
+    if (role && INTERACTIVE_ROLES.includes(role)) reasons.push(`role:${role}`);
+
+    const tabIndex = dom.getAttribute(node, "tabindex");
+    if (tabIndex && tabIndex !== "-1") reasons.push("tabindex");
+
+    if (dom.isContentEditable(node)) {
+      // Only the editing host, not every node inside it
+      const parent = dom.parentElement(node);
+      if (parent === null || !dom.isContentEditable(parent)) {
+        reasons.push("contenteditable");
+      }
+    }
+
+    // cursor is inherited, so only the element that sets it counts —
+    // otherwise every span inside a clickable card would count too.
+    if (dom.style(node, "cursor") === "pointer") {
+      const parent = dom.parentElement(node);
+      if (parent === null || dom.style(parent, "cursor") !== "pointer") {
+        reasons.push("cursor:pointer");
+      }
+    }
+
+    return reasons;
+  }
+
+  // Tags of elements that may hold something to act on without being
+  // controls themselves: frames, whose documents are walked separately.
+  const FRAME_TAGS = ["iframe", "frame"];
+
+  // What an over-budget walk keeps spending its last nodes on (see
+  // ExtractionBudget.maxNodes): the controls recognizable from markup
+  // alone, and frames. As a selector, for the page to query subtrees with.
+  const controlSelector = [
+    ...INTERACTIVE_TAGS,
+    ...FRAME_TAGS,
+    ...CLICKABLE_ATTRIBUTES.map((attribute) => `[${attribute}]`),
+    ...INTERACTIVE_ROLES.map((role) => `[role="${role}"]`),
+    '[tabindex]:not([tabindex="-1"]):not([tabindex=""])',
+    '[contenteditable]:not([contenteditable="false"])',
+  ].join(",");
+
+  // Whether the element matches controlSelector.
+  function isControl(node: N): boolean {
+    const tagName = dom.tagName(node);
+    if (INTERACTIVE_TAGS.includes(tagName) || FRAME_TAGS.includes(tagName)) {
+      return true;
+    }
+    if (
+      CLICKABLE_ATTRIBUTES.some(
+        (attribute) => dom.getAttribute(node, attribute) !== null
+      )
+    ) {
+      return true;
+    }
+    const role = dom.getAttribute(node, "role");
+    const tabIndex = dom.getAttribute(node, "tabindex");
+    const editable = dom.getAttribute(node, "contenteditable");
+    return (
+      (role !== null && INTERACTIVE_ROLES.includes(role)) ||
+      (tabIndex !== null && tabIndex !== "-1" && tabIndex !== "") ||
+      (editable !== null && editable !== "false")
+    );
+  }
+
+  // Rule patterns compiled once per extraction rather than per element.
+  const inclusionRules = inclusionPolicy.rules.map((rule) => ({
+    ...rule,
+    tags: rule.tag === undefined ? null : ([] as string[]).concat(rule.tag),
+    roles: rule.role === undefined ? null : ([] as string[]).concat(rule.role),
+    attributeValueRegex:
+      rule.attributeValue === undefined
+        ? null
+        : new RegExp(rule.attributeValue),
+    textRegex:
+      rule.textPattern === undefined ? null : new RegExp(rule.textPattern),
+  }));
+
+  function hasOwnText(node: N): boolean {
+    return dom
+      .childNodes(node)
+      .some((child) => typeof child === "string" && child.trim() !== "");
+  }
+
+  // Whether the element goes into the element map, as decided by the
+  // inclusion policy (see ElementInclusionPolicy).
+  function shouldIncludeInElementMap(node: N, isInteractive: boolean): boolean {
+    const tagName = dom.tagName(node);
+    const textContent = dom.textContent(node).trim();
+
+    for (const rule of inclusionRules) {
+      if (rule.tags && !rule.tags.includes(tagName)) continue;
+      if (rule.roles && !rule.roles.includes(getRole(node) ?? "")) continue;
+      if (rule.attribute !== undefined) {
+        const value = dom.getAttribute(node, rule.attribute);
+        if (value === null) continue;
+        if (rule.attributeValueRegex && !rule.attributeValueRegex.test(value)) {
+          continue;
+        }
+      }
+      if (rule.textRegex && !rule.textRegex.test(textContent)) continue;
+      if (
+        rule.hasText !== undefined &&
+        rule.hasText !== textContent.length > 0
+      ) {
+        continue;
+      }
+      if (
+        rule.interactive !== undefined &&
+        rule.interactive !== isInteractive
+      ) {
+        continue;
+      }
+      if (
+        rule.customElement !== undefined &&
+        rule.customElement !== tagName.includes("-")
+      ) {
+        continue;
+      }
+      return rule.include;
+    }
+
+    if (inclusionPolicy.excludeTags.includes(tagName)) return false;
+    if (inclusionPolicy.includeInteractive && isInteractive) return true;
+    if (inclusionPolicy.includeTags.includes(tagName)) return true;
+
+    if (inclusionPolicy.includeWithText) {
+      return inclusionPolicy.leafTextOnly
+        ? hasOwnText(node)
+        : textContent.length > 0;
+    }
+    return false;
+  }
+
+  // --- Occlusion ---
+
+  // Hit-tests a few points of the element's box. The element counts as the
+  // top element if ANY sampled point lands on it (or something inside it or
+  // one of its labels, which forward clicks to it) — a partly covered
+  // button is still clickable. Points outside the viewport can't be hit
+  // tested at all; with none left, occlusion is unknown and the element is
+  // given the benefit of the doubt.
+  function getOcclusion(
+    node: N,
+    rect: RuleRect
+  ): { isTopElement: boolean; occludedBy: string | null } {
+    const labels = dom.labels(node);
+    const points = [
+      [0.5, 0.5],
+      [0.25, 0.25],
+      [0.75, 0.25],
+      [0.25, 0.75],
+      [0.75, 0.75],
+    ];
+
+    let coveringElement: N | null = null;
+    for (const [fx, fy] of points) {
+      const x = rect.left + rect.width * fx;
+      const y = rect.top + rect.height * fy;
+      if (x < 0 || y < 0 || x >= viewport.width || y >= viewport.height) {
+        continue;
+      }
+
+      const hit = dom.elementFromPoint(node, x, y);
+      if (hit === null) continue;
+      if (
+        dom.isRenderedWithin(node, hit) ||
+        labels.some((label) => dom.isRenderedWithin(label, hit))
+      ) {
+        return { isTopElement: true, occludedBy: null };
+      }
+      coveringElement = coveringElement ?? hit;
+    }
+
+    if (coveringElement === null) {
+      return { isTopElement: true, occludedBy: null };
+    }
+    return {
+      isTopElement: false,
+      occludedBy: getXPaths(coveringElement).xpath,
+    };
+  }
+
+  // --- Roles and accessible names ---
+
+  function getRole(node: N): string | null {
+    const roleAttribute = dom.getAttribute(node, "role")?.trim();
+    // The first token is the role; later ones are fallbacks for old UAs.
+    if (roleAttribute) return roleAttribute.split(/\s+/)[0];
+
+    const tagName = dom.tagName(node);
+    switch (tagName) {
+      case "a":
+      case "area":
+        return dom.getAttribute(node, "href") !== null ? "link" : null;
+      case "img":
+        return dom.getAttribute(node, "alt") === "" ? "presentation" : "img";
+      case "input": {
+        const type = (dom.getAttribute(node, "type") || "text").toLowerCase();
+        if (type === "hidden") return null;
+        if (
+          INPUT_ROLES[type] === "textbox" &&
+          dom.getAttribute(node, "list") !== null
+        ) {
+          return "combobox";
+        }
+        return INPUT_ROLES[type] || "textbox";
+      }
+      case "select": {
+        const size = parseInt(dom.getAttribute(node, "size") ?? "", 10);
+        return dom.getAttribute(node, "multiple") !== null || size > 1
+          ? "listbox"
+          : "combobox";
+      }
+      default:
+        return IMPLICIT_ROLES[tagName] || null;
+    }
+  }
+
+  function isHiddenFromAccessibility(node: N): boolean {
+    if (dom.getAttribute(node, "aria-hidden") === "true") return true;
+    return (
+      getInheritedVisibility(node).displayNone ||
+      dom.style(node, "visibility") === "hidden"
+    );
+  }
+
+  function findDescendant(node: N, tagName: string): N | null {
+    for (const child of dom.childNodes(node)) {
+      if (typeof child === "string") continue;
+      if (dom.tagName(child) === tagName) return child;
+      const found = findDescendant(child, tagName);
+      if (found !== null) return found;
+    }
+    return null;
+  }
+
+  // Text of the elements an aria-labelledby/aria-describedby attribute
+  // points at, resolved in the element's own tree (ids are scoped to a
+  // shadow root).
+  function getReferencedText(node: N, attribute: string): string {
+    const ids = dom.getAttribute(node, attribute)?.trim().split(/\s+/) || [];
+    return normalizeWhitespace(
+      ids
+        .filter((id) => id !== "")
+        .map((id) => dom.getElementById(node, id))
+        .filter((referenced): referenced is N => referenced !== null)
+        // A referenced node counts even when it is hidden, per accname.
+        .map(
+          (referenced) =>
+            dom.getAttribute(referenced, "aria-label") ||
+            getTextFromContent(referenced, true)
+        )
+        .join(" ")
+    );
+  }
+
+  // Name-from-content: the text a node renders, substituting each embedded
+  // element's own text alternative (an icon's alt, an svg's <title>, a
+  // control's value unless it's masked) and skipping anything hidden.
+  // Capped so a huge container can't make this quadratic over the page.
+  function getTextFromContent(
+    node: N,
+    includeHidden: boolean = false,
+    budget: { remaining: number } = { remaining: 500 }
+  ): string {
+    const parts: string[] = [getGeneratedText(node, "before")];
+    const children = dom.shadowChildNodes(node) ?? dom.childNodes(node);
+
+    for (const child of children) {
+      if (budget.remaining <= 0) break;
+
+      if (typeof child === "string") {
+        budget.remaining -= child.length;
+        parts.push(child);
+        continue;
+      }
+
+      const tagName = dom.tagName(child);
+      if (["script", "style", "template", "noscript"].includes(tagName)) {
+        continue;
+      }
+      if (!includeHidden && isHiddenFromAccessibility(child)) continue;
+
+      const label = dom.getAttribute(child, "aria-label");
+      if (label && label.trim()) {
+        parts.push(label);
+      } else if (tagName === "img" || tagName === "area") {
+        parts.push(dom.getAttribute(child, "alt") || "");
+      } else if (tagName === "svg") {
+        const title = findDescendant(child, "title");
+        parts.push(title !== null ? dom.textContent(title) : "");
+      } else if (tagName === "input" || tagName === "textarea") {
+        // A password or hidden input's value is never rendered as text.
+        const type = (dom.getAttribute(child, "type") || "").toLowerCase();
+        if (tagName === "input" && (type === "password" || type === "hidden")) {
+          continue;
+        }
+        parts.push(dom.controlValue(child));
+      } else {
+        parts.push(getTextFromContent(child, includeHidden, budget));
+      }
+    }
+    parts.push(getGeneratedText(node, "after"));
+
+    return normalizeWhitespace(parts.join(" "));
+  }
+
+  // The accessible name, following the accname computation closely enough
+  // for the common cases: aria-labelledby, aria-label, the host language's
+  // own labelling (label[for]/wrapping label, alt, legend, caption, svg
+  // <title>...), content for roles named by their content, then title and
+  // placeholder as last resorts.
+  function getAccessibleName(node: N, role: string | null): string {
+    const labelledBy = getReferencedText(node, "aria-labelledby");
+    if (labelledBy) return labelledBy;
+
+    const ariaLabel = normalizeWhitespace(
+      dom.getAttribute(node, "aria-label") || ""
+    );
+    if (ariaLabel) return ariaLabel;
+
+    const tagName = dom.tagName(node);
+    const type = (dom.getAttribute(node, "type") || "").toLowerCase();
+
+    if (LABELABLE_TAGS.includes(tagName)) {
+      const labelText = normalizeWhitespace(
+        dom
+          .labels(node)
+          .map((label) => getTextFromContent(label))
+          .join(" ")
+      );
+      if (labelText) return labelText;
+
+      if (tagName === "input") {
+        if (type === "image") {
+          const alt = dom.getAttribute(node, "alt");
+          if (alt) return normalizeWhitespace(alt);
+        }
+        if (["button", "submit", "reset"].includes(type)) {
+          const value = dom.controlValue(node);
+          if (value) return normalizeWhitespace(value);
+          if (type === "submit") return "Submit";
+          if (type === "reset") return "Reset";
+        }
+      }
+    }
+
+    if (tagName === "img" || tagName === "area") {
+      const alt = dom.getAttribute(node, "alt");
+      if (alt) return normalizeWhitespace(alt);
+    }
+
+    const captionTag: Record<string, string> = {
+      fieldset: "legend",
+      table: "caption",
+      figure: "figcaption",
+      svg: "title",
+    };
+    if (captionTag[tagName]) {
+      const caption = dom
+        .childNodes(node)
+        .find(
+          (child): child is N =>
+            typeof child !== "string" &&
+            dom.tagName(child) === captionTag[tagName]
+        );
+      const captionText =
+        caption !== undefined ? getTextFromContent(caption) : "";
+      if (captionText) return captionText;
+    }
+
+    if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+      const contentText = getTextFromContent(node);
+      if (contentText) return contentText;
+    }
+
+    const title = normalizeWhitespace(dom.getAttribute(node, "title") || "");
+    if (title) return title;
+
+    return normalizeWhitespace(dom.getAttribute(node, "placeholder") || "");
+  }
+
+  function getAccessibleDescription(node: N, accessibleName: string): string {
+    const describedBy = getReferencedText(node, "aria-describedby");
+    if (describedBy) return describedBy;
+
+    const ariaDescription = normalizeWhitespace(
+      dom.getAttribute(node, "aria-description") || ""
+    );
+    if (ariaDescription) return ariaDescription;
+
+    // title describes an element only when it didn't already name it
+    const title = normalizeWhitespace(dom.getAttribute(node, "title") || "");
+    return title !== accessibleName ? title : "";
+  }
+
+  // --- Scrolling and form state ---
+
+  const FORM_CONTROL_TAGS = ["input", "textarea", "select", "button"];
+
+  // Scroll metrics of an element that scrolls its own content, or null. The
+  // document's scrolling element is left out: that's the window's scroll.
+  function getScrollableInfo(node: N): ScrollableInfo | null {
+    if (dom.isRoot(node)) return null;
+    const metrics = dom.scrollMetrics(node);
+    if (!metrics) return null;
+
+    const overflowsY = metrics.scrollHeight > metrics.clientHeight;
+    const overflowsX = metrics.scrollWidth > metrics.clientWidth;
+    if (!overflowsY && !overflowsX) return null;
+
+    const scrolls = (overflow: string) =>
+      overflow === "auto" || overflow === "scroll" || overflow === "overlay";
+    const vertical = overflowsY && scrolls(dom.style(node, "overflow-y"));
+    const horizontal = overflowsX && scrolls(dom.style(node, "overflow-x"));
+    if (!vertical && !horizontal) return null;
+
+    return { vertical, horizontal, ...metrics };
+  }
+
+  // Live state of a form control, from what the document holds now rather
+  // than its initial markup, or null for anything else. ARIA widgets
+  // contribute what their aria-* state says.
+  function getFormState(node: N): FormControlState | null {
+    const ariaInvalid = dom.getAttribute(node, "aria-invalid");
+    const ariaChecked = dom.getAttribute(node, "aria-checked");
+    const ariaDisabled = dom.getAttribute(node, "aria-disabled") === "true";
+    const isAriaInvalid = ariaInvalid !== null && ariaInvalid !== "false";
+    const tagName = dom.tagName(node);
+
+    if (!FORM_CONTROL_TAGS.includes(tagName)) {
+      if (ariaChecked === null && ariaInvalid === null && !ariaDisabled) {
+        return null;
+      }
+      const state: FormControlState = {
+        disabled: ariaDisabled,
+        invalid: isAriaInvalid,
+      };
+      if (ariaChecked !== null) {
+        state.checked = ariaChecked === "true";
+        if (ariaChecked === "mixed") state.indeterminate = true;
+      }
+      return state;
+    }
+
+    const disabled = dom.isDisabled(node);
+    const required = dom.getAttribute(node, "required") !== null;
+    const readOnly = dom.getAttribute(node, "readonly") !== null;
+    const type = (dom.getAttribute(node, "type") || "text").toLowerCase();
+    const validity = dom.validity(node);
+    const state: FormControlState = {
+      disabled: disabled || ariaDisabled,
+      invalid: isAriaInvalid || (validity !== null && !validity.valid),
+    };
+    if (validity?.message) state.validationMessage = validity.message;
+    // For when validity can't be told: a missing required value can be.
+    let valueMissing = false;
+
+    if (tagName === "select") {
+      const options = dom.selectOptions(node);
+      const selected = options.filter((option) => dom.isSelected(option));
+      state.selectedIndex =
+        selected.length > 0 ? options.indexOf(selected[0]) : -1;
+      state.selectedOptions = selected.map((option) =>
+        normalizeWhitespace(dom.textContent(option))
+      );
+      state.required = required;
+      valueMissing =
+        selected.length === 0 ||
+        selected.every(
+          (option) =>
+            (dom.getAttribute(option, "value") ?? dom.textContent(option)) ===
+            ""
+        );
+    } else if (tagName === "input") {
+      if (type === "checkbox" || type === "radio") {
+        state.checked = dom.isChecked(node);
+        if (dom.isIndeterminate(node)) state.indeterminate = true;
+        valueMissing = !state.checked;
+      } else if (type !== "button" && type !== "submit") {
+        state.value = dom.controlValue(node);
+        valueMissing = state.value === "";
+      }
+      state.readOnly = readOnly;
+      state.required = required;
+    } else if (tagName === "textarea") {
+      state.value = dom.controlValue(node);
+      state.readOnly = readOnly;
+      state.required = required;
+      valueMissing = state.value === "";
+    }
+
+    if (validity === null) {
+      const barred =
+        tagName === "button" ||
+        (tagName === "input" &&
+          ["hidden", "button", "submit", "reset", "image"].includes(type));
+      const willValidate =
+        !barred && !disabled && !(readOnly && tagName !== "select");
+      if (willValidate && required && valueMissing) state.invalid = true;
+    }
+
+    return state;
+  }
+
+  return {
+    normalizeWhitespace,
+    applyTextTransform,
+    unescapeCssString,
+    getContentText,
+    getGeneratedText,
+    getElementText,
+    getXPaths,
+    getInheritedVisibility,
+    getVisibilityReasons,
+    isLaidOut,
+    getInteractiveReasons,
+    controlSelector,
+    isControl,
+    shouldIncludeInElementMap,
+    getOcclusion,
+    getRole,
+    getAccessibleName,
+    getAccessibleDescription,
+    getScrollableInfo,
+    getFormState,
+  };
+}
+
+export type ExtractionRules<N> = ReturnType<typeof createExtractionRules<N>>;
@@ -1,7 +1,32 @@
 import { Page, ElementHandle, FrameLocator } from "playwright";
-import { DomService } from "./domService";
-import { DOMElementNode, SelectorMap, ElementMap } from "../types/dom";
-import { mergeElementsByXPath, buildIndexedMaps } from "./scrollMerge";
+import {
+  DomService,
+  DomServiceOptions,
+  ExtractionBackend,
+} from "./domService";
+import {
+  DOMElementNode,
+  DOMState,
+  SerializedDOMState,
+  SelectorMap,
+  ElementMap,
+  DOMStateChanges,
+  ElementInclusionPolicy,
+  ExtractionBudget,
+  ExtractionReport,
+  ScrollPosition,
+  SHADOW_ROOT_XPATH_SEPARATOR,
+} from "../types/dom";
+import {
+  mergeElementsByXPath,
+  buildIndexedMaps,
+  elementPoolKey,
+} from "./scrollMerge";
+import {
+  StaticPageConfig,
+  StaticPageSource,
+  loadStaticPage,
+} from "./staticPage";
 
 // BrowserState interface based on the original project
 export interface BrowserState {
@@ -14,6 +39,77 @@ export interface BrowserState {
   pixels_above: number;
   pixels_below: number;
   tab?: string;
+  /** See {@link DOMState.changes}. Only set with `incrementalSnapshots`. */
+  changes?: DOMStateChanges | null;
+  /**
+   * See {@link DOMState.extractionReport}. Not set on the pooled state of a
+   * scroll sweep, which is made of many extractions.
+   */
+  extractionReport?: ExtractionReport | null;
+}
+
+/**
+ * A {@link BrowserState} as plain JSON: the serialized DOM state (see
+ * {@link DOMState.toJSON}) plus what was captured of the page around it.
+ */
+export interface SerializedBrowserState extends SerializedDOMState {
+  url: string;
+  title: string;
+  screenshot: string;
+  pixels_above: number;
+  pixels_below: number;
+  tab?: string;
+}
+
+/**
+ * Serializes a state for saving or shipping elsewhere — e.g. to replay
+ * `LLMSelector.selectElement` against it offline. Indices, parent links and
+ * scroll positions survive the round trip through
+ * {@link browserStateFromJSON}.
+ */
+export function browserStateToJSON(
+  state: BrowserState
+): SerializedBrowserState {
+  const domState = new DOMState(
+    state.elementTree,
+    state.selectorMap,
+    state.elementMap
+  );
+  domState.changes = state.changes ?? null;
+  domState.extractionReport = state.extractionReport ?? null;
+
+  return {
+    ...domState.toJSON(),
+    url: state.url,
+    title: state.title,
+    screenshot: state.screenshot,
+    pixels_above: state.pixels_above,
+    pixels_below: state.pixels_below,
+    ...(state.tab !== undefined && { tab: state.tab }),
+  };
+}
+
+/** Restores a state from {@link browserStateToJSON}'s output, or its string. */
+export function browserStateFromJSON(
+  json: SerializedBrowserState | string
+): BrowserState {
+  const data: SerializedBrowserState =
+    typeof json === "string" ? JSON.parse(json) : json;
+  const domState = DOMState.fromJSON(data);
+
+  return {
+    elementTree: domState.elementTree,
+    selectorMap: domState.selectorMap,
+    elementMap: domState.elementMap,
+    url: data.url,
+    title: data.title,
+    screenshot: data.screenshot,
+    pixels_above: data.pixels_above,
+    pixels_below: data.pixels_below,
+    ...(data.tab !== undefined && { tab: data.tab }),
+    changes: domState.changes,
+    extractionReport: domState.extractionReport,
+  };
 }
 
 export interface BrowserContextConfig {
@@ -22,6 +118,16 @@ export interface BrowserContextConfig {
   includeDynamicAttributes: boolean;
   waitBetweenActions: number;
   headless: boolean;
+  /** See {@link DomServiceOptions.detectEventListeners}. */
+  detectEventListeners: boolean;
+  /** See {@link DomServiceOptions.incremental}. */
+  incrementalSnapshots: boolean;
+  /** See {@link DomServiceOptions.elementInclusion}. */
+  elementInclusion: Partial<ElementInclusionPolicy>;
+  /** See {@link DomServiceOptions.budget}. */
+  extractionBudget: ExtractionBudget;
+  /** See {@link DomServiceOptions.backend}. */
+  extractionBackend: ExtractionBackend;
 }
 
 export interface ScrollCollectConfig {
@@ -37,28 +143,76 @@ export interface ScrollCollectConfig {
   /**
    * Defensive ceiling on scroll steps WITHIN a single bottom-reaching pass.
    * This is not the normal limiting factor — a pass ends naturally once
-   * `scrollY` stops moving, i.e. the actual bottom for whatever content
+   * the scroll position stops moving, i.e. the actual end for whatever content
    * exists right now, however many steps that takes. It only guards against
    * a page whose scroll position never settles (e.g. a layout that keeps
    * shifting) turning a single pass into a real infinite loop.
    */
   maxStepsPerCycle: number;
-  /** CSS pixels to scroll per step. Defaults to the viewport height. */
+  /** CSS pixels to scroll down per step. Defaults to the viewport height. */
   scrollStepPx?: number;
+  /** CSS pixels to scroll right per step. Defaults to the viewport width. */
+  scrollStepXPx?: number;
+  /**
+   * "vertical" (default) sweeps top to bottom; "horizontal" sweeps left to
+   * right, for boards and wide grids; "both" sweeps every row of the
+   * vertical sweep from left to right. A container is only swept along the
+   * axes it actually scrolls.
+   */
+  direction: ScrollDirection;
   /** Wait after each scroll for lazy-loaded content to render before re-snapshotting. */
   settleMs: number;
+  /**
+   * What to scroll: "window" (default); the xpath of one scroll container
+   * (see {@link DOMElementNode.scrollable}) — its `elementPoolKey` if it's
+   * inside a frame; or "all" — the window, then every container of the
+   * current page that scrolls along `direction`, in document order, each
+   * swept in turn.
+   */
+  target: "window" | "all" | string;
+  /**
+   * Playwright selectors (CSS, or xpath with an `xpath=` prefix) of carousel
+   * "next" controls. After the scroll sweeps, each is clicked until it's
+   * hidden or disabled, a click brings nothing new into view (the carousel
+   * wrapped around), or `maxCarouselAdvances` is reached. Carousels are left
+   * where that ends — a click can't generally be undone.
+   */
+  carouselNextSelectors: string[];
+  maxCarouselAdvances: number;
+}
+
+export type ScrollDirection = "vertical" | "horizontal" | "both";
+
+type ScrollAxis = "x" | "y";
+
+// Scrolls one target (the window or a scroll container) for a sweep.
+interface ScrollDriver {
+  position(): Promise<{ x: number; y: number }>;
+  scrollTo(x: number, y: number): Promise<void>;
+  /**
+   * Scrolls down (y) or right (x) by `stepPx`, or by the target's visible
+   * size along that axis.
+   */
+  scrollBy(axis: ScrollAxis, stepPx: number | undefined): Promise<void>;
+  scrollSize(): Promise<{ x: number; y: number }>;
 }
 
 const DEFAULT_SCROLL_COLLECT_CONFIG: ScrollCollectConfig = {
   maxContentLoadCycles: 3,
   maxStepsPerCycle: 100,
   settleMs: 700,
+  direction: "vertical",
+  target: "window",
+  carouselNextSelectors: [],
+  maxCarouselAdvances: 20,
 };
 
 export class BrowserContext {
   private page: Page;
   private config: BrowserContextConfig;
   private currentState: BrowserState | null = null;
+  // Kept across updates so incremental snapshots can build on the last one.
+  private domService: DomService | null = null;
 
   constructor(page: Page, config: Partial<BrowserContextConfig> = {}) {
     this.page = page;
@@ -68,10 +222,26 @@ export class BrowserContext {
       includeDynamicAttributes: true,
       waitBetweenActions: 0.5,
       headless: true, // Default to headless mode for better performance and reliability
+      detectEventListeners: false,
+      incrementalSnapshots: false,
+      elementInclusion: {},
+      extractionBudget: {},
+      extractionBackend: "script",
       ...config,
     };
   }
 
+  /**
+   * The state of static HTML, a local file or a saved page, extracted
+   * offline without a page of the caller's own; see {@link loadStaticPage}.
+   */
+  static loadStaticPage(
+    source: StaticPageSource,
+    config: Partial<StaticPageConfig> = {}
+  ): Promise<BrowserState> {
+    return loadStaticPage(source, config);
+  }
+
   async getState(): Promise<BrowserState> {
     if (this.currentState) {
       return this.currentState;
@@ -82,8 +252,14 @@ export class BrowserContext {
   async updateState(focusElement: number = -1): Promise<BrowserState> {
     try {
       await this.removeHighlights();
-      const domService = new DomService(this.page);
-      const content = await domService.getClickableElements(
+      this.domService ??= new DomService(this.page, {
+        detectEventListeners: this.config.detectEventListeners,
+        incremental: this.config.incrementalSnapshots,
+        elementInclusion: this.config.elementInclusion,
+        budget: this.config.extractionBudget,
+        backend: this.config.extractionBackend,
+      });
+      const content = await this.domService.getClickableElements(
         this.config.highlightElements,
         focusElement,
         this.config.viewportExpansion
@@ -101,7 +277,11 @@ export class BrowserContext {
         screenshot,
         pixels_above: pixelsAbove,
         pixels_below: pixelsBelow,
+        extractionReport: content.extractionReport,
       };
+      if (this.config.incrementalSnapshots) {
+        this.currentState.changes = content.changes;
+      }
 
       return this.currentState;
     } catch (e) {
@@ -147,96 +327,362 @@ export class BrowserContext {
    * VISIBLE at (see {@link DOMElementNode.scrollY}), so a caller that keeps
    * the results around can jump straight back to a remembered element later
    * instead of re-sweeping — see {@link mergeCachedElements}.
+   *
+   * Content inside a scroll container (a chat log, a sidebar list, a
+   * `overflow: auto` table body) doesn't move with the window, so `target`
+   * can point the sweep at a container instead — or at all of them in turn.
+   * A container is scrolled into view before its sweep, and elements found
+   * there are stamped with the container and its offset in `scrollPosition`
+   * ({@link DOMElementNode.scrollPosition}); `scrollY` stays a window-only
+   * position.
+   *
+   * Items laid out sideways — carousels, kanban boards, wide grids — need
+   * `direction` "horizontal" or "both", or, for carousels that only move
+   * when their arrow is clicked, `carouselNextSelectors`. The offsets
+   * recorded in `scrollPosition` then include `x` and any carousel clicks.
    */
   async getStateAcrossScroll(
     overrides: Partial<ScrollCollectConfig> = {}
   ): Promise<BrowserState> {
     const cfg = { ...DEFAULT_SCROLL_COLLECT_CONFIG, ...overrides };
-    const originalScrollY = await this.page.evaluate(() => window.scrollY);
 
     const pool = new Map<string, DOMElementNode>();
     let baseState: BrowserState | null = null;
 
-    const absorb = (state: BrowserState, scrollY: number) => {
+    // Returns how many elements this state shows that no earlier one did.
+    const absorb = (state: BrowserState, position: ScrollPosition): number => {
       if (!baseState) baseState = state;
+      let revealed = 0;
       for (const element of Object.values(state.elementMap)) {
-        if (element.isVisible) element.scrollY = scrollY;
+        if (!element.isVisible) continue;
+        element.scrollPosition = position;
+        if (position.container === null) element.scrollY = position.y;
+        if (!pool.get(elementPoolKey(element))?.isVisible) revealed++;
       }
       mergeElementsByXPath(pool, state.elementMap);
+      return revealed;
     };
 
-    await this.page.evaluate(
-      () => window.scrollTo({ top: 0, left: 0, behavior: "instant" })
+    const containers =
+      cfg.target === "window"
+        ? [null]
+        : this.findScrollTargets(
+            await this.updateState(),
+            cfg.target,
+            cfg.direction
+          );
+
+    const windowPosition = await this.windowScrollDriver().position();
+
+    for (const container of containers) {
+      const driver =
+        container === null
+          ? this.windowScrollDriver()
+          : await this.containerScrollDriver(container);
+      if (!driver) {
+        console.warn(
+          `Skipping scroll container ${elementPoolKey(container!)}: it could not be located`
+        );
+        continue;
+      }
+      try {
+        await this.sweep(driver, container, cfg, absorb);
+      } catch (e) {
+        // A container can be re-rendered away mid-sweep; what was collected
+        // from it so far still counts.
+        console.warn(`Scroll sweep interrupted: ${e}`);
+      }
+    }
+
+    for (const next of cfg.carouselNextSelectors) {
+      await this.advanceCarousel(next, cfg, absorb);
+    }
+
+    if (
+      containers.some((container) => container !== null) ||
+      cfg.carouselNextSelectors.length > 0
+    ) {
+      // Bringing each container or carousel into view moved the window too.
+      await this.windowScrollDriver().scrollTo(
+        windowPosition.x,
+        windowPosition.y
+      );
+    }
+
+    // The cached state now reflects the deepest scroll position visited,
+    // not the restored one — invalidate so the next real getState() call
+    // re-derives a snapshot that matches where the page actually is.
+    this.currentState = null;
+
+    const { selectorMap, elementMap } = buildIndexedMaps(pool);
+
+    return {
+      ...baseState!,
+      selectorMap,
+      elementMap,
+      // Multiple scroll positions were sampled to build this pool — no
+      // single screenshot represents all of them, so vision is disabled
+      // here rather than showing the model a partial, misleading image.
+      screenshot: "",
+      extractionReport: undefined,
+    };
+  }
+
+  /**
+   * The containers a sweep with the given target scrolls, in order; null
+   * stands for the window.
+   */
+  private findScrollTargets(
+    state: BrowserState,
+    target: string,
+    direction: ScrollDirection
+  ): Array<DOMElementNode | null> {
+    const containers: DOMElementNode[] = [];
+    const visit = (node: DOMElementNode) => {
+      if (this.scrollAxes(node, direction).length > 0) containers.push(node);
+      for (const child of node.children) {
+        if (child instanceof DOMElementNode) visit(child);
+      }
+    };
+    visit(state.elementTree);
+
+    if (target === "all") return [null, ...containers];
+
+    const container = containers.find(
+      (node) => elementPoolKey(node) === target || node.xpath === target
+    );
+    if (!container) {
+      const scrolling = {
+        vertical: "vertically scrollable",
+        horizontal: "horizontally scrollable",
+        both: "scrollable",
+      }[direction];
+      throw new Error(`No ${scrolling} container at ${target}`);
+    }
+    return [container];
+  }
+
+  /**
+   * The axes a sweep in `direction` moves along, outer first; for a
+   * container, only those it scrolls along.
+   */
+  private scrollAxes(
+    container: DOMElementNode | null,
+    direction: ScrollDirection
+  ): ScrollAxis[] {
+    const axes: ScrollAxis[] =
+      direction === "both"
+        ? ["y", "x"]
+        : direction === "horizontal"
+        ? ["x"]
+        : ["y"];
+    if (container === null) return axes;
+    return axes.filter((axis) =>
+      axis === "y"
+        ? container.scrollable?.vertical
+        : container.scrollable?.horizontal
     );
+  }
+
+  /**
+   * One sweep of a single scroll target, as described on
+   * {@link getStateAcrossScroll}: from the top left, through up to
+   * `maxContentLoadCycles` end-reaching passes along each axis — for two
+   * axes, a full inner pass at every step of the outer one — then back to
+   * where the target was scrolled before.
+   */
+  private async sweep(
+    driver: ScrollDriver,
+    container: DOMElementNode | null,
+    cfg: ScrollCollectConfig,
+    absorb: (state: BrowserState, position: ScrollPosition) => number
+  ): Promise<void> {
+    const [outer, inner] = this.scrollAxes(container, cfg.direction);
+    const containerKey = container === null ? null : elementPoolKey(container);
+    const original = await driver.position();
+
+    const snapshot = async () => {
+      const position = await driver.position();
+      absorb(await this.updateState(), {
+        container: containerKey,
+        ...position,
+      });
+    };
+    const visitRow = async () => {
+      await snapshot();
+      if (!inner) return;
+      await this.sweepAxis(driver, inner, cfg, snapshot);
+      await driver.scrollTo(0, (await driver.position()).y);
+      await this.page.waitForTimeout(cfg.settleMs);
+    };
+
+    await driver.scrollTo(0, 0);
     await this.page.waitForTimeout(cfg.settleMs);
 
-    absorb(await this.updateState(), 0);
+    await visitRow();
+    await this.sweepAxis(driver, outer, cfg, visitRow);
+
+    await driver.scrollTo(original.x, original.y);
+  }
+
+  /**
+   * Steps along one axis to its current end, calling `onStep` after every
+   * move, and repeats while reaching the end loads more content.
+   */
+  private async sweepAxis(
+    driver: ScrollDriver,
+    axis: ScrollAxis,
+    cfg: ScrollCollectConfig,
+    onStep: () => Promise<void>
+  ): Promise<void> {
+    const stepPx = axis === "y" ? cfg.scrollStepPx : cfg.scrollStepXPx;
 
     for (let cycle = 0; cycle < cfg.maxContentLoadCycles; cycle++) {
-      const scrollHeightBeforeCycle = await this.page.evaluate(
-        () => document.body.scrollHeight
-      );
+      const sizeBeforeCycle = (await driver.scrollSize())[axis];
 
       for (let step = 0; step < cfg.maxStepsPerCycle; step++) {
-        const scrollYBefore = await this.page.evaluate(() => window.scrollY);
-
-        // `behavior: "instant"` sidesteps pages that set `scroll-behavior:
-        // smooth` (common) — with smooth scrolling, the scroll animates over
-        // the following ~300-500ms, so reading scrollY back in the same
-        // evaluate call (or even right after it) would still read the
-        // pre-scroll position. Forcing instant scrolling here makes the
-        // "did we move" check below reliable regardless of page CSS.
-        await this.page.evaluate((stepPx) => {
-          window.scrollBy({
-            top: stepPx && stepPx > 0 ? stepPx : window.innerHeight,
-            left: 0,
-            behavior: "instant",
-          });
-        }, cfg.scrollStepPx);
-
+        const before = await driver.position();
+        await driver.scrollBy(axis, stepPx);
         await this.page.waitForTimeout(cfg.settleMs);
 
-        const scrollYAfter = await this.page.evaluate(() => window.scrollY);
-        if (scrollYAfter === scrollYBefore) {
-          // Couldn't scroll any further — the real bottom for whatever
+        const after = await driver.position();
+        if (after[axis] === before[axis]) {
+          // Couldn't scroll any further — the real end for whatever
           // content exists right now.
           break;
         }
 
-        absorb(await this.updateState(), scrollYAfter);
+        await onStep();
       }
 
-      const scrollHeightAfterCycle = await this.page.evaluate(
-        () => document.body.scrollHeight
-      );
+      const sizeAfterCycle = (await driver.scrollSize())[axis];
 
-      if (scrollHeightAfterCycle <= scrollHeightBeforeCycle) {
-        // Reaching the bottom didn't load anything new — genuine end of
+      if (sizeAfterCycle <= sizeBeforeCycle) {
+        // Reaching the end didn't load anything new — genuine end of
         // content, not just a slow-loading batch. Further cycles would find
         // nothing new.
         break;
       }
     }
+  }
 
-    await this.page.evaluate(
-      (y) => window.scrollTo({ top: y, left: 0, behavior: "instant" }),
-      originalScrollY
-    );
-    // The cached state now reflects the deepest scroll position visited,
-    // not the restored one — invalidate so the next real getState() call
-    // re-derives a snapshot that matches where the page actually is.
-    this.currentState = null;
+  /** Clicks through one carousel, as described on `carouselNextSelectors`. */
+  private async advanceCarousel(
+    next: string,
+    cfg: ScrollCollectConfig,
+    absorb: (state: BrowserState, position: ScrollPosition) => number
+  ): Promise<void> {
+    const control = this.page.locator(next).first();
 
-    const { selectorMap, elementMap } = buildIndexedMaps(pool);
+    for (let advances = 1; advances <= cfg.maxCarouselAdvances; advances++) {
+      try {
+        if (!(await control.isVisible()) || !(await control.isEnabled())) {
+          break;
+        }
+        await control.click();
+      } catch (e) {
+        console.warn(`Stopped advancing carousel ${next}: ${e}`);
+        break;
+      }
+      await this.page.waitForTimeout(cfg.settleMs);
+
+      const position = await this.windowScrollDriver().position();
+      const revealed = absorb(await this.updateState(), {
+        container: null,
+        ...position,
+        carousel: { next, advances },
+      });
+      if (revealed === 0) break;
+    }
+  }
 
+  // `behavior: "instant"` throughout sidesteps pages that set
+  // `scroll-behavior: smooth` (common) — with smooth scrolling, the scroll
+  // animates over the following ~300-500ms, so reading the position back in
+  // the same evaluate call (or even right after it) would still read the
+  // pre-scroll position. Forcing instant scrolling makes the "did we move"
+  // check in sweepAxis() reliable regardless of page CSS.
+  private windowScrollDriver(): ScrollDriver {
     return {
-      ...baseState!,
-      selectorMap,
-      elementMap,
-      // Multiple scroll positions were sampled to build this pool — no
-      // single screenshot represents all of them, so vision is disabled
-      // here rather than showing the model a partial, misleading image.
-      screenshot: "",
+      position: () =>
+        this.page.evaluate(() => ({ x: window.scrollX, y: window.scrollY })),
+      scrollTo: (x, y) =>
+        this.page.evaluate(
+          ([left, top]) => window.scrollTo({ top, left, behavior: "instant" }),
+          [x, y]
+        ),
+      scrollBy: (axis, stepPx) =>
+        this.page.evaluate(
+          ([axis, stepPx]) => {
+            const vertical = axis === "y";
+            const step =
+              stepPx && stepPx > 0
+                ? stepPx
+                : vertical
+                ? window.innerHeight
+                : window.innerWidth;
+            window.scrollBy({
+              top: vertical ? step : 0,
+              left: vertical ? 0 : step,
+              behavior: "instant",
+            });
+          },
+          [axis, stepPx] as const
+        ),
+      scrollSize: () =>
+        this.page.evaluate(() => ({
+          x: document.body.scrollWidth,
+          y: document.body.scrollHeight,
+        })),
+    };
+  }
+
+  private async containerScrollDriver(
+    container: DOMElementNode
+  ): Promise<ScrollDriver | null> {
+    const handle = (await this.get_locate_element(
+      container
+    )) as ElementHandle<Element> | null;
+    if (!handle) return null;
+    // Visibility is judged against the window's viewport, so a container
+    // scrolled out of it would show nothing however far it's swept.
+    await handle.scrollIntoViewIfNeeded();
+
+    return {
+      position: () =>
+        handle.evaluate((element) => ({
+          x: element.scrollLeft,
+          y: element.scrollTop,
+        })),
+      scrollTo: (x, y) =>
+        handle.evaluate(
+          (element, [left, top]) =>
+            element.scrollTo({ top, left, behavior: "instant" }),
+          [x, y]
+        ),
+      scrollBy: (axis, stepPx) =>
+        handle.evaluate(
+          (element, [axis, stepPx]) => {
+            const vertical = axis === "y";
+            const step =
+              stepPx && stepPx > 0
+                ? stepPx
+                : vertical
+                ? element.clientHeight
+                : element.clientWidth;
+            element.scrollBy({
+              top: vertical ? step : 0,
+              left: vertical ? 0 : step,
+              behavior: "instant",
+            });
+          },
+          [axis, stepPx] as const
+        ),
+      scrollSize: () =>
+        handle.evaluate((element) => ({
+          x: element.scrollWidth,
+          y: element.scrollHeight,
+        })),
     };
   }
 
@@ -273,7 +719,7 @@ export class BrowserContext {
     // mutating the pool) whether any cached entry will actually be used.
     let cacheContributed = false;
     for (const element of Object.values(cachedAsMap)) {
-      const current = pool.get(element.xpath);
+      const current = pool.get(elementPoolKey(element));
       if (!current || (!current.isVisible && element.isVisible)) {
         cacheContributed = true;
       }
@@ -355,22 +801,11 @@ export class BrowserContext {
     element: DOMElementNode
   ): Promise<ElementHandle | null> {
     let currentFrame: any = await this.get_current_page();
-    let current = element;
-    const parent: DOMElementNode[] = [];
 
-    // Build parent chain
-    while (current.parent !== null) {
-      parent.push(current.parent);
-      current = current.parent;
-    }
-    parent.reverse();
-
-    // Handle iframes
-    const iframes = parent.filter((item) => item.tagName === "iframe");
-    for (const iframe of iframes) {
-      const cssSelector = await this._enhanced_css_selector_for_element(
-        iframe,
-        this.config.includeDynamicAttributes
+    // Handle iframes: each entry is resolved inside the previous one
+    for (const frameXPath of element.framePath) {
+      const cssSelector = await this._convert_simple_xpath_to_css_selector(
+        frameXPath
       );
       currentFrame = currentFrame.frameLocator(cssSelector);
     }
@@ -385,9 +820,23 @@ export class BrowserContext {
         "frameLocator" in currentFrame &&
         typeof currentFrame.frameLocator === "function"
       ) {
-        const elementHandle = await currentFrame
-          .locator(cssSelector)
-          .elementHandle();
+        const locator = currentFrame.locator(cssSelector);
+        // A positional selector goes stale as soon as the page re-renders
+        // around the element; its role and accessible name usually don't.
+        if (
+          element.role &&
+          element.accessibleName &&
+          (await locator.count()) !== 1
+        ) {
+          const byRole = currentFrame.getByRole(element.role, {
+            name: element.accessibleName,
+            exact: true,
+          });
+          if ((await byRole.count()) === 1) {
+            return await byRole.elementHandle();
+          }
+        }
+        const elementHandle = await locator.elementHandle();
         return elementHandle;
       } else {
         // Try to scroll into view if hidden
@@ -514,14 +963,56 @@ export class BrowserContext {
     }
   }
 
+  /**
+   * Converts the simple xpaths `buildDomTreeOverlay` produces into CSS.
+   *
+   * An element inside a shadow tree has an xpath with one
+   * {@link SHADOW_ROOT_XPATH_SEPARATOR} per shadow boundary. XPath locators
+   * never pierce shadow roots, but Playwright's CSS engine does — its child
+   * and descendant combinators treat a shadow root's top-level children as
+   * children of the host — so each boundary simply becomes a combinator
+   * between the host's selector and the path inside its shadow tree.
+   */
   private async _convert_simple_xpath_to_css_selector(
     xpath: string
   ): Promise<string> {
-    // Simplified XPath to CSS conversion
-    if (xpath.startsWith("/html/body/")) {
-      return xpath.replace(/\/html\/body\//g, "").replace(/\//g, " > ");
+    const [documentPath, ...shadowPaths] = xpath.split(
+      SHADOW_ROOT_XPATH_SEPARATOR
+    );
+
+    let css = this._convert_tree_xpath_to_css(documentPath);
+    for (const shadowPath of shadowPaths) {
+      // "//" means the path was anchored at an id (or data-testid)
+      // somewhere inside the shadow tree rather than at its top level.
+      const combinator = shadowPath.startsWith("//") ? " " : " > ";
+      css += combinator + this._convert_tree_xpath_to_css(shadowPath);
     }
-    return xpath.replace(/\//g, " > ");
+    return css;
+  }
+
+  private _convert_tree_xpath_to_css(xpath: string): string {
+    // One match per location step; a quoted predicate value may itself
+    // contain "/" or "]", so steps can't just be split on "/".
+    const steps =
+      xpath.match(/[^/[\]]+(?:\[(?:"[^"]*"|[^\]"])*\])?/g) || [];
+    return steps
+      .map((step) => {
+        const bracket = step.indexOf("[");
+        if (bracket === -1) return step;
+        const tagName = step.slice(0, bracket);
+        const predicate = step.slice(bracket + 1, -1);
+        if (/^\d+$/.test(predicate)) {
+          return `${tagName}:nth-of-type(${predicate})`;
+        }
+        const attribute = predicate.match(/^@([\w:-]+)="(.*)"$/);
+        if (attribute) {
+          return `${tagName}[${attribute[1].replace(/:/g, "\\:")}="${
+            attribute[2]
+          }"]`;
+        }
+        return tagName;
+      })
+      .join(" > ");
   }
 
   // Based on _input_text_element_node from original project
@@ -556,7 +1047,15 @@ export class BrowserContext {
         try {
           await click_func();
         } catch (e) {
-          // Fallback to JavaScript click
+          // Fallback to JavaScript click. It dispatches straight to the
+          // element, so it "succeeds" even when a real user couldn't reach
+          // it — say so rather than hide it.
+          console.warn(
+            `Click on ${element_node.xpath} failed (${e}), falling back to a JavaScript click` +
+              (element_node.occludedBy
+                ? `; it was covered by ${element_node.occludedBy} when extracted`
+                : "")
+          );
           const page = await this.get_current_page();
           await page.evaluate("(el) => el.click()", element_handle);
         }
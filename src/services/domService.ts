@@ -1,4 +1,4 @@
-import { Page } from "playwright";
+import { CDPSession, Frame, Page } from "playwright";
 import {
   DOMBaseNode,
   DOMElementNode,
@@ -7,17 +7,173 @@ import {
   SelectorMap,
   ElementMap,
   ViewportInfo,
+  DOMStateChanges,
+  ElementInclusionPolicy,
+  ElementInclusionRule,
+  DEFAULT_ELEMENT_INCLUSION_POLICY,
+  ExtractionBudget,
+  ExtractionReport,
 } from "../types/dom";
-import { buildDomTreeOverlay } from "../scripts/domExtractor";
+import {
+  ExtractedNode,
+  FullExtractionPayload,
+  IncrementalExtractionPayload,
+} from "../types/extraction";
+import {
+  DomTreeOverlayArgs,
+  domTreeOverlayScript,
+  drawHighlightOverlay,
+} from "../scripts/domExtractor";
+import {
+  DomSnapshot,
+  SNAPSHOT_COMPUTED_STYLES,
+  extractFromSnapshot,
+} from "./domSnapshot";
+import { ExtractionError } from "./errors";
+import { validateExtractionPayload } from "./payloadValidation";
+
+/** How DomService reads the page; see {@link DomServiceOptions.backend}. */
+export type ExtractionBackend = "script" | "cdp-snapshot";
+
+export interface DomServiceOptions {
+  /**
+   * On Chromium, ask the DevTools protocol which elements have click-like
+   * event listeners attached, so elements made clickable purely from script
+   * (no tag, role or attribute says so) still count as interactive.
+   * Silently skipped on other browsers, and on incremental extractions.
+   * Off by default: with the "script" backend it costs a few round trips
+   * per element probed, on every extraction.
+   */
+  detectEventListeners: boolean;
+  /**
+   * Upper bound on elements probed for listeners across all frames, a few
+   * CDP calls each.
+   */
+  maxListenerProbes: number;
+  /**
+   * Keep a MutationObserver on the page and, on each extraction after the
+   * first, re-extract only the subtrees that changed since the previous one
+   * (see {@link DOMState.changes}). Requires reusing the same DomService
+   * instance between extractions. Each incremental state replaces the one
+   * before it, reusing its unchanged nodes, so only the latest state should
+   * be used.
+   */
+  incremental: boolean;
+  /**
+   * Which elements go into the element map, on top of
+   * {@link DEFAULT_ELEMENT_INCLUSION_POLICY} (fields given here replace the
+   * default's).
+   */
+  elementInclusion: Partial<ElementInclusionPolicy>;
+  /**
+   * Limits on each extraction, reported on in
+   * {@link DOMState.extractionReport}. Unlimited by default.
+   */
+  budget: ExtractionBudget;
+  /**
+   * "script" (default) runs the extraction script in each frame.
+   * "cdp-snapshot" builds the same state from a single
+   * `DOMSnapshot.captureSnapshot` over the DevTools protocol, so none of the
+   * walk runs in the page: faster on large pages, and unaffected by pages
+   * that override builtins or forbid evaluation. Chromium only (other
+   * browsers get the script), approximate where {@link extractFromSnapshot}
+   * says so, and never incremental — that needs the script's observer.
+   */
+  backend: ExtractionBackend;
+}
+
+// State threaded through the extraction of a page's frames, one after the
+// other.
+interface FrameCounters {
+  highlightIndex: number;
+  elementIndex: number;
+  startedAt: number;
+  report: ExtractionReport;
+}
+
+const DEFAULT_DOM_SERVICE_OPTIONS: DomServiceOptions = {
+  detectEventListeners: false,
+  maxListenerProbes: 3000,
+  incremental: false,
+  elementInclusion: {},
+  budget: {},
+  backend: "script",
+};
+
+// Listener types that make an element something a user can click/tap.
+const CLICK_LISTENER_TYPES = new Set([
+  "click",
+  "dblclick",
+  "mousedown",
+  "mouseup",
+  "pointerdown",
+  "pointerup",
+  "touchstart",
+  "touchend",
+]);
+
+// Tags that are interactive whatever their listeners, so never probed.
+const LISTENER_EXEMPT_TAGS = new Set([
+  "a",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "option",
+]);
+
+// How many elements' listeners are probed at once; each probe is a few CDP
+// round trips, and firing thousands together swamps the connection.
+const LISTENER_PROBE_CONCURRENCY = 20;
+
+const LISTENER_OBJECT_GROUP = "llm-dom-selector-listeners";
+
+const ELEMENT_NODE = 1;
+const DOCUMENT_NODE = 9;
+
+// The part of a CDP `DOM.Node` the listener probe walks.
+interface ListenerProbeNode {
+  nodeType: number;
+  localName: string;
+  backendNodeId: number;
+  shadowRootType?: string;
+  children?: ListenerProbeNode[];
+  shadowRoots?: ListenerProbeNode[];
+  contentDocument?: ListenerProbeNode;
+}
 
 export class DomService {
   private page: Page;
+  private options: DomServiceOptions;
   private xpathCache: Record<string, any> = {};
-  private jsCode: any;
+  private frameIdCounter = 0;
+  // The last state produced, which an incremental extraction builds on.
+  private previousState: DOMState | null = null;
+  private inclusionPolicy: ElementInclusionPolicy;
 
-  constructor(page: Page) {
+  constructor(page: Page, options: Partial<DomServiceOptions> = {}) {
     this.page = page;
-    this.jsCode = buildDomTreeOverlay;
+    this.options = { ...DEFAULT_DOM_SERVICE_OPTIONS, ...options };
+    this.inclusionPolicy = {
+      ...DEFAULT_ELEMENT_INCLUSION_POLICY,
+      ...this.options.elementInclusion,
+    };
+    this.validateInclusionRules(this.inclusionPolicy.rules);
+  }
+
+  // Rule patterns are only compiled inside the page, where a bad one would
+  // surface as an opaque evaluation failure on every extraction.
+  private validateInclusionRules(rules: ElementInclusionRule[]): void {
+    for (const rule of rules) {
+      for (const pattern of [rule.attributeValue, rule.textPattern]) {
+        if (pattern === undefined) continue;
+        try {
+          new RegExp(pattern);
+        } catch (e) {
+          throw new Error(`Invalid element inclusion rule pattern: ${e}`);
+        }
+      }
+    }
   }
 
   async getClickableElements(
@@ -25,56 +181,790 @@ export class DomService {
     focusElement: number = -1,
     viewportExpansion: number = 0
   ): Promise<DOMState> {
-    const [elementTree, selectorMap, elementMap] = await this.buildDomTree(
-      highlightElements,
-      focusElement,
-      viewportExpansion
-    );
-    return new DOMState(elementTree, selectorMap, elementMap);
+    // Changes inside child frames aren't observed from the top-level
+    // document, so a page with frames always gets a full extraction — as
+    // does one whose last extraction was cut short, since building on it
+    // would keep whatever it left out missing.
+    const incrementalBase =
+      this.options.incremental &&
+      this.page.frames().length === 1 &&
+      !this.previousState?.extractionReport?.truncated
+        ? this.previousState
+        : null;
+
+    const [elementTree, selectorMap, elementMap, changes, report] =
+      await this.buildDomTree(viewportExpansion, incrementalBase);
+    if (highlightElements) {
+      await this.drawHighlights(selectorMap, focusElement);
+    }
+    const state = new DOMState(elementTree, selectorMap, elementMap);
+    state.changes = changes;
+    state.extractionReport = report;
+
+    if (this.options.incremental) this.previousState = state;
+    return state;
   }
 
   private async buildDomTree(
-    highlightElements: boolean,
-    focusElement: number,
-    viewportExpansion: number
-  ): Promise<[DOMElementNode, SelectorMap, ElementMap]> {
+    viewportExpansion: number,
+    incrementalBase: DOMState | null = null
+  ): Promise<
+    [
+      DOMElementNode,
+      SelectorMap,
+      ElementMap,
+      DOMStateChanges | null,
+      ExtractionReport,
+    ]
+  > {
+    if (this.options.backend === "cdp-snapshot") {
+      const fromSnapshot = await this.buildFromSnapshot(viewportExpansion);
+      if (fromSnapshot) return fromSnapshot;
+    }
+
     if ((await this.page.evaluate("1+1")) !== 2) {
       throw new Error("The page cannot evaluate JavaScript code properly");
     }
 
     const debugMode = false;
     const args = {
-      doHighlightElements: highlightElements,
-      focusHighlightIndex: focusElement,
       viewportExpansion: viewportExpansion,
       debugMode: debugMode,
+      trackMutations: this.options.incremental,
+      inclusionPolicy: this.inclusionPolicy,
+    };
+
+    // Probing costs round trips per element of the whole document, which an
+    // incremental update exists to avoid. The tags from the last full
+    // extraction stay on their elements, so only elements added since go
+    // unprobed until the next full one.
+    if (this.options.detectEventListeners && !incrementalBase) {
+      await this.markElementsWithClickListeners();
+    }
+
+    if (incrementalBase) {
+      let evalPage;
+      try {
+        evalPage = await this.page.evaluate(
+          domTreeOverlayScript({
+            ...args,
+            budget: this.options.budget,
+            incremental: true,
+          })
+        );
+      } catch (e) {
+        console.error("Error evaluating JavaScript:", e);
+        throw e;
+      }
+      evalPage = validateExtractionPayload(evalPage);
+
+      if (evalPage.mode === "full") {
+        // The page couldn't limit itself to what changed and has already
+        // walked everything — use that walk rather than repeating it.
+        const [elementTree, selectorMap, elementMap] =
+          await this.constructDomTree(evalPage);
+        return [elementTree, selectorMap, elementMap, null, evalPage.report];
+      }
+
+      const updated = this.applyIncrementalExtraction(
+        incrementalBase,
+        evalPage
+      );
+      if (updated) return [...updated, evalPage.report];
+    }
+
+    const counters = this.newFrameCounters();
+    const [elementTree, selectorMap, elementMap] = await this.buildFrameTree(
+      this.page.mainFrame(),
+      [],
+      args,
+      this.options.budget,
+      counters
+    );
+    counters.report.elapsedMs = Date.now() - counters.startedAt;
+    return [elementTree, selectorMap, elementMap, null, counters.report];
+  }
+
+  private newFrameCounters(): FrameCounters {
+    return {
+      highlightIndex: 0,
+      elementIndex: 0,
+      startedAt: Date.now(),
+      report: {
+        truncated: false,
+        elementsExtracted: 0,
+        elementsOnPage: 0,
+        skippedForNodeLimit: 0,
+        skippedForDepth: 0,
+        skippedForTime: 0,
+        skippedOffscreen: 0,
+        truncatedTexts: 0,
+        elapsedMs: 0,
+      },
+    };
+  }
+
+  /**
+   * The "cdp-snapshot" backend: one snapshot of the page over CDP, turned
+   * into the same payloads the script returns, one per document. Returns
+   * null (the caller runs the script instead) where there's no CDP, or the
+   * snapshot can't be captured.
+   */
+  private async buildFromSnapshot(
+    viewportExpansion: number
+  ): Promise<
+    [DOMElementNode, SelectorMap, ElementMap, null, ExtractionReport] | null
+  > {
+    const browserName = this.page.context().browser()?.browserType().name();
+    if (browserName && browserName !== "chromium") return null;
+
+    let session;
+    try {
+      session = await this.page.context().newCDPSession(this.page);
+    } catch (e) {
+      return null;
+    }
+
+    const counters = this.newFrameCounters();
+    let snapshot: DomSnapshot;
+    let viewport: ViewportInfo;
+    try {
+      const [captured, metrics] = await Promise.all([
+        session.send("DOMSnapshot.captureSnapshot", {
+          computedStyles: [...SNAPSHOT_COMPUTED_STYLES],
+          includePaintOrder: true,
+          includeDOMRects: true,
+        }),
+        session.send("Page.getLayoutMetrics"),
+      ]);
+      snapshot = captured;
+      const layoutViewport = metrics.cssLayoutViewport;
+      viewport = {
+        width: layoutViewport.clientWidth,
+        height: layoutViewport.clientHeight,
+        scrollX: layoutViewport.pageX,
+        scrollY: layoutViewport.pageY,
+        // The deprecated layoutViewport is the same one in device pixels.
+        devicePixelRatio:
+          metrics.layoutViewport.clientWidth / layoutViewport.clientWidth || 1,
+      };
+    } catch (e) {
+      console.warn(`Skipping the DOM snapshot: ${e}`);
+      return null;
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+
+    const [elementTree, selectorMap, elementMap] =
+      await this.buildSnapshotDocumentTree(
+        snapshot,
+        0,
+        [],
+        viewport,
+        viewportExpansion,
+        this.options.budget,
+        counters
+      );
+    counters.report.elapsedMs = Date.now() - counters.startedAt;
+    return [elementTree, selectorMap, elementMap, null, counters.report];
+  }
+
+  /**
+   * Draws the numbered boxes for `selectorMap` over the page. Every backend
+   * and mode ends here, with the final indices and top-level coordinates.
+   */
+  private async drawHighlights(
+    selectorMap: SelectorMap,
+    focusElement: number
+  ): Promise<void> {
+    try {
+      await this.page.evaluate(drawHighlightOverlay, {
+        highlights: Object.values(selectorMap)
+          .filter((node) => node.viewportCoordinates !== null)
+          .map((node) => ({
+            index: node.highlightIndex!,
+            ...node.viewportCoordinates!,
+          })),
+        focusHighlightIndex: focusElement,
+      });
+    } catch (e) {
+      // The overlay is only a visual aid; the state stands without it.
+      console.warn(`Skipping highlight overlay: ${e}`);
+    }
+  }
+
+  /**
+   * Builds one snapshot document's tree and, recursively, those of the
+   * frames in it — {@link buildFrameTree}, reading from the snapshot.
+   */
+  private async buildSnapshotDocumentTree(
+    snapshot: DomSnapshot,
+    documentIndex: number,
+    framePath: string[],
+    viewport: ViewportInfo,
+    viewportExpansion: number,
+    budget: ExtractionBudget,
+    counters: FrameCounters
+  ): Promise<[DOMElementNode, SelectorMap, ElementMap]> {
+    const { payload, frames } = extractFromSnapshot(snapshot, documentIndex, {
+      viewport,
+      viewportExpansion,
+      inclusionPolicy: this.inclusionPolicy,
+      budget,
+      detectEventListeners: this.options.detectEventListeners,
+      highlightIndexOffset: counters.highlightIndex,
+      elementIndexOffset: counters.elementIndex,
+    });
+    validateExtractionPayload(payload);
+    counters.highlightIndex = payload.nextHighlightIndex;
+    counters.elementIndex = payload.nextElementIndex;
+    this.mergeReport(counters.report, payload.report);
+
+    const [elementTree, selectorMap, elementMap, frameOwners] =
+      await this.constructDomTree(payload, framePath);
+    const frameContentOffsets = this.frameContentOffsets(payload);
+
+    for (const [frameId, owner] of frameOwners) {
+      const frame = frames.get(frameId);
+      if (!frame) continue;
+
+      const remaining = this.remainingBudget(counters);
+      if (typeof remaining === "string") {
+        counters.report[remaining]++;
+        counters.report.truncated = true;
+        continue;
+      }
+
+      const [childTree, childSelectorMap, childElementMap] =
+        await this.buildSnapshotDocumentTree(
+          snapshot,
+          frame.documentIndex,
+          [...framePath, owner.xpath],
+          frame.viewport,
+          viewportExpansion,
+          remaining,
+          counters
+        );
+      this.translateFrameCoordinates(
+        childTree,
+        owner,
+        frameContentOffsets.get(frameId) ?? { x: 0, y: 0 }
+      );
+      childTree.parent = owner;
+      owner.children.push(childTree);
+      Object.assign(selectorMap, childSelectorMap);
+      Object.assign(elementMap, childElementMap);
+    }
+
+    return [elementTree, selectorMap, elementMap];
+  }
+
+  /**
+   * What's left of the configured budget for the next frame, or the reason
+   * there is nothing left.
+   */
+  private remainingBudget(
+    counters: FrameCounters
+  ): ExtractionBudget | "skippedForNodeLimit" | "skippedForTime" {
+    const { maxNodes, timeLimitMs } = this.options.budget;
+    const budget: ExtractionBudget = { ...this.options.budget };
+
+    if (maxNodes !== undefined) {
+      budget.maxNodes = maxNodes - counters.report.elementsExtracted;
+      if (budget.maxNodes <= 0) return "skippedForNodeLimit";
+    }
+    if (timeLimitMs !== undefined) {
+      budget.timeLimitMs = timeLimitMs - (Date.now() - counters.startedAt);
+      if (budget.timeLimitMs <= 0) return "skippedForTime";
+    }
+    return budget;
+  }
+
+  private mergeReport(into: ExtractionReport, from: ExtractionReport): void {
+    into.truncated ||= from.truncated;
+    into.elementsExtracted += from.elementsExtracted;
+    into.elementsOnPage += from.elementsOnPage;
+    into.skippedForNodeLimit += from.skippedForNodeLimit;
+    into.skippedForDepth += from.skippedForDepth;
+    into.skippedForTime += from.skippedForTime;
+    into.skippedOffscreen += from.skippedOffscreen;
+    into.truncatedTexts += from.truncatedTexts;
+  }
+
+  /**
+   * Splices freshly extracted subtrees into the previous tree in place of
+   * the subtrees they replace, then renumbers the whole tree.
+   *
+   * Everything outside the changed subtrees is reused as-is — the same
+   * `DOMElementNode` instances, with geometry and visibility as of when they
+   * were last extracted — which is what makes this cheap, and also why the
+   * page script insists on a full walk after any scroll or resize. The new
+   * state replaces the previous one: its tree is updated in place, so the
+   * previous state should not be used afterwards. Returns null (the caller
+   * falls back to a full extraction), with the previous tree untouched,
+   * when a changed subtree can't be placed in it.
+   */
+  private applyIncrementalExtraction(
+    previous: DOMState,
+    evalPage: Pick<
+      IncrementalExtractionPayload,
+      "mode" | "rootIds" | "rootXPaths" | "map"
+    >
+  ): [DOMElementNode, SelectorMap, ElementMap, DOMStateChanges] | null {
+    const { nodeMap } = this.parseNodeMap(evalPage, []);
+
+    const previousByXPath = new Map<string, DOMElementNode>();
+    this.forEachElement(previous.elementTree, (node) => {
+      if (!previousByXPath.has(node.xpath)) previousByXPath.set(node.xpath, node);
+    });
+
+    const replacements: Array<[DOMElementNode, DOMElementNode]> = [];
+    for (let i = 0; i < evalPage.rootIds.length; i++) {
+      const replacement = nodeMap[evalPage.rootIds[i]];
+      const replaced = previousByXPath.get(evalPage.rootXPaths[i]);
+      if (
+        !(replacement instanceof DOMElementNode) ||
+        !replaced ||
+        !replaced.parent
+      ) {
+        return null;
+      }
+      replacements.push([replaced, replacement]);
+    }
+
+    const changes: DOMStateChanges = {
+      incremental: true,
+      added: [],
+      removed: [],
+      modified: [],
+    };
+    for (const [replaced, replacement] of replacements) {
+      this.collectSubtreeChanges(replaced, replacement, changes);
+
+      const siblings = replaced.parent!.children;
+      siblings[siblings.indexOf(replaced)] = replacement;
+      replacement.parent = replaced.parent;
+    }
+
+    // Indices are assigned in document order, exactly as the page script
+    // assigns them during a full walk.
+    const selectorMap: SelectorMap = {};
+    const elementMap: ElementMap = {};
+    let highlightIndex = 0;
+    let elementIndex = 0;
+    this.forEachElement(previous.elementTree, (node) => {
+      if (node.isVisible && node.isInteractive) {
+        node.highlightIndex = highlightIndex;
+        selectorMap[highlightIndex++] = node;
+      } else {
+        node.highlightIndex = null;
+      }
+      if (node.elementIndex !== null) {
+        node.elementIndex = elementIndex;
+        elementMap[elementIndex++] = node;
+      }
+    });
+
+    return [previous.elementTree, selectorMap, elementMap, changes];
+  }
+
+  /**
+   * Compares a replaced subtree with its replacement, matching elements by
+   * xpath.
+   */
+  private collectSubtreeChanges(
+    replaced: DOMElementNode,
+    replacement: DOMElementNode,
+    changes: DOMStateChanges
+  ): void {
+    const before = new Map<string, DOMElementNode>();
+    this.forEachElement(replaced, (node) => before.set(node.xpath, node));
+
+    const seen = new Set<string>();
+    this.forEachElement(replacement, (node) => {
+      seen.add(node.xpath);
+      const previous = before.get(node.xpath);
+      if (!previous) {
+        changes.added.push(node);
+      } else if (this.nodeSignature(previous) !== this.nodeSignature(node)) {
+        changes.modified.push(node);
+      }
+    });
+
+    for (const [xpath, node] of before) {
+      if (!seen.has(xpath)) changes.removed.push(node);
+    }
+  }
+
+  // What makes an element "modified": its own markup, own text and state —
+  // not its descendants, which are compared on their own.
+  private nodeSignature(node: DOMElementNode): string {
+    const ownText = node.children
+      .filter((child): child is DOMTextNode => child instanceof DOMTextNode)
+      .map((child) => child.text)
+      .join(" ");
+    return JSON.stringify([
+      node.tagName,
+      node.attributes,
+      ownText,
+      node.isVisible,
+      node.visibility,
+      node.isInteractive,
+      node.formState,
+    ]);
+  }
+
+  private forEachElement(
+    root: DOMElementNode,
+    visit: (node: DOMElementNode) => void
+  ): void {
+    visit(root);
+    for (const child of root.children) {
+      if (child instanceof DOMElementNode) this.forEachElement(child, visit);
+    }
+  }
+
+  /**
+   * Tags every element that has a click-like listener with the listener
+   * types (`__llmDomSelectorListeners`), which the extraction script reports
+   * as interactivity reasons. Covers shadow roots and every frame: one CDP
+   * session reaches the main frame and the frames rendered in its process,
+   * and each out-of-process frame gets a session of its own.
+   *
+   * `getEventListeners` is only reachable over CDP, so this is Chromium-only
+   * and best-effort: any failure just leaves the script's other signals to
+   * decide. Elements whose tag already makes them interactive aren't
+   * probed — it costs round trips per element, so at most
+   * `maxListenerProbes` are, a batch at a time.
+   */
+  private async markElementsWithClickListeners(): Promise<void> {
+    const browserName = this.page.context().browser()?.browserType().name();
+    if (browserName && browserName !== "chromium") return;
+
+    const probes = { remaining: this.options.maxListenerProbes };
+    for (const frame of this.page.frames()) {
+      let session: CDPSession;
+      try {
+        session = await this.page
+          .context()
+          .newCDPSession(frame === this.page.mainFrame() ? this.page : frame);
+      } catch (e) {
+        // Not out of process: its document is reached through its parent's.
+        continue;
+      }
+
+      try {
+        await this.probeClickListeners(session, probes);
+      } catch (e) {
+        console.warn(`Skipping event listener detection: ${e}`);
+      } finally {
+        await session
+          .send("Runtime.releaseObjectGroup", {
+            objectGroup: LISTENER_OBJECT_GROUP,
+          })
+          .catch(() => undefined);
+        await session.detach().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * {@link markElementsWithClickListeners} over the documents one session
+   * reaches, taking its probes from the shared `probes` allowance.
+   */
+  private async probeClickListeners(
+    session: CDPSession,
+    probes: { remaining: number }
+  ): Promise<void> {
+    const { root } = await session.send("DOM.getDocument", {
+      depth: -1,
+      pierce: true,
+    });
+
+    // Documents and shadow roots, whose stale tags are cleared first, and
+    // the elements under each document's body, in document order.
+    const roots: number[] = [];
+    const candidates: number[] = [];
+    const visit = (node: ListenerProbeNode, inBody: boolean) => {
+      if (node.nodeType === DOCUMENT_NODE || node.shadowRootType) {
+        roots.push(node.backendNodeId);
+      }
+      if (node.nodeType === ELEMENT_NODE) {
+        if (inBody && !LISTENER_EXEMPT_TAGS.has(node.localName)) {
+          candidates.push(node.backendNodeId);
+        }
+        inBody = inBody || node.localName === "body";
+      }
+      node.shadowRoots?.forEach((shadowRoot) => visit(shadowRoot, inBody));
+      node.children?.forEach((child) => visit(child, inBody));
+      if (node.contentDocument) visit(node.contentDocument, false);
     };
+    visit(root, false);
+
+    for (const backendNodeId of roots) {
+      await this.callOnNode(
+        session,
+        backendNodeId,
+        `function () {
+          for (const element of this.querySelectorAll("*")) {
+            delete element.__llmDomSelectorListeners;
+          }
+        }`
+      );
+    }
+
+    const probed = candidates.slice(0, Math.max(probes.remaining, 0));
+    probes.remaining -= probed.length;
+    for (let i = 0; i < probed.length; i += LISTENER_PROBE_CONCURRENCY) {
+      await Promise.all(
+        probed
+          .slice(i, i + LISTENER_PROBE_CONCURRENCY)
+          .map(async (backendNodeId) => {
+            const { object } = await session.send("DOM.resolveNode", {
+              backendNodeId,
+              objectGroup: LISTENER_OBJECT_GROUP,
+            });
+            if (!object.objectId) return;
+
+            const { listeners } = await session.send(
+              "DOMDebugger.getEventListeners",
+              { objectId: object.objectId }
+            );
+            const types = [
+              ...new Set(
+                listeners
+                  .map((listener) => listener.type)
+                  .filter((type) => CLICK_LISTENER_TYPES.has(type))
+              ),
+            ];
+            if (types.length === 0) return;
+
+            await session.send("Runtime.callFunctionOn", {
+              objectId: object.objectId,
+              functionDeclaration:
+                "function (types) { this.__llmDomSelectorListeners = types; }",
+              arguments: [{ value: types }],
+            });
+          })
+      );
+    }
+  }
+
+  // Runs `functionDeclaration` with a DOM node as `this`, in the node's own
+  // frame.
+  private async callOnNode(
+    session: CDPSession,
+    backendNodeId: number,
+    functionDeclaration: string
+  ): Promise<void> {
+    const { object } = await session.send("DOM.resolveNode", {
+      backendNodeId,
+      objectGroup: LISTENER_OBJECT_GROUP,
+    });
+    if (!object.objectId) return;
+    await session.send("Runtime.callFunctionOn", {
+      objectId: object.objectId,
+      functionDeclaration,
+    });
+  }
+
+  /**
+   * Extracts one frame and, recursively, every frame nested in it.
+   *
+   * A frame's document is never reachable by walking the parent document's
+   * nodes (and a cross-origin one isn't reachable from its script at all),
+   * so each frame gets its own extraction run through Playwright, which can
+   * evaluate in any frame. The child's tree is then grafted under the
+   * `iframe` node that owns it, and `counters` carries the index counters
+   * from one run to the next so indices stay unique across frames.
+   */
+  private async buildFrameTree(
+    frame: Frame,
+    framePath: string[],
+    args: DomTreeOverlayArgs,
+    budget: ExtractionBudget,
+    counters: FrameCounters
+  ): Promise<[DOMElementNode, SelectorMap, ElementMap]> {
+    // Tag each child frame's owning element so the extraction below can
+    // report which node hosts which frame.
+    const childFrames = new Map<string, Frame>();
+    for (const childFrame of frame.childFrames()) {
+      const frameId = `frame_${this.frameIdCounter++}`;
+      try {
+        const owner = await childFrame.frameElement();
+        await owner.evaluate((element, id) => {
+          (element as any).__llmDomSelectorFrameId = id;
+        }, frameId);
+        await owner.dispose();
+        childFrames.set(frameId, childFrame);
+      } catch (e) {
+        // Detached between listing and tagging — nothing left to extract.
+        continue;
+      }
+    }
 
     let evalPage;
     try {
-      evalPage = await this.page.evaluate(this.jsCode, args);
+      evalPage = await frame.evaluate(
+        domTreeOverlayScript({
+          ...args,
+          budget,
+          highlightIndexOffset: counters.highlightIndex,
+          elementIndexOffset: counters.elementIndex,
+        })
+      );
     } catch (e) {
       console.error("Error evaluating JavaScript:", e);
       throw e;
     }
+    evalPage = validateExtractionPayload(evalPage);
+    if (evalPage.mode !== "full") {
+      throw new ExtractionError(
+        `payload.mode: expected "full", got "${evalPage.mode}"`,
+        "payload.mode"
+      );
+    }
+    counters.highlightIndex = evalPage.nextHighlightIndex;
+    counters.elementIndex = evalPage.nextElementIndex;
+    this.mergeReport(counters.report, evalPage.report);
 
-    return this.constructDomTree(evalPage);
+    const [elementTree, selectorMap, elementMap, frameOwners] =
+      await this.constructDomTree(evalPage, framePath);
+    const frameContentOffsets = this.frameContentOffsets(evalPage);
+
+    for (const [frameId, owner] of frameOwners) {
+      const childFrame = childFrames.get(frameId);
+      if (!childFrame) continue;
+
+      const budget = this.remainingBudget(counters);
+      if (typeof budget === "string") {
+        counters.report[budget]++;
+        counters.report.truncated = true;
+        continue;
+      }
+
+      try {
+        const [childTree, childSelectorMap, childElementMap] =
+          await this.buildFrameTree(
+            childFrame,
+            [...framePath, owner.xpath],
+            args,
+            budget,
+            counters
+          );
+        this.translateFrameCoordinates(
+          childTree,
+          owner,
+          frameContentOffsets.get(frameId) ?? { x: 0, y: 0 }
+        );
+        childTree.parent = owner;
+        owner.children.push(childTree);
+        Object.assign(selectorMap, childSelectorMap);
+        Object.assign(elementMap, childElementMap);
+      } catch (e) {
+        // One broken frame (navigating away, crashed, blocked) shouldn't
+        // cost the caller the rest of the page.
+        console.warn(`Skipping frame ${childFrame.url()}: ${e}`);
+      }
+    }
+
+    return [elementTree, selectorMap, elementMap];
+  }
+
+  private frameContentOffsets(
+    evalPage: Pick<FullExtractionPayload, "map">
+  ): Map<string, { x: number; y: number }> {
+    const offsets = new Map<string, { x: number; y: number }>();
+    for (const nodeData of Object.values(evalPage.map)) {
+      if (
+        nodeData.type === "ELEMENT_NODE" &&
+        nodeData.frameId &&
+        nodeData.frameContentOffset
+      ) {
+        offsets.set(nodeData.frameId, nodeData.frameContentOffset);
+      }
+    }
+    return offsets;
+  }
+
+  /**
+   * Moves a child frame's boxes from its own viewport into the owning
+   * frame's, so every `viewportCoordinates` in the final tree is relative to
+   * the top-level viewport (applied once per nesting level as the recursion
+   * unwinds) and `pageCoordinates` to the top-level document.
+   */
+  private translateFrameCoordinates(
+    childTree: DOMElementNode,
+    owner: DOMElementNode,
+    contentOffset: { x: number; y: number }
+  ): void {
+    const ownerBox = owner.viewportCoordinates;
+    if (!ownerBox) return;
+
+    const dx = ownerBox.x + contentOffset.x;
+    const dy = ownerBox.y + contentOffset.y;
+    const ownerScrollX = owner.viewportInfo?.scrollX ?? 0;
+    const ownerScrollY = owner.viewportInfo?.scrollY ?? 0;
+
+    const translate = (node: DOMBaseNode): void => {
+      if (!(node instanceof DOMElementNode)) return;
+      const box = node.viewportCoordinates;
+      if (box) {
+        node.viewportCoordinates = { ...box, x: box.x + dx, y: box.y + dy };
+        node.pageCoordinates = {
+          ...node.viewportCoordinates,
+          x: node.viewportCoordinates.x + ownerScrollX,
+          y: node.viewportCoordinates.y + ownerScrollY,
+        };
+      }
+      node.children.forEach(translate);
+    };
+    translate(childTree);
   }
 
   private async constructDomTree(
-    evalPage: any
-  ): Promise<[DOMElementNode, SelectorMap, ElementMap]> {
+    evalPage: Pick<FullExtractionPayload, "rootId" | "map">,
+    framePath: string[] = []
+  ): Promise<
+    [DOMElementNode, SelectorMap, ElementMap, Map<string, DOMElementNode>]
+  > {
+    const { nodeMap, selectorMap, elementMap, frameOwners } =
+      this.parseNodeMap(evalPage, framePath);
+
+    const htmlToDict = nodeMap[evalPage.rootId];
+
+    if (!htmlToDict || !(htmlToDict instanceof DOMElementNode)) {
+      throw new Error("Failed to parse HTML to dictionary");
+    }
+
+    return [htmlToDict, selectorMap, elementMap, frameOwners];
+  }
+
+  private parseNodeMap(
+    evalPage: Pick<FullExtractionPayload, "map">,
+    framePath: string[]
+  ): {
+    nodeMap: Record<string, DOMBaseNode>;
+    selectorMap: SelectorMap;
+    elementMap: ElementMap;
+    frameOwners: Map<string, DOMElementNode>;
+  } {
     const jsNodeMap = evalPage.map;
-    const jsRootId = evalPage.rootId;
 
     const selectorMap: SelectorMap = {}; // Interactive elements only
     const elementMap: ElementMap = {}; // ALL elements
     const nodeMap: Record<string, DOMBaseNode> = {};
+    // frameId -> the iframe/frame node that owns that child frame
+    const frameOwners = new Map<string, DOMElementNode>();
 
     for (const [id, nodeData] of Object.entries(jsNodeMap)) {
-      const [node, childrenIds] = this.parseNode(nodeData);
+      const [node, childrenIds] = this.parseNode(nodeData, framePath);
       if (!node) continue;
 
+      if (nodeData.type === "ELEMENT_NODE" && nodeData.frameId) {
+        frameOwners.set(nodeData.frameId, node as DOMElementNode);
+      }
+
       nodeMap[id] = node;
 
       // Add to selectorMap if interactive (has highlightIndex)
@@ -98,48 +988,58 @@ export class DomService {
       }
     }
 
-    const htmlToDict = nodeMap[jsRootId];
-
-    if (!htmlToDict || !(htmlToDict instanceof DOMElementNode)) {
-      throw new Error("Failed to parse HTML to dictionary");
-    }
-
-    return [htmlToDict, selectorMap, elementMap];
+    return { nodeMap, selectorMap, elementMap, frameOwners };
   }
 
-  private parseNode(nodeData: any): [DOMBaseNode | null, number[]] {
-    if (!nodeData) return [null, []];
-
+  private parseNode(
+    nodeData: ExtractedNode,
+    framePath: string[] = []
+  ): [DOMBaseNode | null, string[]] {
     if (nodeData.type === "TEXT_NODE") {
       const textNode = new DOMTextNode(nodeData.text, nodeData.isVisible, null);
       return [textNode, []];
     }
 
-    const viewportInfo = nodeData.viewport
-      ? ({
-          height: nodeData.viewport.width,
-          width: nodeData.viewport.height,
-        } as ViewportInfo)
-      : null;
+    const viewportInfo: ViewportInfo = {
+      width: nodeData.viewport.width,
+      height: nodeData.viewport.height,
+      scrollX: nodeData.viewport.scrollX,
+      scrollY: nodeData.viewport.scrollY,
+      devicePixelRatio: nodeData.viewport.devicePixelRatio,
+    };
 
     const elementNode = new DOMElementNode(
       nodeData.tagName,
       nodeData.xpath,
-      nodeData.attributes || {},
+      nodeData.attributes,
       [],
-      nodeData.isVisible || false,
+      nodeData.isVisible,
       null
     );
 
     // Set additional properties after initialization
-    elementNode.isInteractive = nodeData.isInteractive || false;
-    elementNode.isTopElement = nodeData.isTopElement || false;
-    elementNode.isInViewport = nodeData.isInViewport || false;
-    elementNode.shadowRoot = nodeData.shadowRoot || false;
-    elementNode.highlightIndex = nodeData.highlightIndex ?? null; // Interactive only
-    elementNode.elementIndex = nodeData.elementIndex ?? null; // ALL elements
+    elementNode.visibility = nodeData.visibility;
+    elementNode.isInteractive = nodeData.isInteractive;
+    elementNode.interactiveReasons = nodeData.interactiveReasons;
+    elementNode.isTopElement = nodeData.isTopElement;
+    elementNode.occludedBy = nodeData.occludedBy;
+    elementNode.role = nodeData.role;
+    elementNode.accessibleName = nodeData.accessibleName;
+    elementNode.accessibleDescription = nodeData.accessibleDescription;
+    elementNode.formState = nodeData.formState;
+    elementNode.scrollable = nodeData.scrollable;
+    elementNode.absoluteXPath = nodeData.absoluteXPath;
+    elementNode.semanticXPath = nodeData.semanticXPath;
+    elementNode.isInViewport = nodeData.isInViewport;
+    elementNode.shadowRoot = nodeData.shadowRoot;
+    elementNode.inShadowRoot = nodeData.inShadowRoot;
+    elementNode.highlightIndex = nodeData.highlightIndex; // Interactive only
+    elementNode.elementIndex = nodeData.elementIndex; // ALL elements
     elementNode.viewportInfo = viewportInfo;
-    const childrenIds = nodeData.children || [];
+    elementNode.viewportCoordinates = nodeData.viewportCoordinates;
+    elementNode.pageCoordinates = nodeData.pageCoordinates;
+    elementNode.framePath = framePath;
+    const childrenIds = nodeData.children;
 
     return [elementNode, childrenIds];
   }
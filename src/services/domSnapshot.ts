@@ -0,0 +1,1149 @@
+import {
+  ElementInclusionPolicy,
+  ExtractionBudget,
+  ExtractionReport,
+  ViewportInfo,
+} from "../types/dom";
+import {
+  EXTRACTION_PAYLOAD_VERSION,
+  ExtractedElementNode,
+  ExtractedNode,
+  FullExtractionPayload,
+} from "../types/extraction";
+import {
+  ClipRegion,
+  ExtractionDom,
+  ExtractionRules,
+  RuleRect,
+  ScrollMetrics,
+  createExtractionRules,
+} from "../scripts/extractionRules";
+
+// The parts of CDP's `DOMSnapshot.captureSnapshot` result read here. Tables
+// are column-wise, indexed by node (or layout node); strings are indices
+// into the shared `strings` table, -1 for none.
+
+interface RareStringData {
+  index: number[];
+  value: number[];
+}
+
+interface RareBooleanData {
+  index: number[];
+}
+
+interface RareIntegerData {
+  index: number[];
+  value: number[];
+}
+
+export interface DocumentSnapshot {
+  nodes: {
+    parentIndex?: number[];
+    nodeType?: number[];
+    shadowRootType?: RareStringData;
+    nodeName?: number[];
+    nodeValue?: number[];
+    attributes?: number[][];
+    textValue?: RareStringData;
+    inputValue?: RareStringData;
+    inputChecked?: RareBooleanData;
+    optionSelected?: RareBooleanData;
+    contentDocumentIndex?: RareIntegerData;
+    pseudoType?: RareStringData;
+    isClickable?: RareBooleanData;
+  };
+  layout: {
+    nodeIndex: number[];
+    styles: number[][];
+    bounds: number[][];
+    text: number[];
+    paintOrders?: number[];
+    scrollRects?: number[][];
+    clientRects?: number[][];
+  };
+  scrollOffsetX?: number;
+  scrollOffsetY?: number;
+}
+
+export interface DomSnapshot {
+  documents: DocumentSnapshot[];
+  strings: string[];
+}
+
+/**
+ * The computed styles to ask `DOMSnapshot.captureSnapshot` for, in the
+ * order {@link extractFromSnapshot} reads them.
+ */
+export const SNAPSHOT_COMPUTED_STYLES = [
+  "display",
+  "visibility",
+  "opacity",
+  "overflow-x",
+  "overflow-y",
+  "position",
+  "cursor",
+  "text-transform",
+  "clip",
+  "clip-path",
+  "pointer-events",
+  "padding-left",
+  "padding-top",
+  "padding-right",
+  "padding-bottom",
+] as const;
+
+type StyleProperty = (typeof SNAPSHOT_COMPUTED_STYLES)[number];
+
+// Inherited properties, which an element without a layout object (and so
+// without styles in the snapshot) takes from its nearest rendered ancestor.
+const INHERITED_STYLES = new Set<StyleProperty>([
+  "visibility",
+  "cursor",
+  "text-transform",
+  "pointer-events",
+]);
+
+const INITIAL_STYLES: Record<StyleProperty, string> = {
+  display: "",
+  visibility: "visible",
+  opacity: "1",
+  "overflow-x": "visible",
+  "overflow-y": "visible",
+  position: "static",
+  cursor: "auto",
+  "text-transform": "none",
+  clip: "auto",
+  "clip-path": "none",
+  "pointer-events": "auto",
+  "padding-left": "0px",
+  "padding-top": "0px",
+  "padding-right": "0px",
+  "padding-bottom": "0px",
+};
+
+export interface SnapshotExtractionOptions {
+  /** The document's own viewport (for a frame, the frame's). */
+  viewport: ViewportInfo;
+  viewportExpansion: number;
+  inclusionPolicy: ElementInclusionPolicy;
+  /** Limits on this document's walk (already net of other documents'). */
+  budget: ExtractionBudget;
+  /**
+   * Count what the snapshot flags as responding to clicks (listeners
+   * attached from script included) as interactive, as `listener:click`.
+   */
+  detectEventListeners: boolean;
+  highlightIndexOffset: number;
+  elementIndexOffset: number;
+}
+
+export interface SnapshotExtraction {
+  payload: FullExtractionPayload;
+  /**
+   * The child frames whose documents are in the snapshot, by the `frameId`
+   * set on their owner node.
+   */
+  frames: Map<string, { documentIndex: number; viewport: ViewportInfo }>;
+}
+
+/**
+ * Builds the payload the page script would have returned for one document
+ * of a `DOMSnapshot.captureSnapshot` result, so DomService can validate and
+ * parse it exactly as it does the script's.
+ *
+ * Everything comes from the snapshot's DOM, layout and computed style
+ * tables, so nothing runs in the page. Where the snapshot has less to go on
+ * than the script, the result is an approximation:
+ * - elements without a layout object have no computed style, so they're
+ *   taken as `display: none` unless something below them is rendered
+ *   (`display: contents`) or they're a `<select>`'s options or a `<slot>`
+ * - occlusion is hit-tested against layout boxes in paint order, not by
+ *   the browser's own hit testing
+ * - constraint validation only knows about missing required values, and
+ *   there's no validation message or `indeterminate` state
+ * - React/Vue handler props aren't visible; script-attached listeners are,
+ *   through the snapshot's own clickability flag
+ * - closed shadow roots are left out, as the script can't see them either
+ *
+ * Child frame documents in the snapshot are listed in
+ * {@link SnapshotExtraction.frames}, to be extracted in turn; frames
+ * rendered by another process aren't in the snapshot at all.
+ */
+export function extractFromSnapshot(
+  snapshot: DomSnapshot,
+  documentIndex: number,
+  options: SnapshotExtractionOptions
+): SnapshotExtraction {
+  return new SnapshotDocumentWalker(snapshot, documentIndex, options).walk();
+}
+
+// One layout box as hit testing sees it.
+interface HitBox {
+  element: number;
+  rect: ClipRegion;
+  paintOrder: number;
+}
+
+type BudgetSkip =
+  | "skippedForNodeLimit"
+  | "skippedForDepth"
+  | "skippedForTime"
+  | "skippedOffscreen";
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+const HIGHLIGHT_CONTAINER_ID = "playwright-highlight-container";
+
+// Tags whose clickability the snapshot flags regardless of listeners:
+// those DomService's listener probe leaves to their tag, and labels, which
+// pass clicks on to their control.
+const LISTENER_EXEMPT_TAGS = [
+  "a",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "option",
+  "label",
+];
+
+const LABELABLE_TAGS = ["input", "select", "textarea", "meter", "progress"];
+
+function rareStrings(
+  data: RareStringData | undefined,
+  strings: string[]
+): Map<number, string> {
+  const values = new Map<number, string>();
+  data?.index.forEach((node, i) => values.set(node, strings[data.value[i]]));
+  return values;
+}
+
+/**
+ * Walks one snapshot document the way `buildDomTreeOverlay` walks the live
+ * one. Method names follow the script's helpers they stand in for.
+ */
+class SnapshotDocumentWalker {
+  private readonly snapshot: DomSnapshot;
+  private readonly document: DocumentSnapshot;
+  private readonly strings: string[];
+  private readonly options: SnapshotExtractionOptions;
+  private readonly viewport: ViewportInfo;
+
+  private readonly parents: number[];
+  private readonly types: number[];
+  private readonly childIndices: number[][];
+  private readonly shadowRootTypes: Map<number, string>;
+  private readonly pseudoTypes: Map<number, string>;
+  private readonly inputValues: Map<number, string>;
+  private readonly textValues: Map<number, string>;
+  private readonly checked: Set<number>;
+  private readonly selected: Set<number>;
+  private readonly clickable: Set<number>;
+  private readonly contentDocuments = new Map<number, number>();
+  // node -> its (first) layout node
+  private readonly layoutIndex = new Map<number, number>();
+  // pseudo-element node -> the text its generated content lays out
+  private readonly generatedText = new Map<number, string>();
+
+  private readonly attributeCache = new Map<number, Record<string, string>>();
+  private readonly textContentCache = new Map<number, string>();
+  private readonly renderedBelow = new Map<number, boolean>();
+  private readonly editable = new Map<number, boolean>();
+  private readonly controlBelow = new Map<number, boolean>();
+  private hitBoxes: HitBox[] | null = null;
+
+  private readonly nodeMap: Record<string, ExtractedNode> = {};
+  private readonly frames: SnapshotExtraction["frames"] = new Map();
+  private nodeIdCounter = 0;
+  private highlightIndex: number;
+  private elementIndex: number;
+  private readonly startedAt = Date.now();
+  private readonly report: ExtractionReport = {
+    truncated: false,
+    elementsExtracted: 0,
+    elementsOnPage: 0,
+    skippedForNodeLimit: 0,
+    skippedForDepth: 0,
+    skippedForTime: 0,
+    skippedOffscreen: 0,
+    truncatedTexts: 0,
+    elapsedMs: 0,
+  };
+  private readonly skipOffscreen: boolean;
+  private readonly documentElement: number | null;
+  private readonly body: number | null;
+  private readonly rules: ExtractionRules<number>;
+
+  constructor(
+    snapshot: DomSnapshot,
+    documentIndex: number,
+    options: SnapshotExtractionOptions
+  ) {
+    this.snapshot = snapshot;
+    this.document = snapshot.documents[documentIndex];
+    this.strings = snapshot.strings;
+    this.options = options;
+    this.viewport = options.viewport;
+    this.highlightIndex = options.highlightIndexOffset;
+    this.elementIndex = options.elementIndexOffset;
+
+    const nodes = this.document.nodes;
+    this.parents = nodes.parentIndex ?? [];
+    this.types = nodes.nodeType ?? [];
+    this.childIndices = this.parents.map(() => []);
+    this.parents.forEach((parent, node) => {
+      if (parent >= 0) this.childIndices[parent].push(node);
+    });
+    this.shadowRootTypes = rareStrings(nodes.shadowRootType, this.strings);
+    this.pseudoTypes = rareStrings(nodes.pseudoType, this.strings);
+    this.inputValues = rareStrings(nodes.inputValue, this.strings);
+    this.textValues = rareStrings(nodes.textValue, this.strings);
+    this.checked = new Set(nodes.inputChecked?.index);
+    this.selected = new Set(nodes.optionSelected?.index);
+    this.clickable = new Set(nodes.isClickable?.index);
+    nodes.contentDocumentIndex?.index.forEach((node, i) =>
+      this.contentDocuments.set(node, nodes.contentDocumentIndex!.value[i])
+    );
+
+    const layout = this.document.layout;
+    layout.nodeIndex.forEach((node, i) => {
+      if (!this.layoutIndex.has(node)) this.layoutIndex.set(node, i);
+      if (this.pseudoTypes.has(node) && layout.text[i] >= 0) {
+        this.generatedText.set(
+          node,
+          (this.generatedText.get(node) ?? "") + this.strings[layout.text[i]]
+        );
+      }
+    });
+
+    this.documentElement = this.elementChildren(0)[0] ?? null;
+    this.body =
+      this.documentElement === null
+        ? null
+        : this.elementChildren(this.documentElement).find((child) =>
+            ["body", "frameset"].includes(this.tagName(child))
+          ) ?? null;
+
+    this.rules = createExtractionRules(this.createDom(), {
+      viewport: this.viewport,
+      viewportExpansion: options.viewportExpansion,
+      inclusionPolicy: options.inclusionPolicy,
+    });
+
+    this.report.elementsOnPage = this.countLightElements(0);
+    this.skipOffscreen =
+      options.budget.maxNodes !== undefined &&
+      this.report.elementsOnPage > options.budget.maxNodes;
+  }
+
+  walk(): SnapshotExtraction {
+    // Like document.body, a frameset document's <frameset>.
+    const root = this.body ?? this.documentElement;
+    if (root === null) {
+      throw new Error("The snapshot document has no root element");
+    }
+    const rootId = this.traverseElement(root, false, 0);
+
+    this.report.elapsedMs = Date.now() - this.startedAt;
+    this.report.truncated =
+      this.report.skippedForNodeLimit +
+        this.report.skippedForDepth +
+        this.report.skippedForTime +
+        this.report.skippedOffscreen >
+      0;
+
+    return {
+      payload: {
+        version: EXTRACTION_PAYLOAD_VERSION,
+        mode: "full",
+        rootId,
+        report: this.report,
+        map: this.nodeMap,
+        viewport: this.viewport,
+        nextHighlightIndex: this.highlightIndex,
+        nextElementIndex: this.elementIndex,
+      },
+      frames: this.frames,
+    };
+  }
+
+  // The snapshot as the shared extraction rules read it.
+  private createDom(): ExtractionDom<number> {
+    const forEachIn = (node: number, visit: (element: number) => void) => {
+      for (const child of this.childNodes(node)) {
+        if (this.isElement(child)) {
+          visit(child);
+          const shadowRoot = this.openShadowRoot(child);
+          if (shadowRoot !== null) forEachIn(shadowRoot, visit);
+        }
+        forEachIn(child, visit);
+      }
+    };
+    return {
+      tagName: (node) => this.tagName(node),
+      nodeName: (node) => this.nodeName(node),
+      getAttribute: (node, name) => this.getAttribute(node, name),
+      parentElement: (node) => this.parentElement(node),
+      composedParent: (node) => this.composedParent(node),
+      shadowHost: (node) => {
+        const root = this.treeRoot(node);
+        return this.isShadowRoot(root) ? this.parents[root] : null;
+      },
+      siblings: (node) => {
+        const parent = this.parents[node];
+        return parent >= 0 ? this.elementChildren(parent) : [node];
+      },
+      childNodes: (node) => this.contentOf(node),
+      shadowChildNodes: (node) => {
+        const shadowRoot = this.openShadowRoot(node);
+        return shadowRoot !== null ? this.contentOf(shadowRoot) : null;
+      },
+      textContent: (node) => this.textContent(node),
+      forEachElement: (visit) => forEachIn(0, visit),
+      getElementById: (node, id) =>
+        this.getElementById(this.treeRoot(node), id),
+      labels: (node) => this.getLabels(node),
+      controlValue: (node) =>
+        this.tagName(node) === "textarea"
+          ? this.textValues.get(node) ?? ""
+          : this.inputValues.get(node) ??
+            this.getAttribute(node, "value") ??
+            "",
+      isChecked: (node) => this.checked.has(node),
+      // Not in the snapshot.
+      isIndeterminate: () => false,
+      selectOptions: (node) => this.getOptions(node),
+      isSelected: (option) => this.selected.has(option),
+      isDisabled: (node) => this.isDisabled(node),
+      validity: () => null,
+      scrollMetrics: (node) => this.getScrollMetrics(node),
+      isContentEditable: (node) => this.isContentEditable(node),
+      style: (node, property) => this.style(node, property),
+      isDisplayNone: (node) => this.isDisplayNone(node),
+      isRoot: (node) => node === this.documentElement || node === this.body,
+      getBoundingRect: (node) => this.getBoundingRect(node),
+      generatedText: (node, pseudo) => {
+        const pseudoElement = this.pseudoElement(node, pseudo);
+        return pseudoElement !== null
+          ? this.generatedText.get(pseudoElement) ?? ""
+          : "";
+      },
+      elementFromPoint: (node, x, y) => {
+        const hit = this.elementFromPoint(x, y);
+        return hit !== null ? this.retarget(hit, this.treeRoot(node)) : null;
+      },
+      isRenderedWithin: (element, hit) => this.isRenderedWithin(element, hit),
+    };
+  }
+
+  // --- Tree structure ---
+
+  private isElement(node: number): boolean {
+    return this.types[node] === ELEMENT_NODE;
+  }
+
+  private isShadowRoot(node: number): boolean {
+    return (
+      this.types[node] === DOCUMENT_FRAGMENT_NODE &&
+      this.shadowRootTypes.has(node)
+    );
+  }
+
+  private nodeName(node: number): string {
+    return this.strings[this.document.nodes.nodeName?.[node] ?? -1] ?? "";
+  }
+
+  private tagName(node: number): string {
+    return this.nodeName(node).toLowerCase();
+  }
+
+  private nodeValue(node: number): string {
+    return this.strings[this.document.nodes.nodeValue?.[node] ?? -1] ?? "";
+  }
+
+  // A node's DOM children: not its shadow root, pseudo-elements or (for a
+  // <template>) content fragment, which the snapshot lists alongside them.
+  private childNodes(node: number): number[] {
+    return this.childIndices[node].filter(
+      (child) =>
+        !this.pseudoTypes.has(child) &&
+        this.types[child] !== DOCUMENT_FRAGMENT_NODE
+    );
+  }
+
+  private elementChildren(node: number): number[] {
+    return this.childNodes(node).filter((child) => this.isElement(child));
+  }
+
+  // Child elements, and text nodes as their text.
+  private contentOf(node: number): Array<number | string> {
+    return this.childNodes(node).flatMap((child): Array<number | string> => {
+      if (this.isElement(child)) return [child];
+      return this.types[child] === TEXT_NODE ? [this.nodeValue(child)] : [];
+    });
+  }
+
+  // Only open shadow roots, as for the page script.
+  private openShadowRoot(node: number): number | null {
+    const root = this.childIndices[node].find(
+      (child) => this.isShadowRoot(child)
+    );
+    return root !== undefined && this.shadowRootTypes.get(root) === "open"
+      ? root
+      : null;
+  }
+
+  private pseudoElement(
+    node: number,
+    type: "before" | "after"
+  ): number | null {
+    return (
+      this.childIndices[node].find(
+        (child) => this.pseudoTypes.get(child) === type
+      ) ?? null
+    );
+  }
+
+  private parentElement(node: number): number | null {
+    const parent = this.parents[node];
+    return parent >= 0 && this.isElement(parent) ? parent : null;
+  }
+
+  // The parent element, or for the top of a shadow tree, its host.
+  private composedParent(node: number): number | null {
+    const parent = this.parents[node];
+    if (parent < 0) return null;
+    if (this.isShadowRoot(parent)) return this.parents[parent];
+    return this.isElement(parent) ? parent : null;
+  }
+
+  // The document or shadow root a node belongs to.
+  private treeRoot(node: number): number {
+    let current = node;
+    while (
+      this.parents[current] >= 0 &&
+      this.types[current] !== DOCUMENT_NODE &&
+      !this.isShadowRoot(current)
+    ) {
+      current = this.parents[current];
+    }
+    return current;
+  }
+
+  private isRenderedWithin(element: number, hit: number): boolean {
+    for (let current = hit; current >= 0; current = this.parents[current]) {
+      if (current === element) return true;
+    }
+    return false;
+  }
+
+  private countLightElements(node: number): number {
+    let count = 0;
+    for (const child of this.childNodes(node)) {
+      if (this.isElement(child)) count++;
+      count += this.countLightElements(child);
+    }
+    return count;
+  }
+
+  private getAttributes(node: number): Record<string, string> {
+    const cached = this.attributeCache.get(node);
+    if (cached) return cached;
+    const attributes: Record<string, string> = {};
+    const flat = this.document.nodes.attributes?.[node] ?? [];
+    for (let i = 0; i + 1 < flat.length; i += 2) {
+      attributes[this.strings[flat[i]]] = this.strings[flat[i + 1]];
+    }
+    this.attributeCache.set(node, attributes);
+    return attributes;
+  }
+
+  private getAttribute(node: number, name: string): string | null {
+    return this.getAttributes(node)[name] ?? null;
+  }
+
+  private textContent(node: number): string {
+    if (this.types[node] === TEXT_NODE) return this.nodeValue(node);
+    const cached = this.textContentCache.get(node);
+    if (cached !== undefined) return cached;
+    const text = this.childNodes(node)
+      .map((child) => this.textContent(child))
+      .join("");
+    this.textContentCache.set(node, text);
+    return text;
+  }
+
+  private getElementById(scope: number, id: string): number | null {
+    const search = (node: number): number | null => {
+      for (const child of this.childNodes(node)) {
+        if (this.isElement(child) && this.getAttribute(child, "id") === id) {
+          return child;
+        }
+        const found = search(child);
+        if (found !== null) return found;
+      }
+      return null;
+    };
+    return search(scope);
+  }
+
+  // --- Layout and style ---
+
+  private style(node: number, property: StyleProperty): string {
+    const layout = this.layoutIndex.get(node);
+    if (layout === undefined) {
+      const parent = this.composedParent(node);
+      return INHERITED_STYLES.has(property) && parent !== null
+        ? this.style(parent, property)
+        : INITIAL_STYLES[property];
+    }
+    const index = SNAPSHOT_COMPUTED_STYLES.indexOf(property);
+    const value = this.document.layout.styles[layout]?.[index];
+    return value === undefined || value < 0
+      ? INITIAL_STYLES[property]
+      : this.strings[value];
+  }
+
+  private px(node: number, property: StyleProperty): number {
+    return parseFloat(this.style(node, property)) || 0;
+  }
+
+  // The border box relative to the document's viewport, as
+  // getBoundingClientRect reports it. Snapshot bounds are in device pixels,
+  // relative to the document.
+  private getBoundingRect(node: number): RuleRect {
+    const layout = this.layoutIndex.get(node);
+    if (layout === undefined) {
+      return { left: 0, top: 0, right: 0, bottom: 0, width: 0, height: 0 };
+    }
+    const [x, y, width, height] = this.document.layout.bounds[layout];
+    const ratio = this.viewport.devicePixelRatio;
+    const left = (x - (this.document.scrollOffsetX ?? 0)) / ratio;
+    const top = (y - (this.document.scrollOffsetY ?? 0)) / ratio;
+    return {
+      left,
+      top,
+      width: width / ratio,
+      height: height / ratio,
+      right: left + width / ratio,
+      bottom: top + height / ratio,
+    };
+  }
+
+  // clientLeft, clientTop, clientWidth, clientHeight, in CSS pixels.
+  private clientRect(node: number): number[] | null {
+    const layout = this.layoutIndex.get(node);
+    if (layout === undefined) return null;
+    return this.document.layout.clientRects?.[layout] ?? null;
+  }
+
+  // Whether any node below this one (light or shadow) has a layout object.
+  private hasRenderedDescendant(node: number): boolean {
+    const cached = this.renderedBelow.get(node);
+    if (cached !== undefined) return cached;
+    const rendered = this.childIndices[node].some(
+      (child) =>
+        !this.pseudoTypes.has(child) &&
+        (this.layoutIndex.has(child) || this.hasRenderedDescendant(child))
+    );
+    this.renderedBelow.set(node, rendered);
+    return rendered;
+  }
+
+  // Without a layout object there's no computed display to read; see
+  // extractFromSnapshot for which elements are taken as display:none.
+  private isDisplayNone(node: number): boolean {
+    if (this.layoutIndex.has(node)) return false;
+    const tagName = this.tagName(node);
+    if (tagName === "slot" || this.hasRenderedDescendant(node)) return false;
+    if (tagName === "option" || tagName === "optgroup") {
+      for (
+        let parent = this.parentElement(node);
+        parent !== null;
+        parent = this.parentElement(parent)
+      ) {
+        if (this.tagName(parent) === "select") {
+          return this.rules.getInheritedVisibility(parent).displayNone;
+        }
+      }
+    }
+    return true;
+  }
+
+  // --- Interactivity ---
+
+  private isContentEditable(node: number): boolean {
+    const cached = this.editable.get(node);
+    if (cached !== undefined) return cached;
+    const value = this.getAttribute(node, "contenteditable");
+    let editable: boolean;
+    if (value === "" || value === "true" || value === "plaintext-only") {
+      editable = true;
+    } else if (value === "false") {
+      editable = false;
+    } else {
+      const parent = this.parentElement(node);
+      editable = parent !== null && this.isContentEditable(parent);
+    }
+    this.editable.set(node, editable);
+    return editable;
+  }
+
+  private getInteractiveReasons(node: number): string[] {
+    const reasons = this.rules.getInteractiveReasons(node);
+    if (
+      this.options.detectEventListeners &&
+      this.clickable.has(node) &&
+      !LISTENER_EXEMPT_TAGS.includes(this.tagName(node))
+    ) {
+      reasons.push("listener:click");
+    }
+    return reasons;
+  }
+
+  // --- Occlusion ---
+
+  // Every box hit testing can land on, with the element it reports: text
+  // and pseudo-elements hit as the element they belong to.
+  private getHitBoxes(): HitBox[] {
+    if (this.hitBoxes) return this.hitBoxes;
+    const layout = this.document.layout;
+    const boxes: HitBox[] = [];
+    layout.nodeIndex.forEach((node, i) => {
+      let element: number | null = node;
+      if (!this.isElement(node) || this.pseudoTypes.has(node)) {
+        element = this.composedParent(node);
+      }
+      if (element === null || this.pseudoTypes.has(element)) return;
+      if (this.rules.getInheritedVisibility(element).displayNone) return;
+      const visibility = this.style(element, "visibility");
+      if (
+        visibility === "hidden" ||
+        visibility === "collapse" ||
+        this.style(element, "pointer-events") === "none"
+      ) {
+        return;
+      }
+
+      const [x, y, width, height] = layout.bounds[i];
+      if (width <= 0 || height <= 0) return;
+      const ratio = this.viewport.devicePixelRatio;
+      const left = (x - (this.document.scrollOffsetX ?? 0)) / ratio;
+      const top = (y - (this.document.scrollOffsetY ?? 0)) / ratio;
+      let rect: ClipRegion = {
+        left,
+        top,
+        right: left + width / ratio,
+        bottom: top + height / ratio,
+      };
+      // Overflow hides the part of a box outside its clipping ancestors
+      // from hit testing as well as from view.
+      const clipFrom =
+        node === element ? this.composedParent(element) : element;
+      const inherited =
+        clipFrom === null || this.style(element, "position") === "fixed"
+          ? null
+          : this.rules.getInheritedVisibility(clipFrom);
+      for (const clip of [inherited?.childClip, inherited?.childScrollport]) {
+        if (!clip) continue;
+        rect = {
+          left: Math.max(rect.left, clip.left),
+          top: Math.max(rect.top, clip.top),
+          right: Math.min(rect.right, clip.right),
+          bottom: Math.min(rect.bottom, clip.bottom),
+        };
+        if (rect.right <= rect.left || rect.bottom <= rect.top) return;
+      }
+      boxes.push({ element, rect, paintOrder: layout.paintOrders?.[i] ?? 0 });
+    });
+    this.hitBoxes = boxes;
+    return boxes;
+  }
+
+  // The topmost element at a point: the last-painted box containing it,
+  // later boxes winning ties (they're deeper in the tree).
+  private elementFromPoint(x: number, y: number): number | null {
+    let hit: HitBox | null = null;
+    for (const box of this.getHitBoxes()) {
+      if (
+        x >= box.rect.left &&
+        x < box.rect.right &&
+        y >= box.rect.top &&
+        y < box.rect.bottom &&
+        (!hit || box.paintOrder >= hit.paintOrder)
+      ) {
+        hit = box;
+      }
+    }
+    return hit ? hit.element : null;
+  }
+
+  // What `scope.elementFromPoint` would report for a hit: retargeted out of
+  // shadow trees the scope can't see into.
+  private retarget(hit: number, scope: number): number {
+    let current = hit;
+    for (;;) {
+      const root = this.treeRoot(current);
+      if (!this.isShadowRoot(root) || this.isRenderedWithin(root, scope)) {
+        return current;
+      }
+      current = this.parents[root];
+    }
+  }
+
+  private getLabels(node: number): number[] {
+    if (!LABELABLE_TAGS.includes(this.tagName(node))) return [];
+    const labels: number[] = [];
+    const id = this.getAttribute(node, "id");
+    const scope = this.treeRoot(node);
+    const collect = (current: number) => {
+      for (const child of this.childNodes(current)) {
+        if (
+          this.isElement(child) &&
+          this.tagName(child) === "label" &&
+          id &&
+          this.getAttribute(child, "for") === id
+        ) {
+          labels.push(child);
+        }
+        collect(child);
+      }
+    };
+    collect(scope);
+    for (
+      let ancestor = this.parentElement(node);
+      ancestor !== null;
+      ancestor = this.parentElement(ancestor)
+    ) {
+      if (
+        this.tagName(ancestor) === "label" &&
+        this.getAttribute(ancestor, "for") === null
+      ) {
+        labels.push(ancestor);
+        break;
+      }
+    }
+    return labels;
+  }
+
+  // --- Scrolling and form state ---
+
+  private getScrollMetrics(node: number): ScrollMetrics | null {
+    const layout = this.layoutIndex.get(node);
+    const scrollRect =
+      layout !== undefined ? this.document.layout.scrollRects?.[layout] : null;
+    const clientRect = this.clientRect(node);
+    if (!scrollRect || !clientRect) return null;
+
+    const [scrollLeft, scrollTop, scrollWidth, scrollHeight] = scrollRect;
+    const [, , clientWidth, clientHeight] = clientRect;
+    return {
+      scrollTop,
+      scrollLeft,
+      scrollHeight,
+      scrollWidth,
+      clientHeight,
+      clientWidth,
+    };
+  }
+
+  // :disabled — the control's own attribute, a disabled optgroup around an
+  // option, or a disabled fieldset outside its first legend.
+  private isDisabled(node: number): boolean {
+    if (this.getAttribute(node, "disabled") !== null) return true;
+    const tagName = this.tagName(node);
+    if (tagName === "option") {
+      const parent = this.parentElement(node);
+      return (
+        parent !== null &&
+        this.tagName(parent) === "optgroup" &&
+        this.getAttribute(parent, "disabled") !== null
+      );
+    }
+    let child = node;
+    for (
+      let ancestor = this.parentElement(node);
+      ancestor !== null;
+      child = ancestor, ancestor = this.parentElement(ancestor)
+    ) {
+      if (
+        this.tagName(ancestor) !== "fieldset" ||
+        this.getAttribute(ancestor, "disabled") === null
+      ) {
+        continue;
+      }
+      const firstLegend = this.elementChildren(ancestor).find(
+        (candidate) => this.tagName(candidate) === "legend"
+      );
+      if (child !== firstLegend) return true;
+    }
+    return false;
+  }
+
+  private getOptions(select: number): number[] {
+    const options: number[] = [];
+    for (const child of this.elementChildren(select)) {
+      const tagName = this.tagName(child);
+      if (tagName === "option") options.push(child);
+      else if (tagName === "optgroup") {
+        options.push(
+          ...this.elementChildren(child).filter(
+            (option) => this.tagName(option) === "option"
+          )
+        );
+      }
+    }
+    return options;
+  }
+
+  // --- Budget ---
+
+  private truncateText(text: string): string {
+    const { maxTextLength } = this.options.budget;
+    if (maxTextLength === undefined || text.length <= maxTextLength) {
+      return text;
+    }
+    this.report.truncatedTexts++;
+    return `${text.substring(0, maxTextLength)}…`;
+  }
+
+  private isOffscreen(rect: RuleRect): boolean {
+    const expansion = this.options.viewportExpansion;
+    return (
+      rect.width > 0 &&
+      rect.height > 0 &&
+      (rect.bottom < -expansion ||
+        rect.top > this.viewport.height + expansion ||
+        rect.right < -expansion ||
+        rect.left > this.viewport.width + expansion)
+    );
+  }
+
+  private budgetCut(rect: RuleRect, depth: number): BudgetSkip | null {
+    const { maxDepth } = this.options.budget;
+    if (maxDepth !== undefined && depth >= maxDepth) return "skippedForDepth";
+    if (this.skipOffscreen && this.isOffscreen(rect)) return "skippedOffscreen";
+    return null;
+  }
+
+  // The subtree holds something controlSelector matches, or a shadow
+  // root it couldn't see into.
+  private mayContainControl(node: number): boolean {
+    const cached = this.controlBelow.get(node);
+    if (cached !== undefined) return cached;
+    const found =
+      this.rules.isControl(node) ||
+      this.openShadowRoot(node) !== null ||
+      this.elementChildren(node).some((child) => this.mayContainControl(child));
+    this.controlBelow.set(node, found);
+    return found;
+  }
+
+  private budgetExhausted(node: number): BudgetSkip | null {
+    const { maxNodes, timeLimitMs } = this.options.budget;
+    if (maxNodes !== undefined) {
+      if (this.report.elementsExtracted >= maxNodes) {
+        return "skippedForNodeLimit";
+      }
+      if (
+        this.skipOffscreen &&
+        this.report.elementsExtracted >= maxNodes * 0.75 &&
+        !this.mayContainControl(node)
+      ) {
+        return "skippedForNodeLimit";
+      }
+    }
+    if (
+      timeLimitMs !== undefined &&
+      Date.now() - this.startedAt > timeLimitMs
+    ) {
+      return "skippedForTime";
+    }
+    return null;
+  }
+
+  // --- The walk ---
+
+  private traverseElement(
+    node: number,
+    inShadowRoot: boolean,
+    depth: number
+  ): string {
+    const nodeId = `node_${this.nodeIdCounter++}`;
+    this.report.elementsExtracted++;
+    const rect = this.getBoundingRect(node);
+    const visibilityReasons = this.rules.getVisibilityReasons(node, rect);
+    const isVisible = this.rules.isLaidOut(visibilityReasons);
+    const interactiveReasons = this.getInteractiveReasons(node);
+    const isInteractive = interactiveReasons.length > 0;
+    const { xpath, absoluteXPath, semanticXPath } = this.rules.getXPaths(node);
+    const textTransform = this.style(node, "text-transform");
+    const beforeText = this.rules.getGeneratedText(node, "before");
+    const afterText = this.rules.getGeneratedText(node, "after");
+    const text = this.truncateText(
+      this.rules.getElementText(node, beforeText, afterText)
+    );
+
+    const occlusion =
+      isVisible && isInteractive
+        ? this.rules.getOcclusion(node, rect)
+        : { isTopElement: true, occludedBy: null };
+
+    let currentHighlightIndex: number | null = null;
+    if (isVisible && isInteractive) {
+      currentHighlightIndex = this.highlightIndex++;
+    }
+    let currentElementIndex: number | null = null;
+    if (this.rules.shouldIncludeInElementMap(node, isInteractive)) {
+      currentElementIndex = this.elementIndex++;
+    }
+
+    const isListed =
+      currentHighlightIndex !== null || currentElementIndex !== null;
+    const role = isListed ? this.rules.getRole(node) : null;
+    const accessibleName = isListed
+      ? this.rules.getAccessibleName(node, role)
+      : "";
+    const accessibleDescription = isListed
+      ? this.rules.getAccessibleDescription(node, accessibleName)
+      : "";
+
+    const children: string[] = [];
+    const shadowRoot = this.openShadowRoot(node);
+    const childNodes: Array<{ node: number; inShadowRoot: boolean }> = [];
+    if (shadowRoot !== null) {
+      for (const child of this.childNodes(shadowRoot)) {
+        childNodes.push({ node: child, inShadowRoot: true });
+      }
+    }
+    for (const child of this.childNodes(node)) {
+      childNodes.push({ node: child, inShadowRoot });
+    }
+
+    const addTextNode = (value: string) => {
+      const textNodeId = `text_${this.nodeIdCounter++}`;
+      this.nodeMap[textNodeId] = {
+        type: "TEXT_NODE",
+        text: this.truncateText(value),
+        isVisible,
+      };
+      children.push(textNodeId);
+    };
+
+    if (beforeText) addTextNode(beforeText);
+
+    const cut = this.budgetCut(rect, depth);
+    if (cut) {
+      this.report[cut]++;
+      childNodes.length = 0;
+    }
+
+    for (const child of childNodes) {
+      if (this.types[child.node] === TEXT_NODE) {
+        const textContent = this.nodeValue(child.node).trim();
+        if (textContent) {
+          addTextNode(
+            this.rules.applyTextTransform(textContent, textTransform)
+          );
+        }
+      } else if (this.isElement(child.node)) {
+        // A leftover highlight overlay is ours, not the page's.
+        if (this.getAttribute(child.node, "id") === HIGHLIGHT_CONTAINER_ID) {
+          continue;
+        }
+        const exhausted = this.budgetExhausted(child.node);
+        if (exhausted) {
+          this.report[exhausted]++;
+          continue;
+        }
+        children.push(
+          this.traverseElement(child.node, child.inShadowRoot, depth + 1)
+        );
+      }
+    }
+
+    if (afterText) addTextNode(afterText);
+
+    const contentDocument = this.contentDocuments.get(node);
+    let frameId: string | null = null;
+    let frameContentOffset: { x: number; y: number } | null = null;
+    const clientRect = this.clientRect(node);
+    if (contentDocument !== undefined && clientRect) {
+      frameId = `snapshot_document_${contentDocument}`;
+      const frameDocument = this.snapshot.documents[contentDocument];
+      const ratio = this.viewport.devicePixelRatio;
+      const [clientLeft, clientTop, clientWidth, clientHeight] = clientRect;
+      frameContentOffset = {
+        x: clientLeft + this.px(node, "padding-left"),
+        y: clientTop + this.px(node, "padding-top"),
+      };
+      this.frames.set(frameId, {
+        documentIndex: contentDocument,
+        viewport: {
+          width:
+            clientWidth -
+            this.px(node, "padding-left") -
+            this.px(node, "padding-right"),
+          height:
+            clientHeight -
+            this.px(node, "padding-top") -
+            this.px(node, "padding-bottom"),
+          scrollX: (frameDocument?.scrollOffsetX ?? 0) / ratio,
+          scrollY: (frameDocument?.scrollOffsetY ?? 0) / ratio,
+          devicePixelRatio: ratio,
+        },
+      });
+    }
+
+    const nodeData: ExtractedElementNode = {
+      type: "ELEMENT_NODE",
+      tagName: this.tagName(node),
+      xpath,
+      absoluteXPath,
+      semanticXPath,
+      attributes: this.getAttributes(node),
+      text,
+      isVisible,
+      visibility: {
+        visible: visibilityReasons.every((reason) => reason === "aria-hidden"),
+        reasons: visibilityReasons,
+      },
+      isInteractive,
+      interactiveReasons,
+      isTopElement: occlusion.isTopElement,
+      occludedBy: occlusion.occludedBy,
+      role,
+      accessibleName,
+      accessibleDescription,
+      formState: this.rules.getFormState(node),
+      scrollable: this.rules.getScrollableInfo(node),
+      isInViewport: isVisible,
+      shadowRoot: shadowRoot !== null,
+      inShadowRoot,
+      highlightIndex: currentHighlightIndex,
+      elementIndex: currentElementIndex,
+      viewport: this.viewport,
+      viewportCoordinates: {
+        x: rect.left,
+        y: rect.top,
+        width: rect.width,
+        height: rect.height,
+      },
+      pageCoordinates: {
+        x: rect.left + this.viewport.scrollX,
+        y: rect.top + this.viewport.scrollY,
+        width: rect.width,
+        height: rect.height,
+      },
+      frameId,
+      frameContentOffset,
+      children,
+    };
+    this.nodeMap[nodeId] = nodeData;
+    return nodeId;
+  }
+}
@@ -18,3 +18,21 @@ export class RateLimitError extends Error {
     this.name = "RateLimitError";
   }
 }
+
+/**
+ * The page script's extraction payload wasn't what DomService expects.
+ *
+ * Raised instead of building a tree from whatever came back, which would
+ * otherwise surface much later as an empty element map or nonsense
+ * coordinates. `path` points at the offending part of the payload, e.g.
+ * `payload.map.node_12.viewportCoordinates.width`.
+ */
+export class ExtractionError extends Error {
+  constructor(
+    message: string,
+    readonly path?: string
+  ) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
@@ -0,0 +1,161 @@
+import { createHash, createHmac } from "crypto";
+import {
+  DOMBaseNode,
+  DOMElementNode,
+  DOMTextNode,
+  isGeneratedIdentifier,
+} from "../types/dom";
+
+/**
+ * A digest-based identity for an element that survives reloads and
+ * re-renders better than its xpath: it's built from the tag, the attributes
+ * that don't change with state or between builds, the text and the chain of
+ * ancestor tags — never from positions.
+ *
+ * Only digests of attributes and text are kept, but a digest of a single
+ * word or attribute value can be reversed by hashing guesses. Fingerprints
+ * meant to be stored anywhere untrusted should be keyed (see
+ * {@link FingerprintOptions.key}).
+ */
+export interface ElementFingerprint {
+  /** Digest over every component: equal digests, same element by all measures. */
+  digest: string;
+  tagName: string;
+  /** One digest per stable `name=value` attribute, sorted. */
+  attributes: string[];
+  /** One digest per distinct word of the normalized text, sorted. */
+  textTokens: string[];
+  /** Ancestor tag names, nearest first (no indices). */
+  ancestry: string[];
+}
+
+export interface FingerprintOptions {
+  /**
+   * Secret to key every digest with (HMAC-SHA256 rather than plain
+   * SHA-256), so they can't be checked against guessed content without it.
+   * Only fingerprints made with the same key are comparable.
+   */
+  key?: string;
+}
+
+// Attributes that reflect momentary state rather than identity.
+const VOLATILE_ATTRIBUTES = new Set([
+  "style",
+  "value",
+  "checked",
+  "selected",
+  "tabindex",
+  "aria-expanded",
+  "aria-selected",
+  "aria-checked",
+  "aria-pressed",
+  "aria-hidden",
+  "aria-busy",
+  "aria-activedescendant",
+  "data-state",
+]);
+
+/**
+ * Fingerprints an element (see {@link ElementFingerprint}); compare two with
+ * {@link fingerprintSimilarity}. Walks the element's subtree for its text,
+ * so callers comparing many elements should compute each one once.
+ */
+export function fingerprintElement(
+  node: DOMElementNode,
+  options: FingerprintOptions = {}
+): ElementFingerprint {
+  const digestOf = (value: string) =>
+    options.key === undefined
+      ? createHash("sha256").update(value).digest("hex")
+      : createHmac("sha256", options.key).update(value).digest("hex");
+  const tagName = node.tagName.toLowerCase();
+
+  const attributes = Object.keys(node.attributes)
+    .filter((name) => !VOLATILE_ATTRIBUTES.has(name))
+    .sort()
+    .flatMap((name) => {
+      const value = node.attributes[name].trim();
+      if (name === "class") {
+        const stableClasses = value
+          .split(/\s+/)
+          .filter((token) => token && !isGeneratedIdentifier(token))
+          .sort();
+        return stableClasses.length > 0
+          ? [`class=${stableClasses.join(" ")}`]
+          : [];
+      }
+      if (name === "id" && isGeneratedIdentifier(value)) return [];
+      return [`${name}=${value}`];
+    })
+    .map(digestOf)
+    .sort();
+
+  const text = subtreeText(node).toLowerCase();
+  const textTokens = Array.from(new Set(text.split(/\s+/).filter(Boolean)))
+    .map(digestOf)
+    .sort();
+
+  const ancestry: string[] = [];
+  for (let parent = node.parent; parent !== null; parent = parent.parent) {
+    ancestry.push(parent.tagName.toLowerCase());
+  }
+
+  return {
+    digest: digestOf(JSON.stringify([tagName, attributes, text, ancestry])),
+    tagName,
+    attributes,
+    textTokens,
+    ancestry,
+  };
+}
+
+// All text in the subtree, visible or not — visibility changes with the
+// viewport, identity shouldn't.
+function subtreeText(node: DOMElementNode): string {
+  const parts: string[] = [];
+  const collect = (current: DOMBaseNode) => {
+    if (current instanceof DOMTextNode) parts.push(current.text);
+    else if (current instanceof DOMElementNode) {
+      current.children.forEach(collect);
+    }
+  };
+  collect(node);
+  return parts.join(" ").replace(/\s+/g, " ").trim();
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const setB = new Set(b);
+  const shared = a.filter((item) => setB.has(item)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+/**
+ * How alike two fingerprints are, from 0 to 1. Different tags score 0;
+ * otherwise stable attributes and text weigh most, ancestry somewhat less
+ * (wrappers come and go in a re-render). 1 means the digests are equal.
+ */
+export function fingerprintSimilarity(
+  a: ElementFingerprint,
+  b: ElementFingerprint
+): number {
+  if (a.digest === b.digest) return 1;
+  if (a.tagName !== b.tagName) return 0;
+
+  let sharedAncestry = 0;
+  while (
+    sharedAncestry < a.ancestry.length &&
+    sharedAncestry < b.ancestry.length &&
+    a.ancestry[sharedAncestry] === b.ancestry[sharedAncestry]
+  ) {
+    sharedAncestry++;
+  }
+  const longestAncestry = Math.max(a.ancestry.length, b.ancestry.length);
+  const ancestry = longestAncestry === 0 ? 1 : sharedAncestry / longestAncestry;
+
+  return (
+    0.4 * jaccard(a.attributes, b.attributes) +
+    0.4 * jaccard(a.textTokens, b.textTokens) +
+    0.2 * ancestry
+  );
+}
@@ -1,8 +1,15 @@
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
 import { DOMElementNode, SelectorMap, ElementMap } from "../types/dom";
 import { BrowserState } from "./browserContext";
 import { RateLimitError } from "./errors";
+import { RedactionConfig, Redactor } from "./redaction";
+import { parseJsonLoosely } from "./responseParsing";
 
 export interface RetryConfig {
   /** Attempts per call, including the first. */
@@ -23,12 +30,44 @@ export interface RetryConfig {
  */
 export type ScreenshotDetail = "low" | "high" | "auto";
 
+/**
+ * What to do with candidates that hit testing found covered by another
+ * element (see {@link DOMElementNode.occludedBy}) — a button under a cookie
+ * banner, sticky header or modal backdrop that a real click can't reach:
+ * - "tag" (default): list them, marked "occluded", and let the model decide —
+ *   a description may well be about the banner's own button instead.
+ * - "exclude": drop them from the candidate pool entirely.
+ */
+export type OccludedElementHandling = "tag" | "exclude";
+
 export interface LLMSelectorConfig {
   includeAttributes: string[];
   useVision: boolean;
   maxRetries: number;
   retry: RetryConfig;
   screenshotDetail: ScreenshotDetail;
+  occludedElements: OccludedElementHandling;
+  /**
+   * What to keep out of the listing and the screenshot, on top of
+   * {@link DEFAULT_REDACTION_CONFIG}.
+   */
+  redaction: Partial<RedactionConfig>;
+  /**
+   * Have the model answer through its native structured output (LangChain's
+   * `withStructuredOutput`: tool calling or a JSON schema) when it supports
+   * it. Otherwise, or when it's off, the JSON is read from the answer's
+   * text.
+   */
+  structuredOutput: boolean;
+  /**
+   * Most tokens a single-selection prompt may take, by estimate (about four
+   * characters a token, plus a flat cost for the screenshot). A listing
+   * that would take more is split into chunks, each asked for its best
+   * candidate, and a final round picks among the chunk winners — see
+   * {@link SelectionUsage} for what that costs. Null (default): one prompt,
+   * however large.
+   */
+  tokenBudget: number | null;
 }
 
 /**
@@ -44,19 +83,207 @@ export interface LLMSelectorConfig {
  * - "hidden-only": the inverse — only elements NOT currently visible are
  *   considered. Use this when the caller's assertion expects the target to
  *   be hidden/collapsed/not shown.
+ * - "offscreen-only": only elements that are rendered but scrolled out of
+ *   the viewport — they exist, a user just has to scroll to them.
+ * - "collapsed-only": only elements that can't be seen wherever the page
+ *   is scrolled (display:none, visibility:hidden, no size, opacity:0,
+ *   clipped away).
+ * - "aria-hidden-only": only elements hidden from assistive tech, whether
+ *   or not they're shown.
+ *
+ * With extracted visibility reasons (see {@link DOMElementNode.visibility}),
+ * "visible" means visible to a user, so transparent and clipped elements
+ * count as hidden; elements without them fall back to `isVisible`, and the
+ * reason-based filters match none of them.
  */
-export type ElementVisibilityFilter = "any" | "visible-only" | "hidden-only";
+export type ElementVisibilityFilter =
+  | "any"
+  | "visible-only"
+  | "hidden-only"
+  | "offscreen-only"
+  | "collapsed-only"
+  | "aria-hidden-only";
+
+/** What a selection cost. */
+export interface SelectionUsage {
+  /** Model calls, repairs and re-prompts included; failed attempts not. */
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Whether some of the token counts are estimates, for calls the model
+   * didn't report its usage for.
+   */
+  estimated: boolean;
+  /**
+   * Chunks asked about after splitting the candidates to stay within
+   * `tokenBudget`, counting every round; 0 when they fit a single prompt.
+   */
+  chunks: number;
+}
 
 export interface ElementSelectionResult {
   selectedElement: DOMElementNode | null;
   selectedIndex: number | null;
   confidence: number;
   reasoning: string;
+  usage?: SelectionUsage;
+}
+
+/** One element of a multi-element selection. */
+export interface ElementMatch {
+  element: DOMElementNode;
+  /** Its index in the pool it was selected from. */
+  index: number;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface ElementsSelectionResult {
+  /** Every element selected, each once, in page order. */
+  matches: ElementMatch[];
+  /** The model's explanation of the selection as a whole. */
+  reasoning: string;
+  /**
+   * Indices the model returned that weren't among the candidates it was
+   * shown — ignored, and not counted as matches.
+   */
+  invalidIndices: number[];
+  /**
+   * Whether the number of matches is within `minCount`..`maxCount`. False
+   * when it still wasn't after every re-prompt; the last answer is returned
+   * as is.
+   */
+  countInRange: boolean;
+  /**
+   * Answers asked for: the first, plus one per re-prompt. An answer sent
+   * back to be repaired still counts once.
+   */
+  attempts: number;
+  usage: SelectionUsage;
+}
+
+export interface ElementsSelectionOptions {
+  /**
+   * Fewest matches the description can plausibly have, e.g. 1 for "every
+   * required field" on a form known to have some. Default 0.
+   */
+  minCount: number;
+  /** Most matches it can plausibly have. Default unbounded. */
+  maxCount: number;
+  /**
+   * How many times to ask the model to look again when the number of
+   * matches is outside those bounds. The bounds themselves are only
+   * mentioned then, so the model isn't tempted to pad or trim its first
+   * answer to fit them.
+   */
+  maxReprompts: number;
+}
+
+export interface AllElementsSelectionOptions extends ElementsSelectionOptions {
+  /** See {@link LLMSelector.selectElementFromAllElements}. */
+  visibilityFilter: ElementVisibilityFilter;
 }
 
+// Tournament chunks asked at once: enough to overlap round trips, few
+// enough not to hit a provider's rate limit with a burst of them.
+const TOURNAMENT_CONCURRENCY = 3;
+
+/** A response format, for models with native structured output. */
+interface ResponseSchema {
+  name: string;
+  /** JSON schema of the answer. */
+  parameters: Record<string, unknown>;
+}
+
+const CONFIDENCE_PROPERTY = {
+  type: "number",
+  description: "Confidence from 0 to 1",
+};
+
+const SELECTION_SCHEMA: ResponseSchema = {
+  name: "select_element",
+  parameters: {
+    description: "The element matching the user's description, if any.",
+    type: "object",
+    properties: {
+      selectedIndex: {
+        type: ["integer", "null"],
+        description:
+          "Index of the matching element in the listing, or null for none",
+      },
+      confidence: CONFIDENCE_PROPERTY,
+      reasoning: {
+        type: "string",
+        description: "Brief explanation of the selection",
+      },
+    },
+    required: ["selectedIndex", "confidence", "reasoning"],
+  },
+};
+
+const MULTIPLE_SELECTION_SCHEMA: ResponseSchema = {
+  name: "select_elements",
+  parameters: {
+    description: "Every element matching the user's description.",
+    type: "object",
+    properties: {
+      matches: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: {
+              type: "integer",
+              description: "Index of a matching element in the listing",
+            },
+            confidence: CONFIDENCE_PROPERTY,
+            reasoning: {
+              type: "string",
+              description: "Brief explanation of why this element matches",
+            },
+          },
+          required: ["index", "confidence", "reasoning"],
+        },
+      },
+      reasoning: {
+        type: "string",
+        description: "Brief explanation of the selection as a whole",
+      },
+    },
+    required: ["matches", "reasoning"],
+  },
+};
+
+interface SelectionAnswer {
+  selectedIndex: number | null;
+  confidence: number;
+  reasoning: string;
+}
+
+interface MultipleSelectionAnswer {
+  matches: Array<{ index: number; confidence: number; reasoning: string }>;
+  reasoning: string;
+}
+
+// Roughly, across tokenizers: English text and markup run at about four
+// characters a token.
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * A validated answer, or what's wrong with the model's last attempt at one.
+ * `text` is the answer as the model gave it.
+ */
+type Answer<T> = { value: T; text: string } | { error: string; text: string };
+
 export class LLMSelector {
   private llm: BaseChatModel | any; // Allow any LLM implementation that extends BaseChatModel
   private config: LLMSelectorConfig;
+  private redactor: Redactor;
+  // By schema name; null where the model turned out not to support it.
+  private structuredModels = new Map<string, any>();
 
   constructor(
     llm: BaseChatModel | any,
@@ -85,8 +312,13 @@ export class LLMSelector {
       },
       // "auto" preserves the previous behaviour for existing consumers.
       screenshotDetail: "auto",
+      occludedElements: "tag",
+      redaction: {},
+      structuredOutput: true,
+      tokenBudget: null,
       ...config,
     };
+    this.redactor = new Redactor(this.config.redaction);
 
     // maxRetries was the only retry knob before retry {} existed. Honour it
     // when a caller sets it alone, so upgrading doesn't silently change how
@@ -107,14 +339,17 @@ export class LLMSelector {
    * instant the provider asked us to slow down, and a malformed request was
    * retried three times for nothing.
    */
-  private async invokeWithRetry(messages: any[]): Promise<any> {
+  private async invokeWithRetry(
+    messages: any[],
+    model: any = this.llm
+  ): Promise<any> {
     const { maxRetries, initialDelayMs, maxDelayMs } = this.config.retry;
 
     let lastError: unknown;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        return await this.llm.invoke(messages);
+        return await model.invoke(messages);
       } catch (error) {
         lastError = error;
 
@@ -159,6 +394,15 @@ export class LLMSelector {
     throw lastError;
   }
 
+  // A 400 that names what structured output adds to the request.
+  private isStructuredOutputRejection(error: unknown): boolean {
+    if (this.statusOf(error) !== 400) return false;
+    const message = error instanceof Error ? error.message : String(error);
+    return /\btools?\b|tool_choice|function|schema|response_format/i.test(
+      message
+    );
+  }
+
   private statusOf(error: unknown): number | undefined {
     const status = (error as any)?.status ?? (error as any)?.response?.status;
 
@@ -197,17 +441,19 @@ export class LLMSelector {
     prompt: string,
     browserState: BrowserState
   ): Promise<ElementSelectionResult> {
-    const systemPrompt = this.createSystemPrompt();
-    const userMessage = this.createUserMessage(prompt, browserState);
-
-    const messages = [systemPrompt, userMessage];
+    // Shown to the model and used to resolve its answer alike, so an
+    // excluded element can't come back through a guessed index.
+    const candidateElements = this.filterOccludedElements(
+      browserState.selectorMap
+    );
 
     // A RateLimitError from here propagates deliberately: the caller must be
     // able to tell throttling from "no element matched" (see errors.ts).
-    const response = await this.invokeWithRetry(messages);
-    const result = this.parseLLMResponse(
-      response.content as string,
-      browserState.selectorMap
+    const result = await this.selectFromPool(
+      prompt,
+      browserState,
+      candidateElements,
+      false
     );
 
     if (result.selectedElement) {
@@ -219,6 +465,7 @@ export class LLMSelector {
       selectedIndex: null,
       confidence: 0,
       reasoning: "Failed to select element after all attempts",
+      usage: result.usage,
     };
   }
 
@@ -238,26 +485,17 @@ export class LLMSelector {
     // silently resolve to a real but filtered-out element — e.g. a
     // "visible-only" search returning something the model was never shown,
     // because it happens to share that index in the full map.
-    const candidateElements = this.filterElementsByVisibility(
-      browserState.elementMap,
-      visibilityFilter
+    const candidateElements = this.filterOccludedElements(
+      this.filterElementsByVisibility(browserState.elementMap, visibilityFilter)
     );
 
-    const systemPrompt = this.createSystemPromptForAllElements();
-    const userMessage = this.createUserMessageForAllElements(
-      prompt,
-      browserState,
-      candidateElements
-    );
-
-    const messages = [systemPrompt, userMessage];
-
     // A RateLimitError from here propagates deliberately: the caller must be
     // able to tell throttling from "no element matched" (see errors.ts).
-    const response = await this.invokeWithRetry(messages);
-    const result = this.parseLLMResponseForAllElements(
-      response.content as string,
-      candidateElements
+    const result = await this.selectFromPool(
+      prompt,
+      browserState,
+      candidateElements,
+      true
     );
 
     if (result.selectedElement) {
@@ -269,12 +507,302 @@ export class LLMSelector {
       selectedIndex: null,
       confidence: 0,
       reasoning: "Failed to select element after all attempts",
+      usage: result.usage,
     };
   }
 
-  private createSystemPrompt(): SystemMessage {
-    // Based on the original system_prompt.md from browser-use-typescript
-    const prompt = `You are an AI assistant that helps select DOM elements from web pages based on user descriptions.
+  /**
+   * Select every interactive element matching a description — "all product
+   * cards", "every required field" — rather than the single best one.
+   *
+   * Indices are only ever resolved against the candidates the model was
+   * shown; any others are reported in `invalidIndices`. With `minCount` or
+   * `maxCount`, an answer with an implausible number of matches is sent
+   * back for the model to reconsider, up to `maxReprompts` times.
+   */
+  async selectElements(
+    prompt: string,
+    browserState: BrowserState,
+    options: Partial<ElementsSelectionOptions> = {}
+  ): Promise<ElementsSelectionResult> {
+    const candidateElements = this.filterOccludedElements(
+      browserState.selectorMap
+    );
+
+    return await this.selectMatching(
+      [
+        this.createSystemPromptForMultipleElements(false),
+        this.createUserMessage(prompt, browserState, candidateElements),
+      ],
+      candidateElements,
+      options
+    );
+  }
+
+  /**
+   * {@link selectElements} over ALL elements (interactive +
+   * non-interactive), e.g. "all rows with status Failed".
+   */
+  async selectAllMatching(
+    prompt: string,
+    browserState: BrowserState,
+    options: Partial<AllElementsSelectionOptions> = {}
+  ): Promise<ElementsSelectionResult> {
+    const { visibilityFilter = "any", ...bounds } = options;
+    // As in selectElementFromAllElements: one pool for the prompt and for
+    // resolving the answer.
+    const candidateElements = this.filterOccludedElements(
+      this.filterElementsByVisibility(browserState.elementMap, visibilityFilter)
+    );
+
+    return await this.selectMatching(
+      [
+        this.createSystemPromptForMultipleElements(true),
+        this.createUserMessageForAllElements(
+          prompt,
+          browserState,
+          candidateElements
+        ),
+      ],
+      candidateElements,
+      bounds
+    );
+  }
+
+  /**
+   * A single selection from `candidateElements` — in one prompt, or by
+   * tournament when that prompt would exceed `tokenBudget`.
+   */
+  private async selectFromPool(
+    prompt: string,
+    browserState: BrowserState,
+    candidateElements: SelectorMap | ElementMap,
+    allElements: boolean,
+    usage: SelectionUsage = {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimated: false,
+      chunks: 0,
+    }
+  ): Promise<ElementSelectionResult> {
+    const messages = this.selectionMessages(
+      prompt,
+      browserState,
+      candidateElements,
+      allElements
+    );
+    const budget = this.config.tokenBudget;
+    if (budget !== null && this.estimateTokens(messages) > budget) {
+      return await this.selectByTournament(
+        prompt,
+        browserState,
+        candidateElements,
+        allElements,
+        usage
+      );
+    }
+
+    const answer = await this.requestAnswer(
+      messages,
+      SELECTION_SCHEMA,
+      (value) => this.readSelection(value),
+      usage
+    );
+    return {
+      ...this.resolveSelection(
+        answer,
+        candidateElements,
+        allElements ? "element map" : "selector map"
+      ),
+      usage,
+    };
+  }
+
+  /**
+   * Splits the candidates into chunks that each fit `tokenBudget`, asks for
+   * the best candidate of every chunk, then selects among the winners (by
+   * tournament again, if even they don't fit one prompt).
+   *
+   * Chunks are consecutive runs of the listing, in document order, so an
+   * element is mostly judged next to its neighbours — a label and its
+   * field, the cells of a row. A few are asked at a time (see
+   * TOURNAMENT_CONCURRENCY).
+   */
+  private async selectByTournament(
+    prompt: string,
+    browserState: BrowserState,
+    candidateElements: SelectorMap | ElementMap,
+    allElements: boolean,
+    usage: SelectionUsage
+  ): Promise<ElementSelectionResult> {
+    const chunks = this.chunkCandidates(
+      prompt,
+      browserState,
+      candidateElements,
+      allElements
+    );
+
+    // After a failure no further chunks are asked, and the ones in flight
+    // are waited for, so `usage` is final by the time the error is thrown.
+    const results: ElementSelectionResult[] = [];
+    const errors: unknown[] = [];
+    let next = 0;
+    const askChunks = async () => {
+      while (errors.length === 0 && next < chunks.length) {
+        const index = next++;
+        const chunk = chunks[index];
+        usage.chunks++;
+        try {
+          const answer = await this.requestAnswer(
+            this.selectionMessages(prompt, browserState, chunk, allElements),
+            SELECTION_SCHEMA,
+            (value) => this.readSelection(value),
+            usage
+          );
+          results[index] = this.resolveSelection(answer, chunk, "chunk");
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(TOURNAMENT_CONCURRENCY, chunks.length) },
+        askChunks
+      )
+    );
+    if (errors.length > 0) throw errors[0];
+
+    const winners: SelectorMap = {};
+    const selected = results.filter((result) => result.selectedIndex !== null);
+    for (const result of selected) {
+      winners[result.selectedIndex!] = result.selectedElement!;
+    }
+
+    if (selected.length === 0) {
+      return {
+        selectedElement: null,
+        selectedIndex: null,
+        confidence: 0,
+        reasoning: `No element selected in any of ${chunks.length} chunks`,
+        usage,
+      };
+    }
+    // Nothing to compare it with, or no narrowing left to do (chunks of
+    // one element each): the most confident winner it is.
+    if (
+      selected.length === 1 ||
+      selected.length === Object.keys(candidateElements).length
+    ) {
+      const best = selected.reduce((a, b) =>
+        b.confidence > a.confidence ? b : a
+      );
+      return { ...best, usage };
+    }
+
+    return await this.selectFromPool(
+      prompt,
+      browserState,
+      winners,
+      allElements,
+      usage
+    );
+  }
+
+  /**
+   * Consecutive runs of the candidates, each listed in as many tokens as a
+   * prompt has left within `tokenBudget`.
+   */
+  private chunkCandidates(
+    prompt: string,
+    browserState: BrowserState,
+    candidateElements: SelectorMap | ElementMap,
+    allElements: boolean
+  ): SelectorMap[] {
+    const budget = this.config.tokenBudget!;
+    const overhead = this.estimateTokens(
+      this.selectionMessages(prompt, browserState, {}, allElements)
+    );
+    const available = budget - overhead;
+    if (available <= 0) {
+      throw new Error(
+        `tokenBudget of ${budget} leaves no room for elements: the prompt ` +
+          `takes about ${overhead} tokens without any`
+      );
+    }
+
+    const chunks: SelectorMap[] = [];
+    let chunk: SelectorMap = {};
+    let size = 0;
+    for (const [key, node] of Object.entries(candidateElements)) {
+      const single = { [key]: node };
+      const tokens =
+        estimateTextTokens(
+          allElements
+            ? this.formatAllElementsForLLM(single)
+            : this.formatElementsForLLM(browserState.elementTree, single)
+        ) + 1;
+      if (size > 0 && size + tokens > available) {
+        chunks.push(chunk);
+        chunk = {};
+        size = 0;
+      }
+      chunk[Number(key)] = node;
+      size += tokens;
+    }
+    if (size > 0) chunks.push(chunk);
+    return chunks;
+  }
+
+  private selectionMessages(
+    prompt: string,
+    browserState: BrowserState,
+    candidateElements: SelectorMap | ElementMap,
+    allElements: boolean
+  ): BaseMessage[] {
+    return allElements
+      ? [
+          this.createSystemPromptForAllElements(),
+          this.createUserMessageForAllElements(
+            prompt,
+            browserState,
+            candidateElements
+          ),
+        ]
+      : [
+          this.createSystemPrompt(),
+          this.createUserMessage(prompt, browserState, candidateElements),
+        ];
+  }
+
+  /**
+   * A prompt's size by {@link estimateTextTokens}, plus a few tokens per
+   * message and a flat cost per image at the configured detail (OpenAI's
+   * figures: 85 at "low", 765 for a typical screenshot otherwise).
+   */
+  private estimateTokens(messages: BaseMessage[]): number {
+    let tokens = 0;
+    for (const message of messages) {
+      tokens += 4;
+      const content = message.content;
+      const parts = typeof content === "string" ? [content] : content;
+      for (const part of parts) {
+        if (typeof part === "string") {
+          tokens += estimateTextTokens(part);
+        } else if (part.type === "text") {
+          tokens += estimateTextTokens(String(part.text));
+        } else if (part.type === "image_url") {
+          tokens += this.config.screenshotDetail === "low" ? 85 : 765;
+        }
+      }
+    }
+    return tokens;
+  }
+
+  // How createUserMessage lists the candidates, for the system prompts.
+  private interactiveElementsFormat(): string {
+    return `You are an AI assistant that helps select DOM elements from web pages based on user descriptions.
 
 # Input Format
 Interactive Elements are provided in this format:
@@ -287,6 +815,17 @@ Example:
 
 - Only elements with numeric indexes in [] are interactive
 - elements without [] provide only context
+- An element tagged "occluded" (e.g. [index]<type occluded>text</type>) is
+  covered by something else on the page — a cookie banner, sticky header,
+  dialog or its backdrop — so a real click would land on that instead
+- Form controls carry their current state after the type, e.g.
+  <input checked required>, <input value="jane@" invalid="Please include an
+  '@'">, <select selected="Canada">, <button disabled>`;
+  }
+
+  private createSystemPrompt(): SystemMessage {
+    // Based on the original system_prompt.md from browser-use-typescript
+    const prompt = `${this.interactiveElementsFormat()}
 
 # Response Rules
 1. RESPONSE FORMAT: You must ALWAYS respond with valid JSON in this exact format:
@@ -298,6 +837,9 @@ Example:
 
 2. ELEMENT SELECTION:
 - Only select elements that are visible and interactive
+- Avoid an element tagged "occluded" unless the description can only mean
+  that element; the covering element (e.g. the banner's own button) is
+  usually what needs to be dealt with first
 - Consider the element's text content, attributes, and context
 - If multiple elements could match, choose the most specific one
 - If no element matches the description, return null
@@ -314,11 +856,12 @@ Your responses must be always JSON with the specified format.`;
 
   private createUserMessage(
     prompt: string,
-    browserState: BrowserState
+    browserState: BrowserState,
+    candidateElements: SelectorMap = browserState.selectorMap
   ): HumanMessage {
     const elementsText = this.formatElementsForLLM(
       browserState.elementTree,
-      browserState.selectorMap
+      candidateElements
     );
 
     const hasContentAbove = browserState.pixels_above > 0;
@@ -345,22 +888,36 @@ Your responses must be always JSON with the specified format.`;
 [Task history memory ends]
 [Current state starts here]
 The following is one-time information - if you need to remember it write it to memory:
-Current url: ${browserState.url}
-Page title: ${browserState.title}
+Current url: ${this.redactor.redactText(browserState.url)}
+Page title: ${this.redactor.redactText(browserState.title)}
 Interactive elements from top layer of the current page inside the viewport:
 ${formattedElementsText}
 
 User Prompt: ${prompt}
 `;
 
-    if (this.config.useVision && browserState.screenshot) {
+    return this.withScreenshot(stateDescription, browserState);
+  }
+
+  private withScreenshot(
+    stateDescription: string,
+    browserState: BrowserState
+  ): HumanMessage {
+    const screenshot = this.config.useVision
+      ? this.redactor.redactScreenshot(
+          browserState.screenshot,
+          browserState.elementTree
+        )
+      : "";
+
+    if (screenshot) {
       return new HumanMessage({
         content: [
           { type: "text", text: stateDescription },
           {
             type: "image_url",
             image_url: {
-              url: `data:image/png;base64,${browserState.screenshot}`,
+              url: `data:image/png;base64,${screenshot}`,
               detail: this.config.screenshotDetail,
             },
           },
@@ -384,27 +941,11 @@ User Prompt: ${prompt}
 
     for (const node of sortedElements) {
       if (node.highlightIndex !== null) {
-        let attributesStr = "";
-        const text = node.getAllTextTillNextClickableElement();
-
-        if (this.config.includeAttributes) {
-          const attributes = Array.from(
-            new Set(
-              Object.entries(node.attributes)
-                .filter(
-                  ([key, value]) =>
-                    this.config.includeAttributes.includes(key) &&
-                    value !== node.tagName
-                )
-                .map(([, value]) => value)
-            )
-          );
-          if (attributes.includes(text))
-            attributes.splice(attributes.indexOf(text), 1);
-          attributesStr = attributes.join(";");
-        }
+        const { text, attributesStr } = this.describeElement(node);
 
-        let line = `[${node.highlightIndex}]<${node.tagName}`;
+        const occlusionTag = this.occlusionTag(node);
+
+        let line = `[${node.highlightIndex}]<${node.tagName}${occlusionTag}${this.formStateTag(node)}`;
         if (attributesStr) line += ` ${attributesStr}`;
         if (text) line += `>${text}</${node.tagName}>`;
         else line += "/>";
@@ -416,72 +957,292 @@ User Prompt: ${prompt}
     return formattedText.join("\n");
   }
 
-  private parseLLMResponse(
-    response: string,
-    selectorMap: SelectorMap
-  ): ElementSelectionResult {
-    try {
-      // Clean the response to extract JSON
-      let jsonStr = response.trim();
-
-      // Remove markdown code blocks if present
-      if (jsonStr.includes("```")) {
-        const codeBlockMatch = jsonStr.match(
-          /```(?:json)?\s*(\{[\s\S]*?\})\s*```/
-        );
-        if (codeBlockMatch) {
-          jsonStr = codeBlockMatch[1];
-        }
-      }
+  /**
+   * The text and attribute summary shown for one element in a listing.
+   *
+   * Raw attributes miss how most icon-only controls are actually labelled
+   * (aria-labelledby, `<label for>`, an svg `<title>`), so the computed
+   * accessible name stands in for the text when the element renders none,
+   * and is listed next to the attributes when it says something the text
+   * doesn't — as is the accessible description. Everything shown passes
+   * through the redactor.
+   */
+  private describeElement(node: DOMElementNode): {
+    text: string;
+    attributesStr: string;
+  } {
+    const redact = (value: string) => this.redactor.redactText(value);
+
+    let text = redact(node.getAllTextTillNextClickableElement());
+    if (!text && node.accessibleName) text = redact(node.accessibleName);
+
+    let attributesStr = "";
+    if (this.config.includeAttributes) {
+      const attributes = Array.from(
+        new Set(
+          [
+            ...Object.entries(node.attributes)
+              .filter(
+                ([key, value]) =>
+                  this.config.includeAttributes.includes(key) &&
+                  this.redactor.isAllowedAttribute(node, key) &&
+                  value !== node.tagName
+              )
+              .map(([, value]) => redact(value)),
+            redact(node.accessibleName),
+            redact(node.accessibleDescription),
+          ].filter((value) => value !== "")
+        )
+      );
+      if (attributes.includes(text))
+        attributes.splice(attributes.indexOf(text), 1);
+      attributesStr = attributes.join(";");
+    }
 
-      const parsed = JSON.parse(jsonStr);
-      const selectedIndex = parsed.selectedIndex;
-      const confidence = parsed.confidence || 0;
-      const reasoning = parsed.reasoning || "";
+    return { text, attributesStr };
+  }
 
-      if (selectedIndex === null || selectedIndex === undefined) {
+  /**
+   * Asks the model for an answer in `schema`'s format and validates it with
+   * `read`. An answer that can't be read or doesn't validate is sent back
+   * once, with what's wrong with it, for the model to repair.
+   */
+  private async requestAnswer<T>(
+    messages: BaseMessage[],
+    schema: ResponseSchema,
+    read: (answer: unknown) => T,
+    usage: SelectionUsage
+  ): Promise<Answer<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const { answer, text } = await this.invokeForAnswer(
+        messages,
+        schema,
+        usage
+      );
+      try {
         return {
-          selectedElement: null,
-          selectedIndex: null,
-          confidence: 0,
-          reasoning: reasoning || "No element selected",
+          value: read(answer === undefined ? parseJsonLoosely(text) : answer),
+          text,
         };
+      } catch (error) {
+        const problem = error instanceof Error ? error.message : String(error);
+        if (attempt > 0) {
+          console.error("Failed to parse LLM response:", error);
+          return { error: problem, text };
+        }
+        messages = [
+          ...messages,
+          new AIMessage(text),
+          new HumanMessage(
+            `Your response could not be used: ${problem}. Respond again ` +
+              "with only the JSON object, in the required format."
+          ),
+        ];
       }
+    }
+  }
 
-      const selectedElement = selectorMap[selectedIndex];
-      if (!selectedElement) {
-        return {
-          selectedElement: null,
-          selectedIndex: null,
-          confidence: 0,
-          reasoning: `Element with index ${selectedIndex} not found in selector map`,
-        };
+  /**
+   * The model's answer — already parsed when it came through structured
+   * output, else undefined — and its text. Adds the call to `usage`.
+   */
+  private async invokeForAnswer(
+    messages: BaseMessage[],
+    schema: ResponseSchema,
+    usage: SelectionUsage
+  ): Promise<{ answer: unknown; text: string }> {
+    const model = this.structuredModel(schema);
+    if (model) {
+      try {
+        const { raw, parsed } = await this.invokeWithRetry(messages, model);
+        // A tool call LangChain couldn't parse into the schema still has
+        // its arguments, which the answer's own validation can judge.
+        const answer = parsed ?? raw?.tool_calls?.[0]?.args;
+        const result =
+          answer !== null && answer !== undefined
+            ? { answer, text: JSON.stringify(answer) }
+            : { answer: undefined, text: this.messageText(raw) };
+        this.recordUsage(usage, messages, raw, result.text);
+        return result;
+      } catch (error) {
+        // The provider rejected the tool or schema: this model can't answer
+        // that way, so it answers in text from now on. Any other bad
+        // request would fail in text just the same.
+        if (!this.isStructuredOutputRejection(error)) throw error;
+        console.warn(
+          `Structured output failed, falling back to text: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        this.structuredModels.set(schema.name, null);
+      }
+    }
+
+    const response = await this.invokeWithRetry(messages);
+    const text = this.messageText(response);
+    this.recordUsage(usage, messages, response, text);
+    return { answer: undefined, text };
+  }
+
+  // The token counts the model reports (LangChain's `usage_metadata`), or
+  // estimates without them.
+  private recordUsage(
+    usage: SelectionUsage,
+    messages: BaseMessage[],
+    response: any,
+    text: string
+  ): void {
+    usage.calls++;
+    const reported = response?.usage_metadata;
+    if (
+      typeof reported?.input_tokens === "number" &&
+      typeof reported?.output_tokens === "number"
+    ) {
+      usage.inputTokens += reported.input_tokens;
+      usage.outputTokens += reported.output_tokens;
+    } else {
+      usage.estimated = true;
+      usage.inputTokens += this.estimateTokens(messages);
+      usage.outputTokens += estimateTextTokens(text);
+    }
+  }
+
+  /**
+   * The model bound to answer in `schema`'s format, or null when structured
+   * output is off or the model doesn't support it.
+   */
+  private structuredModel(schema: ResponseSchema): any | null {
+    if (
+      !this.config.structuredOutput ||
+      typeof this.llm.withStructuredOutput !== "function"
+    ) {
+      return null;
+    }
+    if (!this.structuredModels.has(schema.name)) {
+      let model = null;
+      try {
+        model = this.llm.withStructuredOutput(schema.parameters, {
+          name: schema.name,
+          includeRaw: true,
+        });
+      } catch {
+        // Chat models without tool calling throw here.
       }
+      this.structuredModels.set(schema.name, model);
+    }
+    return this.structuredModels.get(schema.name);
+  }
+
+  private messageText(message: any): string {
+    const content = message?.content;
+    if (typeof content === "string") return content;
+    if (!Array.isArray(content)) return "";
+    return content
+      .map((part) =>
+        typeof part === "string" ? part : part?.type === "text" ? part.text : ""
+      )
+      .join("");
+  }
 
+  /** Validates a single selection, coercing what's unambiguous. */
+  private readSelection(answer: unknown): SelectionAnswer {
+    if (typeof answer !== "object" || answer === null) {
+      throw new Error("expected a JSON object");
+    }
+    const { selectedIndex, confidence, reasoning } = answer as Record<
+      string,
+      unknown
+    >;
+    if (selectedIndex === undefined) {
+      throw new Error('"selectedIndex" is missing');
+    }
+    return {
+      selectedIndex: this.readIndex(selectedIndex, "selectedIndex", true),
+      confidence: this.readConfidence(confidence),
+      reasoning: typeof reasoning === "string" ? reasoning : "",
+    };
+  }
+
+  /**
+   * An index as models write it: a number, or a string like "12" or "[12]".
+   */
+  private readIndex(
+    value: unknown,
+    name: string,
+    nullable: true
+  ): number | null;
+  private readIndex(value: unknown, name: string): number;
+  private readIndex(
+    value: unknown,
+    name: string,
+    nullable = false
+  ): number | null {
+    if (nullable && (value === null || value === "null")) return null;
+    const match =
+      typeof value === "string"
+        ? /^\s*\[?\s*(\d+)\s*\]?\s*$/.exec(value)
+        : null;
+    const index = match ? Number(match[1]) : value;
+    if (typeof index !== "number" || !Number.isInteger(index)) {
+      throw new Error(
+        `"${name}" must be an index from the listing${
+          nullable ? " or null" : ""
+        }, not ${JSON.stringify(value)}`
+      );
+    }
+    return index;
+  }
+
+  private readConfidence(value: unknown): number {
+    const confidence = Number(value);
+    return Number.isFinite(confidence)
+      ? Math.max(0, Math.min(1, confidence))
+      : 0;
+  }
+
+  /** Looks a single selection's index up in the pool it was made from. */
+  private resolveSelection(
+    answer: Answer<SelectionAnswer>,
+    candidateElements: SelectorMap | ElementMap,
+    mapName: string
+  ): ElementSelectionResult {
+    if ("error" in answer) {
       return {
-        selectedElement,
-        selectedIndex,
-        confidence: Math.max(0, Math.min(1, confidence)),
-        reasoning,
+        selectedElement: null,
+        selectedIndex: null,
+        confidence: 0,
+        reasoning: `Failed to parse LLM response: ${answer.error}`,
       };
-    } catch (error) {
-      console.error("Failed to parse LLM response:", error);
+    }
+
+    const { selectedIndex, confidence, reasoning } = answer.value;
+    if (selectedIndex === null) {
       return {
         selectedElement: null,
         selectedIndex: null,
         confidence: 0,
-        reasoning: `Failed to parse LLM response: ${error}`,
+        reasoning: reasoning || "No element selected",
       };
     }
+
+    const selectedElement = candidateElements[selectedIndex];
+    if (!selectedElement) {
+      return {
+        selectedElement: null,
+        selectedIndex: null,
+        confidence: 0,
+        reasoning: `Element with index ${selectedIndex} not found in ${mapName}`,
+      };
+    }
+
+    return { selectedElement, selectedIndex, confidence, reasoning };
   }
 
   // ===== Methods for selecting from ALL elements (interactive + non-interactive) =====
 
-  /**
-   * Create system prompt for selecting from ALL elements
-   */
-  private createSystemPromptForAllElements(): SystemMessage {
-    const prompt = `You are an AI assistant that helps select DOM elements from web pages based on user descriptions.
+  // How createUserMessageForAllElements lists the candidates.
+  private allElementsFormat(): string {
+    return `You are an AI assistant that helps select DOM elements from web pages based on user descriptions.
 
 # Input Format
 ALL Elements (interactive and non-interactive) are provided in this format:
@@ -494,11 +1255,30 @@ ALL Elements (interactive and non-interactive) are provided in this format:
   viewport width, inside a menu/modal that isn't open, or otherwise not
   rendered. Its text may come only from an attribute like aria-label/title,
   not from anything a user can actually see or a screenshot would show.
+  The tag usually says why, e.g. hidden="display-none":
+  - display-none, visibility-hidden, zero-size, opacity-zero, clipped: not
+    shown wherever the page is scrolled (collapsed, transparent, or cut off)
+  - outside-viewport: rendered, but scrolled out of view — it exists, a user
+    would have to scroll to see it
+- An element tagged "aria-hidden" is hidden from screen readers and other
+  assistive tech; on its own that says nothing about whether it's shown.
+- An element tagged "occluded" is rendered but covered by something else on
+  the page (a cookie banner, sticky header, dialog or its backdrop).
+- Form controls carry their current state after the type, e.g.
+  <input unchecked required>, <input value="jane@" invalid>,
+  <select selected="Canada">, <button disabled>
 Example:
 [15]<h1>Welcome to Our Site</h1>
 [33]<button>Submit Form</button>
 [42]<p>This is a paragraph of text</p>
-[57]<button hidden>Open menu</button>
+[57]<button hidden="display-none">Open menu</button>`;
+  }
+
+  /**
+   * Create system prompt for selecting from ALL elements
+   */
+  private createSystemPromptForAllElements(): SystemMessage {
+    const prompt = `${this.allElementsFormat()}
 
 # Response Rules
 1. RESPONSE FORMAT: You must ALWAYS respond with valid JSON in this exact format:
@@ -565,30 +1345,15 @@ Your responses must be always JSON with the specified format.`;
 [Task history memory ends]
 [Current state starts here]
 The following is one-time information - if you need to remember it write it to memory:
-Current url: ${browserState.url}
-Page title: ${browserState.title}
+Current url: ${this.redactor.redactText(browserState.url)}
+Page title: ${this.redactor.redactText(browserState.title)}
 ALL elements from top layer of the current page inside the viewport:
 ${formattedElementsText}
 
 User Prompt: ${prompt}
 `;
 
-    if (this.config.useVision && browserState.screenshot) {
-      return new HumanMessage({
-        content: [
-          { type: "text", text: stateDescription },
-          {
-            type: "image_url",
-            image_url: {
-              url: `data:image/png;base64,${browserState.screenshot}`,
-              detail: this.config.screenshotDetail,
-            },
-          },
-        ],
-      });
-    }
-
-    return new HumanMessage(stateDescription);
+    return this.withScreenshot(stateDescription, browserState);
   }
 
   /**
@@ -604,19 +1369,128 @@ User Prompt: ${prompt}
 
     const filtered: ElementMap = {};
     for (const [key, node] of Object.entries(elementMap)) {
-      const keep =
-        visibilityFilter === "visible-only" ? node.isVisible : !node.isVisible;
-      if (keep) filtered[Number(key)] = node;
+      if (this.matchesVisibilityFilter(node, visibilityFilter)) {
+        filtered[Number(key)] = node;
+      }
     }
     return filtered;
   }
 
+  private matchesVisibilityFilter(
+    node: DOMElementNode,
+    visibilityFilter: ElementVisibilityFilter
+  ): boolean {
+    const visible = node.visibility?.visible ?? node.isVisible;
+    const reasons = node.visibility?.reasons ?? [];
+    const hiddenReasons = reasons.filter((reason) => reason !== "aria-hidden");
+
+    switch (visibilityFilter) {
+      case "any":
+        return true;
+      case "visible-only":
+        return visible;
+      case "hidden-only":
+        return !visible;
+      case "offscreen-only":
+        return (
+          hiddenReasons.length === 1 && hiddenReasons[0] === "outside-viewport"
+        );
+      case "collapsed-only":
+        return hiddenReasons.some((reason) => reason !== "outside-viewport");
+      case "aria-hidden-only":
+        return reasons.includes("aria-hidden");
+    }
+  }
+
+  /**
+   * ` hidden="<reasons>"` for an element a user can't see, plus
+   * ` aria-hidden` for one assistive tech doesn't perceive. A bare
+   * ` hidden` when the node has no visibility reasons to give.
+   */
+  private visibilityTag(node: DOMElementNode): string {
+    if (!node.visibility) return node.isVisible ? "" : " hidden";
+
+    const reasons = node.visibility.reasons;
+    const hiddenReasons = reasons.filter((reason) => reason !== "aria-hidden");
+    let tag =
+      hiddenReasons.length > 0 ? ` hidden="${hiddenReasons.join(" ")}"` : "";
+    if (reasons.includes("aria-hidden")) tag += " aria-hidden";
+    return tag;
+  }
+
+  /**
+   * Applies {@link LLMSelectorConfig.occludedElements} to a candidate map.
+   */
+  private filterOccludedElements<T extends SelectorMap | ElementMap>(
+    elements: T
+  ): T {
+    if (this.config.occludedElements !== "exclude") return elements;
+
+    const filtered: SelectorMap = {};
+    for (const [key, node] of Object.entries(elements)) {
+      if (node.occludedBy === null) filtered[Number(key)] = node;
+    }
+    return filtered as T;
+  }
+
+  private occlusionTag(node: DOMElementNode): string {
+    return node.occludedBy !== null ? " occluded" : "";
+  }
+
+  /**
+   * A control's live state, so descriptions like "the unchecked terms
+   * checkbox" or "the field with a validation error" can be matched.
+   * Password values are never shown, only whether the field is filled.
+   */
+  private formStateTag(node: DOMElementNode): string {
+    const state = node.formState;
+    if (!state) return "";
+
+    const quote = (value: string) => {
+      const redacted = this.redactor.redactText(value);
+      return JSON.stringify(
+        redacted.length > 100 ? `${redacted.substring(0, 100)}...` : redacted
+      );
+    };
+
+    const parts: string[] = [];
+    if (state.indeterminate) parts.push("indeterminate");
+    else if (state.checked !== undefined)
+      parts.push(state.checked ? "checked" : "unchecked");
+    if (state.value) {
+      parts.push(
+        this.redactor.isMaskedControl(node)
+          ? "filled"
+          : `value=${quote(state.value)}`
+      );
+    }
+    if (state.selectedOptions) {
+      parts.push(
+        state.selectedOptions.length > 0
+          ? `selected=${quote(state.selectedOptions.join(", "))}`
+          : "nothing-selected"
+      );
+    }
+    if (state.disabled) parts.push("disabled");
+    if (state.readOnly) parts.push("readonly");
+    if (state.required) parts.push("required");
+    if (state.invalid) {
+      parts.push(
+        state.validationMessage
+          ? `invalid=${quote(state.validationMessage)}`
+          : "invalid"
+      );
+    }
+
+    return parts.length > 0 ? ` ${parts.join(" ")}` : "";
+  }
+
   /**
    * Format ALL elements (interactive + non-interactive) for LLM.
    *
-   * Every element is tagged with its actual visibility (`isVisible`, computed
-   * from real `getComputedStyle`/bounding-rect checks during DOM extraction —
-   * see `buildDomTreeOverlay`). Without this, a button hidden by a responsive
+   * Every element is tagged with its actual visibility (`visibility`, or
+   * `isVisible` without it, computed from real `getComputedStyle`/bounding-
+   * rect checks during DOM extraction — see `buildDomTreeOverlay`). Without this, a button hidden by a responsive
    * class like `md:hidden` is indistinguishable in this listing from a
    * genuinely visible one: its only "text" often comes from an aria-label/
    * title fallback (`DOMElementNode.getDirectTextContent`), so it can read as
@@ -634,29 +1508,12 @@ User Prompt: ${prompt}
 
     for (const node of sortedElements) {
       if (node.elementIndex !== null) {
-        let attributesStr = "";
-        const text = node.getAllTextTillNextClickableElement();
-
-        if (this.config.includeAttributes) {
-          const attributes = Array.from(
-            new Set(
-              Object.entries(node.attributes)
-                .filter(
-                  ([key, value]) =>
-                    this.config.includeAttributes.includes(key) &&
-                    value !== node.tagName
-                )
-                .map(([, value]) => value)
-            )
-          );
-          if (attributes.includes(text))
-            attributes.splice(attributes.indexOf(text), 1);
-          attributesStr = attributes.join(";");
-        }
+        const { text, attributesStr } = this.describeElement(node);
 
-        const visibilityTag = node.isVisible ? "" : " hidden";
+        const visibilityTag = this.visibilityTag(node);
+        const occlusionTag = this.occlusionTag(node);
 
-        let line = `[${node.elementIndex}]<${node.tagName}${visibilityTag}`;
+        let line = `[${node.elementIndex}]<${node.tagName}${visibilityTag}${occlusionTag}${this.formStateTag(node)}`;
         if (attributesStr) line += ` ${attributesStr}`;
         if (text) line += `>${text}</${node.tagName}>`;
         else line += "/>";
@@ -668,65 +1525,195 @@ User Prompt: ${prompt}
     return formattedText.join("\n");
   }
 
+  // ===== Methods for selecting several elements =====
+
   /**
-   * Parse LLM response for ALL elements selection
+   * Asks for matches, and asks again while their number is out of bounds.
    */
-  private parseLLMResponseForAllElements(
-    response: string,
-    elementMap: ElementMap
-  ): ElementSelectionResult {
-    try {
-      // Clean the response to extract JSON
-      let jsonStr = response.trim();
-
-      // Remove markdown code blocks if present
-      if (jsonStr.includes("```")) {
-        const codeBlockMatch = jsonStr.match(
-          /```(?:json)?\s*(\{[\s\S]*?\})\s*```/
-        );
-        if (codeBlockMatch) {
-          jsonStr = codeBlockMatch[1];
-        }
-      }
+  private async selectMatching(
+    messages: BaseMessage[],
+    candidateElements: SelectorMap | ElementMap,
+    options: Partial<ElementsSelectionOptions>
+  ): Promise<ElementsSelectionResult> {
+    const { minCount, maxCount, maxReprompts } = {
+      minCount: 0,
+      maxCount: Infinity,
+      maxReprompts: 2,
+      ...options,
+    };
+    if (minCount > maxCount) {
+      throw new Error(`minCount (${minCount}) exceeds maxCount (${maxCount})`);
+    }
+    const usage: SelectionUsage = {
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      estimated: false,
+      chunks: 0,
+    };
 
-      const parsed = JSON.parse(jsonStr);
-      const selectedIndex = parsed.selectedIndex;
-      const confidence = parsed.confidence || 0;
-      const reasoning = parsed.reasoning || "";
+    for (let attempts = 1; ; attempts++) {
+      // A RateLimitError from here propagates, as for a single selection.
+      const answer = await this.requestAnswer(
+        messages,
+        MULTIPLE_SELECTION_SCHEMA,
+        (value) => this.readMatches(value),
+        usage
+      );
+      const result = this.resolveMatches(answer, candidateElements);
 
-      if (selectedIndex === null || selectedIndex === undefined) {
-        return {
-          selectedElement: null,
-          selectedIndex: null,
-          confidence: 0,
-          reasoning: reasoning || "No element selected",
-        };
+      const count = result.matches.length;
+      const countInRange = count >= minCount && count <= maxCount;
+      if (countInRange || attempts > maxReprompts) {
+        return { ...result, countInRange, attempts, usage };
       }
 
-      const selectedElement = elementMap[selectedIndex];
-      if (!selectedElement) {
+      messages = [
+        ...messages,
+        new AIMessage(answer.text),
+        new HumanMessage(
+          this.createCountFeedback(
+            count,
+            minCount,
+            maxCount,
+            result.invalidIndices
+          )
+        ),
+      ];
+    }
+  }
+
+  private createSystemPromptForMultipleElements(
+    allElements: boolean
+  ): SystemMessage {
+    const visibilityRule = allElements
+      ? `- Do not select an element tagged "hidden" unless the description itself
+  expects its targets to be hidden, closed, or not shown`
+      : `- Only select elements that are visible and interactive`;
+
+    const prompt = `${
+      allElements ? this.allElementsFormat() : this.interactiveElementsFormat()
+    }
+
+# Response Rules
+1. RESPONSE FORMAT: You must ALWAYS respond with valid JSON in this exact format:
+{
+  "matches": [
+    {
+      "index": number,
+      "confidence": number (0-1),
+      "reasoning": "Brief explanation of why this element matches"
+    }
+  ],
+  "reasoning": "Brief explanation of the selection as a whole"
+}
+
+2. ELEMENT SELECTION:
+- Select EVERY element that matches the description, not just the best one
+- Only use indexes from the listing, and list each element once
+${visibilityRule}
+- Avoid an element tagged "occluded" unless the description can only mean
+  that element
+- Consider each element's text content, attributes, and context
+- When matches contain one another (a card and its title), select the
+  element the description names — usually the outermost
+- If no element matches the description, return an empty "matches" list
+
+3. VISUAL CONTEXT:
+- When an image is provided, use it to understand the page layout
+- Bounding boxes with labels on their top right corner correspond to element indexes
+
+Your responses must be always JSON with the specified format.`;
+
+    return new SystemMessage(prompt);
+  }
+
+  private createCountFeedback(
+    count: number,
+    minCount: number,
+    maxCount: number,
+    invalidIndices: number[]
+  ): string {
+    const expected =
+      maxCount === Infinity
+        ? `at least ${minCount}`
+        : minCount === 0
+          ? `at most ${maxCount}`
+          : minCount === maxCount
+            ? `exactly ${minCount}`
+            : `between ${minCount} and ${maxCount}`;
+
+    const selected = `${count} element${count === 1 ? "" : "s"}`;
+    let feedback = `You selected ${selected}, but ${expected} should match.`;
+    if (invalidIndices.length > 0) {
+      const indexes = invalidIndices.join(", ");
+      feedback += ` Indexes ${indexes} are not in the listing.`;
+    }
+    return (
+      `${feedback} Go through the listing again and select every element ` +
+      "that matches the description, and only those. Respond with the same " +
+      "JSON format."
+    );
+  }
+
+  /** Validates a multiple selection, coercing what's unambiguous. */
+  private readMatches(answer: unknown): MultipleSelectionAnswer {
+    if (typeof answer !== "object" || answer === null) {
+      throw new Error("expected a JSON object");
+    }
+    const { matches, reasoning } = answer as Record<string, unknown>;
+    if (!Array.isArray(matches)) {
+      throw new Error('"matches" must be a list');
+    }
+
+    return {
+      matches: matches.map((entry, i) => {
+        // A bare index is as good as an entry without the details.
+        const details: Record<string, unknown> =
+          typeof entry === "object" && entry !== null
+            ? entry
+            : { index: entry };
         return {
-          selectedElement: null,
-          selectedIndex: null,
-          confidence: 0,
-          reasoning: `Element with index ${selectedIndex} not found in element map`,
+          index: this.readIndex(details.index, `matches[${i}].index`),
+          confidence: this.readConfidence(details.confidence),
+          reasoning:
+            typeof details.reasoning === "string" ? details.reasoning : "",
         };
-      }
+      }),
+      reasoning: typeof reasoning === "string" ? reasoning : "",
+    };
+  }
 
+  /**
+   * Looks a multiple selection's indices up in the pool it was made from,
+   * dropping repeats.
+   */
+  private resolveMatches(
+    answer: Answer<MultipleSelectionAnswer>,
+    candidateElements: SelectorMap | ElementMap
+  ): Omit<ElementsSelectionResult, "countInRange" | "attempts" | "usage"> {
+    if ("error" in answer) {
       return {
-        selectedElement,
-        selectedIndex,
-        confidence: Math.max(0, Math.min(1, confidence)),
-        reasoning,
-      };
-    } catch (error) {
-      console.error("Failed to parse LLM response:", error);
-      return {
-        selectedElement: null,
-        selectedIndex: null,
-        confidence: 0,
-        reasoning: `Failed to parse LLM response: ${error}`,
+        matches: [],
+        invalidIndices: [],
+        reasoning: `Failed to parse LLM response: ${answer.error}`,
       };
     }
+
+    const matches = new Map<number, ElementMatch>();
+    const invalidIndices: number[] = [];
+    for (const { index, confidence, reasoning } of answer.value.matches) {
+      const element = candidateElements[index];
+      if (!element) invalidIndices.push(index);
+      else if (!matches.has(index)) {
+        matches.set(index, { element, index, confidence, reasoning });
+      }
+    }
+
+    return {
+      matches: [...matches.values()].sort((a, b) => a.index - b.index),
+      invalidIndices,
+      reasoning: answer.value.reasoning,
+    };
   }
 }
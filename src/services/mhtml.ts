@@ -0,0 +1,106 @@
+/** One resource of an MHTML archive, decoded. */
+export interface MhtmlPart {
+  /** The full `Content-Type`, parameters (e.g. charset) included. */
+  contentType: string;
+  /** The URL the resource was saved from, if the archive records it. */
+  contentLocation: string | null;
+  /** `Content-ID`, without its angle brackets — what `cid:` URLs refer to. */
+  contentId: string | null;
+  body: Buffer;
+}
+
+export interface MhtmlArchive {
+  /** The URL of the saved page, when the archive names it. */
+  snapshotLocation: string | null;
+  /** Every part, in archive order — the page itself first. */
+  parts: MhtmlPart[];
+}
+
+/**
+ * Parses an MHTML (`multipart/related`) archive, as saved by Chrome's
+ * "Save as MHTML" or by CDP's `Page.captureSnapshot`.
+ *
+ * Works on the raw bytes, read as latin1, so binary parts come through
+ * intact. Part bodies are decoded from base64 or quoted-printable; any
+ * other transfer encoding is taken as is.
+ *
+ * @throws {Error} if the data isn't a multipart archive
+ */
+export function parseMhtml(data: Buffer): MhtmlArchive {
+  const text = data.toString("latin1");
+  const { headers, body } = splitEntity(text);
+
+  const boundary = /boundary="?([^";]+)"?/i.exec(
+    headers.get("content-type") ?? ""
+  )?.[1];
+  if (!boundary) {
+    throw new Error("Not an MHTML archive: no multipart boundary");
+  }
+
+  const parts: MhtmlPart[] = [];
+  const segments = body.split(`--${boundary}`);
+  // segments[0] is the preamble; a segment starting with "--" follows the
+  // closing delimiter.
+  for (const segment of segments.slice(1)) {
+    if (segment.startsWith("--")) break;
+
+    // The line break before a delimiter belongs to the delimiter.
+    const entity = splitEntity(
+      segment.replace(/^[ \t]*\r?\n/, "").replace(/\r?\n$/, "")
+    );
+    parts.push({
+      contentType: entity.headers.get("content-type") ?? "text/plain",
+      contentLocation: entity.headers.get("content-location") ?? null,
+      contentId:
+        entity.headers.get("content-id")?.replace(/^<|>$/g, "") ?? null,
+      body: decodeBody(
+        entity.body,
+        entity.headers.get("content-transfer-encoding")
+      ),
+    });
+  }
+
+  return {
+    snapshotLocation: headers.get("snapshot-content-location") ?? null,
+    parts,
+  };
+}
+
+// Header names lowercased, folded header lines joined.
+function splitEntity(text: string): {
+  headers: Map<string, string>;
+  body: string;
+} {
+  const end = /\r?\n\r?\n/.exec(text);
+  const headerText = end ? text.slice(0, end.index) : text;
+  const body = end ? text.slice(end.index + end[0].length) : "";
+
+  const headers = new Map<string, string>();
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    headers.set(
+      line.slice(0, colon).trim().toLowerCase(),
+      line.slice(colon + 1).trim()
+    );
+  }
+  return { headers, body };
+}
+
+function decodeBody(body: string, encoding: string | undefined): Buffer {
+  switch (encoding?.toLowerCase()) {
+    case "base64":
+      return Buffer.from(body.replace(/\s+/g, ""), "base64");
+    case "quoted-printable":
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, "")
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) =>
+            String.fromCharCode(parseInt(hex, 16))
+          ),
+        "latin1"
+      );
+    default:
+      return Buffer.from(body, "latin1");
+  }
+}
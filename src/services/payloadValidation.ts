@@ -0,0 +1,243 @@
+import {
+  EXTRACTION_PAYLOAD_VERSION,
+  ExtractionPayload,
+} from "../types/extraction";
+import { ExtractionError } from "./errors";
+
+type Check = (value: unknown, path: string) => void;
+
+function fail(path: string, expected: string, value: unknown): never {
+  const got =
+    value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  throw new ExtractionError(`${path}: expected ${expected}, got ${got}`, path);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string: Check = (value, path) => {
+  if (typeof value !== "string") fail(path, "a string", value);
+};
+const boolean: Check = (value, path) => {
+  if (typeof value !== "boolean") fail(path, "a boolean", value);
+};
+const number: Check = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    fail(path, "a number", value);
+  }
+};
+const nullable =
+  (check: Check): Check =>
+  (value, path) => {
+    if (value !== null) check(value, path);
+  };
+const optional =
+  (check: Check): Check =>
+  (value, path) => {
+    if (value !== undefined) check(value, path);
+  };
+const arrayOf =
+  (check: Check): Check =>
+  (value, path) => {
+    if (!Array.isArray(value)) fail(path, "an array", value);
+    value.forEach((item, i) => check(item, `${path}[${i}]`));
+  };
+const recordOf =
+  (check: Check): Check =>
+  (value, path) => {
+    if (!isRecord(value)) fail(path, "an object", value);
+    for (const [key, item] of Object.entries(value)) {
+      check(item, `${path}.${key}`);
+    }
+  };
+const shape =
+  (fields: Record<string, Check>): Check =>
+  (value, path) => {
+    if (!isRecord(value)) fail(path, "an object", value);
+    for (const [key, check] of Object.entries(fields)) {
+      check(value[key], `${path}.${key}`);
+    }
+  };
+
+const coordinates = shape({
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+});
+
+const viewport = shape({
+  width: number,
+  height: number,
+  scrollX: number,
+  scrollY: number,
+  devicePixelRatio: number,
+});
+
+const report = shape({
+  truncated: boolean,
+  elementsExtracted: number,
+  elementsOnPage: number,
+  skippedForNodeLimit: number,
+  skippedForDepth: number,
+  skippedForTime: number,
+  skippedOffscreen: number,
+  truncatedTexts: number,
+  elapsedMs: number,
+});
+
+const textNode = shape({ text: string, isVisible: boolean });
+
+const elementNode = shape({
+  tagName: string,
+  xpath: string,
+  absoluteXPath: string,
+  semanticXPath: nullable(string),
+  attributes: recordOf(string),
+  text: string,
+  isVisible: boolean,
+  visibility: shape({ visible: boolean, reasons: arrayOf(string) }),
+  isInteractive: boolean,
+  interactiveReasons: arrayOf(string),
+  isTopElement: boolean,
+  occludedBy: nullable(string),
+  role: nullable(string),
+  accessibleName: string,
+  accessibleDescription: string,
+  formState: nullable(
+    shape({
+      value: optional(string),
+      checked: optional(boolean),
+      indeterminate: optional(boolean),
+      selectedIndex: optional(number),
+      selectedOptions: optional(arrayOf(string)),
+      disabled: boolean,
+      readOnly: optional(boolean),
+      required: optional(boolean),
+      invalid: boolean,
+      validationMessage: optional(string),
+    })
+  ),
+  scrollable: nullable(
+    shape({
+      vertical: boolean,
+      horizontal: boolean,
+      scrollTop: number,
+      scrollLeft: number,
+      scrollHeight: number,
+      scrollWidth: number,
+      clientHeight: number,
+      clientWidth: number,
+    })
+  ),
+  isInViewport: boolean,
+  shadowRoot: boolean,
+  inShadowRoot: boolean,
+  highlightIndex: nullable(number),
+  elementIndex: nullable(number),
+  viewport,
+  viewportCoordinates: coordinates,
+  pageCoordinates: coordinates,
+  frameId: nullable(string),
+  frameContentOffset: nullable(shape({ x: number, y: number })),
+  children: arrayOf(string),
+});
+
+/**
+ * Checks that a value returned by the page script really is an
+ * {@link ExtractionPayload}, and returns it typed as one.
+ *
+ * The script runs in the page's realm, so what comes back is only as sound
+ * as that page lets it be: a CSP that blocks evaluation, or a page that
+ * overrides `Array`, `JSON` or `Object` builtins, can make it return
+ * something else entirely. Beyond the shape, every child id must name a
+ * node listed before its parent — what DomService relies on to build the
+ * tree in one pass.
+ *
+ * @throws {ExtractionError} naming the first offending path
+ */
+export function validateExtractionPayload(
+  payload: unknown
+): ExtractionPayload {
+  if (!isRecord(payload)) fail("payload", "an object", payload);
+
+  if (payload.version !== EXTRACTION_PAYLOAD_VERSION) {
+    throw new ExtractionError(
+      `payload.version: expected ${EXTRACTION_PAYLOAD_VERSION}, got ${String(
+        payload.version
+      )} — the page script and DomService come from different versions`,
+      "payload.version"
+    );
+  }
+
+  shape({
+    report,
+    map: (value, path) => {
+      if (!isRecord(value)) fail(path, "an object", value);
+    },
+    viewport,
+    nextHighlightIndex: number,
+    nextElementIndex: number,
+  })(payload, "payload");
+
+  const map = payload.map as Record<string, unknown>;
+  const seen = new Set<string>();
+  for (const [id, node] of Object.entries(map)) {
+    const path = `payload.map.${id}`;
+    if (!isRecord(node)) fail(path, "an object", node);
+
+    if (node.type === "TEXT_NODE") {
+      textNode(node, path);
+    } else if (node.type === "ELEMENT_NODE") {
+      elementNode(node, path);
+      (node.children as string[]).forEach((childId, i) => {
+        if (!seen.has(childId)) {
+          throw new ExtractionError(
+            `${path}.children[${i}]: ${childId} is not listed before its parent`,
+            `${path}.children[${i}]`
+          );
+        }
+      });
+    } else {
+      fail(`${path}.type`, '"ELEMENT_NODE" or "TEXT_NODE"', node.type);
+    }
+    seen.add(id);
+  }
+
+  const isElement = (id: unknown) =>
+    typeof id === "string" &&
+    isRecord(map[id]) &&
+    map[id].type === "ELEMENT_NODE";
+
+  if (payload.mode === "full") {
+    string(payload.rootId, "payload.rootId");
+    if (!isElement(payload.rootId)) {
+      throw new ExtractionError(
+        `payload.rootId: ${payload.rootId} is not an element in the map`,
+        "payload.rootId"
+      );
+    }
+  } else if (payload.mode === "incremental") {
+    arrayOf(string)(payload.rootIds, "payload.rootIds");
+    arrayOf(string)(payload.rootXPaths, "payload.rootXPaths");
+    const rootIds = payload.rootIds as string[];
+    if ((payload.rootXPaths as string[]).length !== rootIds.length) {
+      throw new ExtractionError(
+        "payload.rootXPaths: expected one xpath per root id",
+        "payload.rootXPaths"
+      );
+    }
+    rootIds.forEach((rootId, i) => {
+      if (!isElement(rootId)) {
+        throw new ExtractionError(
+          `payload.rootIds[${i}]: ${rootId} is not an element in the map`,
+          `payload.rootIds[${i}]`
+        );
+      }
+    });
+  } else {
+    fail("payload.mode", '"full" or "incremental"', payload.mode);
+  }
+
+  return payload as unknown as ExtractionPayload;
+}
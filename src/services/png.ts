@@ -0,0 +1,222 @@
+import { deflateSync, inflateSync } from "zlib";
+
+/** A rectangle in image pixels. */
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  /** Bytes per pixel: 3 (RGB) or 4 (RGBA). */
+  channels: number;
+  /** Unfiltered rows, `width * channels` bytes each. */
+  pixels: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/**
+ * Pixelates regions of a base64 PNG, coarsely enough that no text inside
+ * them stays legible, and returns the re-encoded image as base64.
+ *
+ * Only decodes what browser screenshots actually are — 8-bit RGB or RGBA,
+ * not interlaced. Returns null for anything else, so the caller can decide
+ * what to do with an image it can't safely alter.
+ */
+export function pixelateRegions(
+  pngBase64: string,
+  regions: PixelRegion[],
+  blockSize: number = 16
+): string | null {
+  const image = decodePng(Buffer.from(pngBase64, "base64"));
+  if (!image) return null;
+
+  for (const region of regions) {
+    pixelate(image, region, blockSize);
+  }
+
+  return encodePng(image).toString("base64");
+}
+
+function pixelate(
+  image: DecodedImage,
+  region: PixelRegion,
+  blockSize: number
+): void {
+  const { width, height, channels, pixels } = image;
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(height, Math.ceil(region.y + region.height));
+
+  for (let blockY = top; blockY < bottom; blockY += blockSize) {
+    for (let blockX = left; blockX < right; blockX += blockSize) {
+      const blockRight = Math.min(right, blockX + blockSize);
+      const blockBottom = Math.min(bottom, blockY + blockSize);
+
+      const sums = new Array(channels).fill(0);
+      for (let y = blockY; y < blockBottom; y++) {
+        for (let x = blockX; x < blockRight; x++) {
+          const offset = (y * width + x) * channels;
+          for (let c = 0; c < channels; c++) sums[c] += pixels[offset + c];
+        }
+      }
+
+      const count = (blockRight - blockX) * (blockBottom - blockY);
+      const average = sums.map((sum) => Math.round(sum / count));
+      for (let y = blockY; y < blockBottom; y++) {
+        for (let x = blockX; x < blockRight; x++) {
+          const offset = (y * width + x) * channels;
+          for (let c = 0; c < channels; c++) pixels[offset + c] = average[c];
+        }
+      }
+    }
+  }
+}
+
+function decodePng(data: Buffer): DecodedImage | null {
+  if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("ascii", offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      const colorType = body[9];
+      const interlace = body[12];
+      if (bitDepth !== 8 || interlace !== 0) return null;
+      if (colorType === 2) channels = 3;
+      else if (colorType === 6) channels = 4;
+      else return null;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+  if (!channels || idat.length === 0) return null;
+
+  let filtered: Buffer;
+  try {
+    filtered = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const stride = width * channels;
+  if (filtered.length < (stride + 1) * height) return null;
+
+  const pixels = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = filtered[y * (stride + 1)];
+    const row = filtered.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+    const previous = out - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const a = i >= channels ? pixels[out + i - channels] : 0;
+      const b = y > 0 ? pixels[previous + i] : 0;
+      const c = y > 0 && i >= channels ? pixels[previous + i - channels] : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = a;
+          break;
+        case 2:
+          predictor = b;
+          break;
+        case 3:
+          predictor = (a + b) >> 1;
+          break;
+        case 4: {
+          const p = a + b - c;
+          const pa = Math.abs(p - a);
+          const pb = Math.abs(p - b);
+          const pc = Math.abs(p - c);
+          predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+          break;
+        }
+        default:
+          return null;
+      }
+      pixels[out + i] = (row[i] + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, channels, pixels };
+}
+
+function encodePng(image: DecodedImage): Buffer {
+  const { width, height, channels, pixels } = image;
+  const stride = width * channels;
+
+  // Every row unfiltered (filter type 0); deflate does the compressing.
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    pixels.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = channels === 4 ? 6 : 2;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length, 0);
+  const typeAndBody = Buffer.concat([Buffer.from(type, "ascii"), body]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody), 0);
+  return Buffer.concat([length, typeAndBody, crc]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
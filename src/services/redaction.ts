@@ -0,0 +1,165 @@
+import { DOMElementNode, DOMTextNode, isMaskedControl } from "../types/dom";
+import { PixelRegion, pixelateRegions } from "./png";
+
+/** Built-in detectors for personal data in text. */
+export type RedactionDetector = "email" | "card-number" | "phone-number";
+
+/**
+ * What to keep from the model. Whatever is configured, the values of
+ * password inputs — and of hidden inputs, which is where tokens live — are
+ * never sent.
+ */
+export interface RedactionConfig {
+  detectors: RedactionDetector[];
+  /** Further patterns to redact from text, attribute values and the url. */
+  patterns: Array<RegExp | string>;
+  /** Attributes never listed, whatever `includeAttributes` says. */
+  denyAttributes: string[];
+  /**
+   * Pixelate the boxes of elements with redacted content in the screenshot.
+   * A screenshot that needs it but can't be processed is left out instead.
+   */
+  redactScreenshot: boolean;
+}
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  detectors: [],
+  patterns: [],
+  denyAttributes: [],
+  redactScreenshot: true,
+};
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// 13-19 digits, optionally grouped by spaces or dashes; Luhn-checked below.
+const CARD_NUMBER_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+// International numbers with a leading "+", or North American ones with
+// their separators — bare digit runs are far more often ids or amounts.
+const PHONE_NUMBER_PATTERN =
+  /(?<![\w+])(?:\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}|\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4})(?!\w)/g;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Applies a {@link RedactionConfig} to what {@link LLMSelector} sends: text,
+ * attribute values and form values in the listing, and the screenshot.
+ * Only content is replaced — elements keep their place and index in the
+ * listing, so selection results are unaffected.
+ */
+export class Redactor {
+  private config: RedactionConfig;
+  private patterns: RegExp[];
+
+  constructor(config: Partial<RedactionConfig> = {}) {
+    this.config = { ...DEFAULT_REDACTION_CONFIG, ...config };
+    this.patterns = this.config.patterns.map((pattern) =>
+      typeof pattern === "string"
+        ? new RegExp(pattern, "g")
+        : new RegExp(
+            pattern.source,
+            pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`
+          )
+    );
+  }
+
+  redactText(text: string): string {
+    let redacted = text;
+    const detectors = this.config.detectors;
+
+    if (detectors.includes("email")) {
+      redacted = redacted.replace(EMAIL_PATTERN, "[redacted email]");
+    }
+    if (detectors.includes("card-number")) {
+      redacted = redacted.replace(CARD_NUMBER_PATTERN, (match) =>
+        passesLuhn(match.replace(/\D/g, "")) ? "[redacted card number]" : match
+      );
+    }
+    if (detectors.includes("phone-number")) {
+      redacted = redacted.replace(PHONE_NUMBER_PATTERN, (match) => {
+        const digits = match.replace(/\D/g, "").length;
+        return digits >= 7 && digits <= 15 ? "[redacted phone number]" : match;
+      });
+    }
+    for (const pattern of this.patterns) {
+      redacted = redacted.replace(pattern, "[redacted]");
+    }
+
+    return redacted;
+  }
+
+  /** Whether the element's value must never be shown, in any form. */
+  isMaskedControl(node: DOMElementNode): boolean {
+    return isMaskedControl(node);
+  }
+
+  /** Whether an attribute may be listed at all. */
+  isAllowedAttribute(node: DOMElementNode, name: string): boolean {
+    if (this.config.denyAttributes.includes(name)) return false;
+    return !(name === "value" && this.isMaskedControl(node));
+  }
+
+  /**
+   * Whether redaction changes anything the element itself renders: a masked
+   * control holding a value, or text (its own, or its control value) a
+   * detector or pattern matches.
+   */
+  hasRedactedContent(node: DOMElementNode): boolean {
+    const value = node.formState?.value ?? node.attributes.value ?? "";
+    if (this.isMaskedControl(node)) return value !== "";
+
+    const ownText = node.children
+      .filter((child): child is DOMTextNode => child instanceof DOMTextNode)
+      .map((child) => child.text);
+    return [value, ...ownText].some(
+      (text) => text !== "" && this.redactText(text) !== text
+    );
+  }
+
+  /**
+   * The screenshot with every visible element that has redacted content
+   * pixelated. Returns "" (no screenshot) when that's needed but the image
+   * can't be processed — leaving the content visible is not an option.
+   */
+  redactScreenshot(screenshot: string, elementTree: DOMElementNode): string {
+    if (!screenshot || !this.config.redactScreenshot) return screenshot;
+
+    const scale = elementTree.viewportInfo?.devicePixelRatio ?? 1;
+    const regions: PixelRegion[] = [];
+    const visit = (node: DOMElementNode) => {
+      const box = node.viewportCoordinates;
+      if (node.isVisible && box && this.hasRedactedContent(node)) {
+        regions.push({
+          x: box.x * scale,
+          y: box.y * scale,
+          width: box.width * scale,
+          height: box.height * scale,
+        });
+      }
+      for (const child of node.children) {
+        if (child instanceof DOMElementNode) visit(child);
+      }
+    };
+    visit(elementTree);
+
+    if (regions.length === 0) return screenshot;
+
+    const redacted = pixelateRegions(screenshot, regions);
+    if (redacted === null) {
+      console.warn(
+        "Leaving the screenshot out: it has content to redact but is not a PNG that can be processed"
+      );
+      return "";
+    }
+    return redacted;
+  }
+}
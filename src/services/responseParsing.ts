@@ -0,0 +1,96 @@
+/**
+ * Reads the JSON object out of a model's text answer, however it was
+ * wrapped: in a markdown code block, after a sentence of prose, followed by
+ * a remark, or with `//` comments and trailing commas inside.
+ *
+ * @throws {Error} if there's no JSON object to be found
+ */
+export function parseJsonLoosely(text: string): unknown {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidates = [fenced?.[1], text].filter(
+    (candidate): candidate is string => candidate !== undefined
+  );
+
+  let lastError: unknown = new Error("No JSON object in the response");
+  for (const candidate of candidates) {
+    const json = firstJsonObject(candidate);
+    if (json === null) continue;
+    for (const attempt of [json, withoutCommentsAndTrailingCommas(json)]) {
+      try {
+        return JSON.parse(attempt);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
+
+// From the first `{` to the brace that closes it, skipping braces inside
+// strings; null without one.
+function firstJsonObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  // Cut off: let JSON.parse say what's wrong with it.
+  return text.slice(start);
+}
+
+function withoutCommentsAndTrailingCommas(json: string): string {
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      result += char;
+      if (char === "\\") result += json[++i] ?? "";
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (json.startsWith("//", i)) {
+      const end = json.indexOf("\n", i);
+      i = end === -1 ? json.length : end - 1;
+    } else if (json.startsWith("/*", i)) {
+      const end = json.indexOf("*/", i + 2);
+      i = end === -1 ? json.length : end + 1;
+    } else if (char === "," && /^\s*[}\]]/.test(nextCode(json, i + 1))) {
+      // A trailing comma: dropped.
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// The rest of the text from `start`, past any comments.
+function nextCode(json: string, start: number): string {
+  let rest = json.slice(start);
+  for (;;) {
+    const trimmed = rest.trimStart();
+    if (trimmed.startsWith("//")) {
+      const end = trimmed.indexOf("\n");
+      rest = end === -1 ? "" : trimmed.slice(end);
+    } else if (trimmed.startsWith("/*")) {
+      const end = trimmed.indexOf("*/");
+      rest = end === -1 ? "" : trimmed.slice(end + 2);
+    } else {
+      return trimmed;
+    }
+  }
+}
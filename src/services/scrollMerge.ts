@@ -1,5 +1,14 @@
 import { DOMElementNode, ElementMap, SelectorMap } from "../types/dom";
 
+/**
+ * The pool key identifying "the same element" across snapshots: its xpath,
+ * qualified by the frames it lives in — an xpath alone only identifies an
+ * element within one document, and every frame has a `/html/body`.
+ */
+export function elementPoolKey(element: DOMElementNode): string {
+  return [...element.framePath, element.xpath].join(" >> ");
+}
+
 /**
  * Merges one snapshot's elements into a running xpath-keyed pool, in place.
  *
@@ -16,9 +25,10 @@ export function mergeElementsByXPath(
   snapshotElementMap: ElementMap
 ): void {
   for (const element of Object.values(snapshotElementMap)) {
-    const current = pool.get(element.xpath);
+    const key = elementPoolKey(element);
+    const current = pool.get(key);
     if (!current || (!current.isVisible && element.isVisible)) {
-      pool.set(element.xpath, element);
+      pool.set(key, element);
     }
   }
 }
@@ -0,0 +1,716 @@
+import {
+  DOMBaseNode,
+  DOMElementNode,
+  DOMState,
+  DOMTextNode,
+  FormControlState,
+  VisibilityState,
+} from "../types/dom";
+import {
+  ElementFingerprint,
+  fingerprintElement,
+  fingerprintSimilarity,
+} from "./fingerprint";
+import { Redactor } from "./redaction";
+import { elementPoolKey } from "./scrollMerge";
+
+/**
+ * The parts of a {@link DOMState} (or a `BrowserState`) a diff looks at:
+ * every extracted element, in `elementIndex` order.
+ */
+export type DiffableState = Pick<DOMState, "elementMap">;
+
+/**
+ * How an element found in both states changed:
+ * - "moved": it has a different parent, or was reordered among its siblings
+ *   (not merely shifted by siblings added or removed before it)
+ * - "text-changed": its own text, not its descendants'
+ * - "attribute-changed": an attribute was set, removed or changed
+ * - "visibility-changed": it was shown or hidden, or is hidden for other
+ *   reasons than before
+ * - "state-changed": its live form state (value, checked, validity...)
+ */
+export type ElementChangeKind =
+  | "moved"
+  | "text-changed"
+  | "attribute-changed"
+  | "visibility-changed"
+  | "state-changed";
+
+export interface AttributeChange {
+  name: string;
+  /** Null when the attribute wasn't set. */
+  before: string | null;
+  after: string | null;
+}
+
+export interface FormStateChange {
+  name: keyof FormControlState;
+  before: FormControlState[keyof FormControlState];
+  after: FormControlState[keyof FormControlState];
+}
+
+/** One element of both states, and everything that changed about it. */
+export interface ElementChange {
+  before: DOMElementNode;
+  after: DOMElementNode;
+  /** Never empty. */
+  kinds: ElementChangeKind[];
+  /** Own text before and after, with "text-changed". */
+  text: { before: string; after: string } | null;
+  /** Empty without "attribute-changed". */
+  attributes: AttributeChange[];
+  /**
+   * With "visibility-changed". Elements extracted without visibility
+   * reasons are taken as `{ visible: isVisible, reasons: [] }`.
+   */
+  visibility: { before: VisibilityState; after: VisibilityState } | null;
+  /** Empty without "state-changed". */
+  formState: FormStateChange[];
+}
+
+/**
+ * What changed between two states. Elements are listed in document order —
+ * the after state's, except for `removed`.
+ */
+export interface StateDiff {
+  /** Elements of the after state with no counterpart before. */
+  added: DOMElementNode[];
+  /** Elements of the before state with no counterpart after. */
+  removed: DOMElementNode[];
+  /** Every element of both states that changed, once each. */
+  changed: ElementChange[];
+  // The same changes by kind; one with several kinds is in several lists.
+  moved: ElementChange[];
+  textChanged: ElementChange[];
+  attributeChanged: ElementChange[];
+  visibilityChanged: ElementChange[];
+  stateChanged: ElementChange[];
+}
+
+export interface StateDiffOptions {
+  /**
+   * How alike two elements' fingerprints must be (see
+   * {@link fingerprintSimilarity}) for an element whose xpath changed to
+   * still be taken for the same element.
+   */
+  minSimilarity: number;
+}
+
+export const DEFAULT_STATE_DIFF_OPTIONS: StateDiffOptions = {
+  minSimilarity: 0.7,
+};
+
+const KIND_LISTS: Record<
+  ElementChangeKind,
+  | "moved"
+  | "textChanged"
+  | "attributeChanged"
+  | "visibilityChanged"
+  | "stateChanged"
+> = {
+  moved: "moved",
+  "text-changed": "textChanged",
+  "attribute-changed": "attributeChanged",
+  "visibility-changed": "visibilityChanged",
+  "state-changed": "stateChanged",
+};
+
+/**
+ * Compares two states of a page — typically before and after an action —
+ * element by element.
+ *
+ * Elements are matched in three passes, each only among those still
+ * unmatched:
+ * 1. by fingerprint digest: unchanged elements, wherever they are now. Of
+ *    identical ones (the "Delete" button of every row) the one under the
+ *    same parent is preferred, then the one at the same xpath
+ * 2. by xpath (qualified by frames) and tag: elements changed in place
+ * 3. by fingerprint similarity, within a tag: elements that changed and
+ *    moved. Each is only compared with a few dozen candidates, those under
+ *    the same parent or sharing an attribute or a word with it, and past a
+ *    couple of thousand elements still unmatched the pass is skipped:
+ *    they're reported as added and removed
+ *
+ * So a removed row is reported as removed, not as every later row taking
+ * the text of the next one.
+ */
+export function diffStates(
+  before: DiffableState,
+  after: DiffableState,
+  options: Partial<StateDiffOptions> = {}
+): StateDiff {
+  const opts = { ...DEFAULT_STATE_DIFF_OPTIONS, ...options };
+  const beforeElements = inDocumentOrder(before);
+  const afterElements = inDocumentOrder(after);
+
+  const matches = matchElements(
+    beforeElements,
+    afterElements,
+    opts.minSimilarity
+  );
+  const moved = findMoved(afterElements, matches);
+
+  const diff: StateDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    moved: [],
+    textChanged: [],
+    attributeChanged: [],
+    visibilityChanged: [],
+    stateChanged: [],
+  };
+  for (const element of afterElements) {
+    const previous = matches.get(element);
+    if (!previous) {
+      diff.added.push(element);
+      continue;
+    }
+    const change = compareElements(previous, element, moved.has(element));
+    if (change) {
+      diff.changed.push(change);
+      for (const kind of change.kinds) diff[KIND_LISTS[kind]].push(change);
+    }
+  }
+
+  const matched = new Set(matches.values());
+  diff.removed = beforeElements.filter((element) => !matched.has(element));
+  return diff;
+}
+
+// Past this many elements left unmatched on either side after the first two
+// passes, the similarity pass is skipped and they're added and removed.
+const MAX_SIMILARITY_ELEMENTS = 2000;
+// Elements each one is compared with in the similarity pass.
+const MAX_SIMILARITY_CANDIDATES = 50;
+
+// The similarity pass's buckets for an element's stable attributes and
+// words. Elements with neither share a bucket, as they're alike by default.
+function similarityBucketKeys(fingerprint: ElementFingerprint): string[] {
+  const tokens = [...fingerprint.attributes, ...fingerprint.textTokens];
+  return (tokens.length > 0 ? tokens : [""]).map(
+    (token) => `${fingerprint.tagName} ${token}`
+  );
+}
+
+function parentBucketKey(tagName: string, parent: DOMElementNode): string {
+  return `${tagName.toLowerCase()} in ${elementPoolKey(parent)}`;
+}
+
+function inDocumentOrder(state: DiffableState): DOMElementNode[] {
+  return Object.values(state.elementMap).sort(
+    (a, b) => (a.elementIndex ?? 0) - (b.elementIndex ?? 0)
+  );
+}
+
+// Each element of the after state to its counterpart before.
+function matchElements(
+  before: DOMElementNode[],
+  after: DOMElementNode[],
+  minSimilarity: number
+): Map<DOMElementNode, DOMElementNode> {
+  const matches = new Map<DOMElementNode, DOMElementNode>();
+  const unmatched = new Set(before);
+  const match = (node: DOMElementNode, previous: DOMElementNode) => {
+    matches.set(node, previous);
+    unmatched.delete(previous);
+  };
+
+  // Fingerprints walk the subtree's text; compute each once.
+  const fingerprints = new Map<DOMElementNode, ElementFingerprint>();
+  const fingerprintOf = (node: DOMElementNode) => {
+    let fingerprint = fingerprints.get(node);
+    if (!fingerprint) {
+      fingerprint = fingerprintElement(node);
+      fingerprints.set(node, fingerprint);
+    }
+    return fingerprint;
+  };
+
+  const byDigest = new Map<string, DOMElementNode[]>();
+  for (const node of before) {
+    const digest = fingerprintOf(node).digest;
+    const group = byDigest.get(digest);
+    if (group) group.push(node);
+    else byDigest.set(digest, [node]);
+  }
+  for (const node of after) {
+    const candidates = (byDigest.get(fingerprintOf(node).digest) ?? []).filter(
+      (candidate) => unmatched.has(candidate)
+    );
+    if (candidates.length === 0) continue;
+
+    const parent = node.parent && matches.get(node.parent);
+    const key = elementPoolKey(node);
+    match(
+      node,
+      candidates.find((candidate) => parent && candidate.parent === parent) ??
+        candidates.find((candidate) => elementPoolKey(candidate) === key) ??
+        candidates[0]
+    );
+  }
+
+  const byKey = new Map<string, DOMElementNode>();
+  for (const node of unmatched) byKey.set(elementPoolKey(node), node);
+  for (const node of after) {
+    if (matches.has(node)) continue;
+    const previous = byKey.get(elementPoolKey(node));
+    if (
+      previous &&
+      unmatched.has(previous) &&
+      previous.tagName === node.tagName
+    ) {
+      match(node, previous);
+    }
+  }
+
+  const unmatchedAfter = after.filter((node) => !matches.has(node));
+  if (
+    unmatchedAfter.length > MAX_SIMILARITY_ELEMENTS ||
+    unmatched.size > MAX_SIMILARITY_ELEMENTS
+  ) {
+    return matches;
+  }
+
+  // Comparing every pair would be quadratic, so each element is only
+  // compared with those of its tag under the same parent or sharing a
+  // stable attribute or word with it, from the smallest of those buckets
+  // up: a word only two elements have says more than a shared parent.
+  const buckets = new Map<string, DOMElementNode[]>();
+  for (const node of unmatched) {
+    const keys = similarityBucketKeys(fingerprintOf(node));
+    if (node.parent) keys.push(parentBucketKey(node.tagName, node.parent));
+    for (const key of keys) {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(node);
+      else buckets.set(key, [node]);
+    }
+  }
+
+  for (const node of unmatchedAfter) {
+    const keys = similarityBucketKeys(fingerprintOf(node));
+    if (node.parent) {
+      keys.push(parentBucketKey(node.tagName, node.parent));
+      const previousParent = matches.get(node.parent);
+      if (previousParent) {
+        keys.push(parentBucketKey(node.tagName, previousParent));
+      }
+    }
+    const nodeBuckets = keys
+      .map((key) => buckets.get(key) ?? [])
+      .sort((a, b) => a.length - b.length);
+
+    const candidates = new Set<DOMElementNode>();
+    for (const bucket of nodeBuckets) {
+      for (const candidate of bucket) {
+        if (candidates.size >= MAX_SIMILARITY_CANDIDATES) break;
+        if (unmatched.has(candidate)) candidates.add(candidate);
+      }
+    }
+
+    let best: DOMElementNode | null = null;
+    let bestSimilarity = 0;
+    for (const candidate of candidates) {
+      if (candidate.tagName !== node.tagName) continue;
+      const similarity = fingerprintSimilarity(
+        fingerprintOf(candidate),
+        fingerprintOf(node)
+      );
+      if (
+        similarity >= minSimilarity &&
+        (!best || similarity > bestSimilarity)
+      ) {
+        best = candidate;
+        bestSimilarity = similarity;
+      }
+    }
+    if (best) match(node, best);
+  }
+
+  return matches;
+}
+
+/**
+ * Matched elements that were moved: given a different parent, or reordered
+ * among the siblings they kept — those outside a longest run of siblings
+ * still in their old relative order.
+ */
+function findMoved(
+  after: DOMElementNode[],
+  matches: Map<DOMElementNode, DOMElementNode>
+): Set<DOMElementNode> {
+  const moved = new Set<DOMElementNode>();
+  const inAfter = new Set(after);
+  const siblings = new Map<DOMElementNode, DOMElementNode[]>();
+
+  for (const node of after) {
+    const previous = matches.get(node);
+    if (!previous) continue;
+
+    const parent = node.parent;
+    const previousParent = previous.parent;
+    let sameParent: boolean;
+    if (!parent || !previousParent) {
+      sameParent = parent === previousParent;
+    } else if (matches.has(parent)) {
+      sameParent = matches.get(parent) === previousParent;
+    } else if (inAfter.has(parent)) {
+      // A parent that's new.
+      sameParent = false;
+    } else {
+      // A parent that wasn't extracted: all there is to go by is where it is.
+      sameParent = elementPoolKey(parent) === elementPoolKey(previousParent);
+    }
+
+    if (!sameParent) {
+      moved.add(node);
+    } else if (parent) {
+      const group = siblings.get(parent);
+      if (group) group.push(node);
+      else siblings.set(parent, [node]);
+    }
+  }
+
+  for (const group of siblings.values()) {
+    const previousOrder = group.map(
+      (node) => matches.get(node)!.elementIndex ?? 0
+    );
+    const kept = longestIncreasingRun(previousOrder);
+    group.forEach((node, i) => {
+      if (!kept.has(i)) moved.add(node);
+    });
+  }
+
+  return moved;
+}
+
+// Indices of a longest strictly increasing subsequence of `values`.
+function longestIncreasingRun(values: number[]): Set<number> {
+  // tails[n]: index of the smallest value ending a run of length n + 1.
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) low = middle + 1;
+      else high = middle;
+    }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
+  });
+
+  const kept = new Set<number>();
+  let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+  for (; i !== -1; i = previous[i]) kept.add(i);
+  return kept;
+}
+
+function compareElements(
+  before: DOMElementNode,
+  after: DOMElementNode,
+  moved: boolean
+): ElementChange | null {
+  const change: ElementChange = {
+    before,
+    after,
+    kinds: [],
+    text: null,
+    attributes: [],
+    visibility: null,
+    formState: [],
+  };
+  if (moved) change.kinds.push("moved");
+
+  const textBefore = ownText(before);
+  const textAfter = ownText(after);
+  if (textBefore !== textAfter) {
+    change.kinds.push("text-changed");
+    change.text = { before: textBefore, after: textAfter };
+  }
+
+  const names = new Set([
+    ...Object.keys(before.attributes),
+    ...Object.keys(after.attributes),
+  ]);
+  for (const name of [...names].sort()) {
+    const valueBefore = before.attributes[name] ?? null;
+    const valueAfter = after.attributes[name] ?? null;
+    if (valueBefore !== valueAfter) {
+      change.attributes.push({ name, before: valueBefore, after: valueAfter });
+    }
+  }
+  if (change.attributes.length > 0) change.kinds.push("attribute-changed");
+
+  const visibilityBefore = visibilityOf(before);
+  const visibilityAfter = visibilityOf(after);
+  if (
+    visibilityBefore.visible !== visibilityAfter.visible ||
+    [...visibilityBefore.reasons].sort().join() !==
+      [...visibilityAfter.reasons].sort().join()
+  ) {
+    change.kinds.push("visibility-changed");
+    change.visibility = { before: visibilityBefore, after: visibilityAfter };
+  }
+
+  const stateBefore: Partial<FormControlState> = before.formState ?? {};
+  const stateAfter: Partial<FormControlState> = after.formState ?? {};
+  const fields = new Set([
+    ...Object.keys(stateBefore),
+    ...Object.keys(stateAfter),
+  ]) as Set<keyof FormControlState>;
+  for (const name of [...fields].sort()) {
+    const valueBefore = stateBefore[name];
+    const valueAfter = stateAfter[name];
+    if (JSON.stringify(valueBefore) !== JSON.stringify(valueAfter)) {
+      change.formState.push({ name, before: valueBefore, after: valueAfter });
+    }
+  }
+  if (change.formState.length > 0) change.kinds.push("state-changed");
+
+  return change.kinds.length > 0 ? change : null;
+}
+
+function ownText(node: DOMElementNode): string {
+  return node.children
+    .filter((child): child is DOMTextNode => child instanceof DOMTextNode)
+    .map((child) => child.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function visibilityOf(node: DOMElementNode): VisibilityState {
+  return node.visibility ?? { visible: node.isVisible, reasons: [] };
+}
+
+export interface StateDiffFormatOptions {
+  /** Lines of changes at most; the rest are only counted. */
+  maxLines: number;
+  /** Longest text or attribute value shown, in characters. */
+  maxTextLength: number;
+  /**
+   * Applied to every text and value shown. Password and hidden input values
+   * are never shown, whatever it is configured to redact.
+   */
+  redactor: Redactor;
+}
+
+export const DEFAULT_STATE_DIFF_FORMAT_OPTIONS: StateDiffFormatOptions = {
+  maxLines: 40,
+  maxTextLength: 60,
+  redactor: new Redactor(),
+};
+
+// Enough to tell an element apart, in the order shown.
+const SUMMARY_ATTRIBUTES = [
+  "id",
+  "name",
+  "type",
+  "role",
+  "aria-label",
+  "placeholder",
+];
+
+/**
+ * Renders a diff as a compact listing to feed back to a model, one line per
+ * element: `+` added, `-` removed, `~` changed, e.g.
+ *
+ *     3 added, 1 removed, 1 changed
+ *     + <div role="dialog"> "Delete this row?" (+2 inside)
+ *     - <tr> "Invoice 42 Paid" (+3 inside)
+ *     ~ [4]<input name="email">: attribute aria-invalid (none) -> "true"
+ *
+ * Added or removed elements are shown under their topmost added or removed
+ * ancestor, as are elements shown or hidden along with their parent.
+ * Changed and added elements carry their highlight index in the after
+ * state, when they have one.
+ */
+export function formatStateDiff(
+  diff: StateDiff,
+  options: Partial<StateDiffFormatOptions> = {}
+): string {
+  const opts = { ...DEFAULT_STATE_DIFF_FORMAT_OPTIONS, ...options };
+  if (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  ) {
+    return "No changes.";
+  }
+
+  const counts = [
+    `${diff.added.length} added`,
+    `${diff.removed.length} removed`,
+    `${diff.changed.length} changed`,
+  ];
+  const lines: string[] = [];
+
+  const addedRoots = subtreeRoots(diff.added, (node) => node.parent);
+  for (const [node, inside] of addedRoots) {
+    lines.push(`+ ${describe(node, true, opts)}${insideCount(inside)}`);
+  }
+  const removedRoots = subtreeRoots(diff.removed, (node) => node.parent);
+  for (const [node, inside] of removedRoots) {
+    lines.push(`- ${describe(node, false, opts)}${insideCount(inside)}`);
+  }
+
+  // A change that's only being shown or hidden along with its parent
+  // folds into the parent's.
+  const changeOf = new Map(
+    diff.changed.map((change) => [change.after, change])
+  );
+  const changedRoots = subtreeRoots(
+    diff.changed.map((change) => change.after),
+    (node) => {
+      const change = changeOf.get(node)!;
+      const parentChange = node.parent && changeOf.get(node.parent);
+      const followsParent =
+        change.kinds.length === 1 &&
+        change.visibility !== null &&
+        parentChange?.visibility?.after.visible ===
+          change.visibility.after.visible &&
+        parentChange.visibility.before.visible ===
+          change.visibility.before.visible;
+      return followsParent ? node.parent : null;
+    }
+  );
+  for (const [node, inside] of changedRoots) {
+    const change = changeOf.get(node)!;
+    lines.push(
+      `~ ${describe(node, true, opts)}: ` +
+        `${describeChange(change, opts).join("; ")}${insideCount(inside)}`
+    );
+  }
+
+  const shown = lines.slice(0, opts.maxLines);
+  if (lines.length > shown.length) {
+    shown.push(`... and ${lines.length - shown.length} more`);
+  }
+  return [counts.join(", "), ...shown].join("\n");
+}
+
+// Each of `nodes` not folded into another, with how many were folded into
+// it. `foldsInto` names the node one folds into, if it's among `nodes`.
+function subtreeRoots(
+  nodes: DOMElementNode[],
+  foldsInto: (node: DOMElementNode) => DOMElementNode | null
+): Map<DOMElementNode, number> {
+  const included = new Set(nodes);
+  const rootOf = (node: DOMElementNode): DOMElementNode => {
+    let root = node;
+    for (
+      let next = foldsInto(root);
+      next !== null && included.has(next);
+      next = foldsInto(root)
+    ) {
+      root = next;
+    }
+    return root;
+  };
+
+  const roots = new Map<DOMElementNode, number>();
+  for (const node of nodes) {
+    const root = rootOf(node);
+    roots.set(root, (roots.get(root) ?? 0) + (root === node ? 0 : 1));
+  }
+  return roots;
+}
+
+function insideCount(count: number): string {
+  return count > 0 ? ` (+${count} inside)` : "";
+}
+
+function describe(
+  node: DOMElementNode,
+  indexed: boolean,
+  opts: StateDiffFormatOptions
+): string {
+  const index =
+    indexed && node.highlightIndex !== null ? `[${node.highlightIndex}]` : "";
+  const attributes = SUMMARY_ATTRIBUTES.filter(
+    (name) =>
+      node.attributes[name] && opts.redactor.isAllowedAttribute(node, name)
+  )
+    .map((name) => ` ${name}=${quote(node.attributes[name], opts)}`)
+    .join("");
+  const text = subtreeText(node);
+  const shownText = text ? ` ${quote(text, opts)}` : "";
+  return `${index}<${node.tagName}${attributes}>${shownText}`;
+}
+
+function describeChange(
+  change: ElementChange,
+  opts: StateDiffFormatOptions
+): string[] {
+  const parts: string[] = [];
+  const masked = opts.redactor.isMaskedControl(change.after);
+
+  if (change.kinds.includes("moved")) {
+    const from = elementPoolKey(change.before);
+    const to = elementPoolKey(change.after);
+    parts.push(from === to ? "moved" : `moved from ${from} to ${to}`);
+  }
+  if (change.text) {
+    const { before, after } = change.text;
+    parts.push(`text ${quote(before, opts)} -> ${quote(after, opts)}`);
+  }
+  for (const attribute of change.attributes) {
+    if (!opts.redactor.isAllowedAttribute(change.after, attribute.name)) {
+      parts.push(`attribute ${attribute.name} changed`);
+      continue;
+    }
+    const value = (value: string | null) =>
+      value === null ? "(none)" : quote(value, opts);
+    parts.push(
+      `attribute ${attribute.name} ` +
+        `${value(attribute.before)} -> ${value(attribute.after)}`
+    );
+  }
+  if (change.visibility) {
+    const visibility = ({ visible, reasons }: VisibilityState) =>
+      visible ? "visible" : `hidden (${reasons.join(", ") || "not rendered"})`;
+    const { before, after } = change.visibility;
+    parts.push(`${visibility(before)} -> ${visibility(after)}`);
+  }
+  for (const field of change.formState) {
+    if (field.name === "value" && masked) {
+      parts.push("value changed");
+      continue;
+    }
+    const value = (value: FormStateChange["before"]) =>
+      value === undefined
+        ? "(none)"
+        : typeof value === "string"
+          ? quote(value, opts)
+          : Array.isArray(value)
+            ? quote(value.join(", "), opts)
+            : String(value);
+    parts.push(`${field.name} ${value(field.before)} -> ${value(field.after)}`);
+  }
+
+  return parts;
+}
+
+// All text in the subtree, visible or not — a removed or hidden element's
+// text is what tells which one it was.
+function subtreeText(node: DOMElementNode): string {
+  const parts: string[] = [];
+  const collect = (child: DOMBaseNode) => {
+    if (child instanceof DOMTextNode) parts.push(child.text);
+    else if (child instanceof DOMElementNode) child.children.forEach(collect);
+  };
+  collect(node);
+  return parts.join(" ").replace(/\s+/g, " ").trim();
+}
+
+function quote(value: string, opts: StateDiffFormatOptions): string {
+  const redacted = opts.redactor.redactText(value);
+  return JSON.stringify(
+    redacted.length > opts.maxTextLength
+      ? `${redacted.substring(0, opts.maxTextLength)}...`
+      : redacted
+  );
+}
@@ -0,0 +1,238 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Browser, Route, chromium } from "playwright";
+import {
+  BrowserContext,
+  BrowserContextConfig,
+  BrowserState,
+} from "./browserContext";
+import { parseMhtml } from "./mhtml";
+
+/**
+ * A page to extract without visiting a live site:
+ * - `html`: markup, loaded at `baseUrl` (which relative links resolve
+ *   against) when given
+ * - `file`: an `.html` file, whose relative references are served from its
+ *   directory, or an `.mhtml`/`.mht` archive, served from the archive
+ * - `directory`: a saved page ("Save Page As… complete"), its `index` file
+ *   (default: `index.html`, else the directory's only `.html` file) loaded
+ *   with everything else in the directory available to it
+ */
+export type StaticPageSource =
+  | { html: string; baseUrl?: string }
+  | { file: string }
+  | { directory: string; index?: string };
+
+export interface StaticPageConfig {
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  /**
+   * Let the page's own scripts run. Off by default: a saved page is already
+   * rendered, and its scripts could only reach for the network — WebSockets
+   * included, which request interception doesn't cover.
+   */
+  javaScriptEnabled: boolean;
+  /** Extraction settings, as for a live page. */
+  browserContext: Partial<BrowserContextConfig>;
+  /**
+   * A browser to open the page in. By default Chromium is launched for the
+   * call and closed again, which dominates its cost when loading many pages.
+   */
+  browser?: Browser;
+}
+
+export const DEFAULT_STATIC_PAGE_CONFIG: StaticPageConfig = {
+  viewport: { width: 1280, height: 720 },
+  deviceScaleFactor: 1,
+  javaScriptEnabled: false,
+  browserContext: {},
+};
+
+// Where pages without an origin of their own are served from. Nothing
+// resolves it: every request is answered by the route below or refused.
+const STATIC_ORIGIN = "http://static-page.invalid/";
+
+interface Resource {
+  contentType: string;
+  body: Buffer | string;
+}
+
+interface StaticSite {
+  url: string;
+  /** Resources by URL (without fragment). */
+  resources: Map<string, Resource>;
+  /** Directory served at STATIC_ORIGIN, if any. */
+  root: string | null;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+};
+
+/**
+ * Loads static HTML, a local file or a saved page into a fresh page with no
+ * network access, runs the normal extraction and returns its state — a
+ * regular {@link BrowserState}, so fixtures and incident captures can be
+ * replayed through `LLMSelector` deterministically.
+ *
+ * Only what the source itself contains is ever served; every other request
+ * (analytics, CDNs, APIs) fails as if offline. Frames an MHTML archive
+ * refers to by `cid:` URL aren't loaded.
+ */
+export async function loadStaticPage(
+  source: StaticPageSource,
+  config: Partial<StaticPageConfig> = {}
+): Promise<BrowserState> {
+  const cfg = { ...DEFAULT_STATIC_PAGE_CONFIG, ...config };
+  const site = resolveSource(source);
+
+  const browser = cfg.browser ?? (await chromium.launch());
+  try {
+    const context = await browser.newContext({
+      viewport: cfg.viewport,
+      deviceScaleFactor: cfg.deviceScaleFactor,
+      javaScriptEnabled: cfg.javaScriptEnabled,
+      serviceWorkers: "block",
+    });
+    try {
+      await context.route("**/*", (route) => serve(route, site));
+      const page = await context.newPage();
+      await page.goto(site.url, { waitUntil: "load" });
+      return await new BrowserContext(page, cfg.browserContext).getState();
+    } finally {
+      await context.close();
+    }
+  } finally {
+    if (!cfg.browser) await browser.close();
+  }
+}
+
+function resolveSource(source: StaticPageSource): StaticSite {
+  if ("html" in source) {
+    const url = source.baseUrl ?? STATIC_ORIGIN;
+    return {
+      url,
+      resources: new Map([
+        [withoutFragment(url), { contentType: "text/html", body: source.html }],
+      ]),
+      root: null,
+    };
+  }
+
+  if ("file" in source) {
+    const extension = path.extname(source.file).toLowerCase();
+    if (extension === ".mhtml" || extension === ".mht") {
+      return resolveMhtml(source.file);
+    }
+    return servedFrom(
+      path.dirname(path.resolve(source.file)),
+      path.basename(source.file)
+    );
+  }
+
+  const directory = path.resolve(source.directory);
+  return servedFrom(directory, source.index ?? findIndex(directory));
+}
+
+function resolveMhtml(file: string): StaticSite {
+  const archive = parseMhtml(fs.readFileSync(file));
+  const page = archive.parts.find((part) =>
+    part.contentType.toLowerCase().startsWith("text/html")
+  );
+  if (!page) throw new Error(`No HTML page in MHTML archive ${file}`);
+
+  const resources = new Map<string, Resource>();
+  for (const part of archive.parts) {
+    if (!part.contentLocation) continue;
+    const url = withoutFragment(part.contentLocation);
+    // The first part saved from a URL is the one the page used.
+    if (!resources.has(url)) {
+      resources.set(url, { contentType: part.contentType, body: part.body });
+    }
+  }
+
+  let url = page.contentLocation ?? archive.snapshotLocation;
+  if (!url) {
+    url = STATIC_ORIGIN;
+    resources.set(url, { contentType: page.contentType, body: page.body });
+  }
+  return { url, resources, root: null };
+}
+
+function servedFrom(root: string, index: string): StaticSite {
+  return {
+    url: new URL(
+      index.split(path.sep).map(encodeURIComponent).join("/"),
+      STATIC_ORIGIN
+    ).href,
+    resources: new Map(),
+    root,
+  };
+}
+
+function findIndex(directory: string): string {
+  if (fs.existsSync(path.join(directory, "index.html"))) return "index.html";
+
+  const pages = fs
+    .readdirSync(directory)
+    .filter((name) => /\.html?$/i.test(name));
+  if (pages.length !== 1) {
+    throw new Error(
+      `Can't tell which page to load in ${directory} (${pages.length} HTML files); pass \`index\``
+    );
+  }
+  return pages[0];
+}
+
+async function serve(route: Route, site: StaticSite): Promise<void> {
+  const url = withoutFragment(route.request().url());
+  const resource = site.resources.get(url) ?? readFromRoot(site.root, url);
+
+  if (resource) {
+    await route.fulfill({
+      status: 200,
+      contentType: resource.contentType,
+      body: resource.body,
+    });
+  } else {
+    await route.abort("internetdisconnected");
+  }
+}
+
+function readFromRoot(root: string | null, url: string): Resource | null {
+  if (!root || !url.startsWith(STATIC_ORIGIN)) return null;
+
+  const relative = decodeURIComponent(new URL(url).pathname);
+  const file = path.resolve(root, `.${relative}`);
+  // Never outside the served directory, whatever the page asks for.
+  if (file !== root && !file.startsWith(root + path.sep)) return null;
+  if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return null;
+
+  return {
+    contentType:
+      CONTENT_TYPES[path.extname(file).toLowerCase()] ??
+      "application/octet-stream",
+    body: fs.readFileSync(file),
+  };
+}
+
+function withoutFragment(url: string): string {
+  const hash = url.indexOf("#");
+  return hash === -1 ? url : url.slice(0, hash);
+}
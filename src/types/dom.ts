@@ -1,9 +1,16 @@
 // Simplified types for DOM elements without external dependencies
+
 export interface ViewportInfo {
   width: number;
   height: number;
+  /** Scroll offset of the viewport's document at extraction time. */
+  scrollX: number;
+  scrollY: number;
+  /** Device pixels per CSS pixel — multiply by this to map into a screenshot. */
+  devicePixelRatio: number;
 }
 
+/** A box in CSS pixels. */
 export interface CoordinateSet {
   x: number;
   y: number;
@@ -17,6 +24,130 @@ export interface HashedDomElement {
   xpath_hash: string;
 }
 
+/**
+ * Whether an id or class token looks generated by a framework or build step
+ * rather than written by a person — React's `:r1:`, CSS-in-JS and CSS-module
+ * hashes, uuids, numeric counters — and so can't be relied on across
+ * reloads.
+ */
+export function isGeneratedIdentifier(value: string): boolean {
+  return (
+    /^:r[0-9a-z]+:$/i.test(value) ||
+    /\d{3,}/.test(value) ||
+    /[0-9a-f]{8}-[0-9a-f]{4}-/i.test(value) ||
+    /^(css|sc|jsx|emotion)-[0-9a-z]+$/i.test(value) ||
+    /__[0-9a-z]{5}$/i.test(value) ||
+    // A hash-like final segment: 6+ characters mixing letters and at least
+    // two digits (`a1b2c3`, but not `heading1`).
+    /^(?=.*\d.*\d)(?=.*[a-z])[0-9a-z]{6,}$/i.test(
+      value.split(/[-_]/).pop() || ""
+    )
+  );
+}
+
+/**
+ * Whether the element is a control whose value must never be shown or kept,
+ * in any form: a password, or a hidden input (where tokens are kept).
+ */
+export function isMaskedControl(node: DOMElementNode): boolean {
+  if (node.tagName !== "input") return false;
+  const type = (node.attributes.type || "").toLowerCase();
+  return type === "password" || type === "hidden";
+}
+
+/**
+ * Joins a shadow host's xpath to the path of an element inside its (open)
+ * shadow tree, e.g. `/html/body/my-app/#shadow-root/div/button`. XPath cannot
+ * cross a shadow boundary, so such an xpath is an identity key and a locator
+ * recipe — not something `document.evaluate` can resolve. `buildDomTreeOverlay`
+ * produces it with the same literal (page scripts can't import).
+ */
+export const SHADOW_ROOT_XPATH_SEPARATOR = "/#shadow-root";
+
+/**
+ * Live state of a form control (or ARIA widget) at extraction time, read
+ * from DOM properties — unlike `attributes`, which only reflect the markup
+ * the page was loaded with. Fields that don't apply to the control are
+ * left out.
+ */
+export interface FormControlState {
+  /** Current value of a text-like input or textarea. */
+  value?: string;
+  /** Checkbox/radio (or aria-checked) state. */
+  checked?: boolean;
+  indeterminate?: boolean;
+  /** A select's selected index, -1 when nothing is selected. */
+  selectedIndex?: number;
+  /** Text of a select's selected option(s). */
+  selectedOptions?: string[];
+  disabled: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  /** Fails constraint validation, or is marked aria-invalid. */
+  invalid: boolean;
+  /** The browser's validation message, when there is one. */
+  validationMessage?: string;
+}
+
+/** An element that scrolls its own content (`overflow: auto|scroll`). */
+export interface ScrollableInfo {
+  /** Its content overflows vertically and it lets the user scroll that way. */
+  vertical: boolean;
+  horizontal: boolean;
+  scrollTop: number;
+  scrollLeft: number;
+  scrollHeight: number;
+  scrollWidth: number;
+  clientHeight: number;
+  clientWidth: number;
+}
+
+/**
+ * Why an element can't be seen, or can't be perceived by assistive tech:
+ * - "display-none": it or an ancestor has `display: none`
+ * - "visibility-hidden": `visibility: hidden` (or `collapse`)
+ * - "zero-size": rendered, but with no width or height
+ * - "opacity-zero": it or an ancestor has `opacity: 0`
+ * - "clipped": entirely cut off by an `overflow: hidden` (or `clip`)
+ *   ancestor, or clipped to nothing the way screen-reader-only text is
+ * - "outside-viewport": rendered, but beyond the viewport (plus
+ *   `viewportExpansion`) or a scroll container's visible box — exists,
+ *   just scrolled off-screen
+ * - "aria-hidden": it or an ancestor has `aria-hidden="true"`; says nothing
+ *   about whether it's shown
+ */
+export type VisibilityReason =
+  | "display-none"
+  | "visibility-hidden"
+  | "zero-size"
+  | "opacity-zero"
+  | "clipped"
+  | "outside-viewport"
+  | "aria-hidden";
+
+export interface VisibilityState {
+  /** No reason other than "aria-hidden": a user can see it on screen. */
+  visible: boolean;
+  reasons: VisibilityReason[];
+}
+
+/** Where a scroll sweep was scrolled to when it saw an element. */
+export interface ScrollPosition {
+  /**
+   * The scrolled container's `elementPoolKey` (its xpath, qualified by its
+   * frames), or null for the window.
+   */
+  container: string | null;
+  x: number;
+  y: number;
+  /**
+   * Set when the element only showed up after clicking a carousel's "next"
+   * control (`next`, as configured) `advances` times — a caller going back
+   * to it has to repeat that.
+   */
+  carousel?: { next: string; advances: number };
+}
+
 export interface DOMBaseNode {
   isVisible: boolean;
   parent: DOMElementNode | null;
@@ -56,17 +187,73 @@ export class DOMTextNode implements DOMBaseNode {
 
 export class DOMElementNode implements DOMBaseNode {
   tagName: string;
+  /**
+   * Identifies the element within its document: `semanticXPath` when it has
+   * one, else `absoluteXPath`. Checked to match only this element at
+   * extraction time.
+   */
   xpath: string;
+  /** Purely positional path from the document root (`/html/body/div[2]/a`). */
+  absoluteXPath: string;
+  /**
+   * Path anchored at the nearest element with a unique, non-generated `id`
+   * or `data-testid` (`//*[@id="nav"]/ul/li[3]/a`), or null without one.
+   */
+  semanticXPath: string | null = null;
   attributes: Record<string, string>;
   children: DOMBaseNode[];
+  /**
+   * Rendered, with a size, within the (expanded) viewport — what highlight
+   * indices are based on. See `visibility` for why an element isn't.
+   */
   isVisible: boolean;
+  /**
+   * Every visibility reason found at extraction time. Unlike `isVisible`,
+   * also notices transparent, clipped and aria-hidden elements. Null for
+   * nodes that weren't extracted from a page.
+   */
+  visibility: VisibilityState | null = null;
   parent: DOMElementNode | null;
   isInteractive: boolean = false;
+  /**
+   * Every signal that classified this element as interactive, e.g.
+   * `tag:button`, `role:tab`, `cursor:pointer`, `listener:click`,
+   * `react:onClick` — for auditing false positives. Empty when it isn't.
+   */
+  interactiveReasons: string[] = [];
+  /**
+   * Whether hit testing at extraction time found this element on top of
+   * whatever else is at its position, i.e. a real click would reach it.
+   * Only visible interactive elements are actually hit tested; the rest are
+   * reported as on top.
+   */
   isTopElement: boolean = false;
+  /**
+   * xpath of the element covering this one (a cookie banner, sticky header,
+   * modal backdrop...) when hit testing found it fully occluded, else null.
+   */
+  occludedBy: string | null = null;
   isInViewport: boolean = false;
+  /** This element hosts an open shadow root, walked as part of its children. */
   shadowRoot: boolean = false;
+  /** This element was rendered inside some host's shadow tree. */
+  inShadowRoot: boolean = false;
+  /** Explicit `role` attribute, else the tag's implicit ARIA role. */
+  role: string | null = null;
+  /** Accessible name as assistive tech would announce it ("" if none). */
+  accessibleName: string = "";
+  /** Accessible description (aria-describedby, title...), "" if none. */
+  accessibleDescription: string = "";
+  /** Live form control state, null for elements that aren't controls. */
+  formState: FormControlState | null = null;
   highlightIndex: number | null = null; // Index for interactive elements only
   elementIndex: number | null = null; // Index for ALL elements (interactive + non-interactive)
+  /**
+   * xpaths of the `iframe`/`frame` elements enclosing this element, outermost
+   * first — each resolved within the previous one's document. Empty for an
+   * element of the top-level document.
+   */
+  framePath: string[] = [];
   /**
    * The `window.scrollY` position at which this element was last observed
    * VISIBLE (null if never observed visible). Lets a caller that remembers
@@ -74,8 +261,22 @@ export class DOMElementNode implements DOMBaseNode {
    * actually be seen/interacted with, instead of re-sweeping the whole page.
    */
   scrollY: number | null = null;
+  /**
+   * Where a scroll sweep had the window or a scroll container scrolled when
+   * it last saw this element visible (null if never). Unlike `scrollY`, also
+   * set by sweeps of scroll containers.
+   */
+  scrollPosition: ScrollPosition | null = null;
+  /** Set when this element scrolls its own content (a scroll container). */
+  scrollable: ScrollableInfo | null = null;
+  /**
+   * Border box relative to the top-level viewport at extraction time —
+   * elements inside iframes are translated out of their frame's viewport.
+   */
   viewportCoordinates: CoordinateSet | null = null;
+  /** The same box relative to the top-level document, i.e. including its scroll offset. */
   pageCoordinates: CoordinateSet | null = null;
+  /** The viewport of the document (top-level or frame) this element lives in. */
   viewportInfo: ViewportInfo | null = null;
 
   constructor(
@@ -88,6 +289,7 @@ export class DOMElementNode implements DOMBaseNode {
   ) {
     this.tagName = tagName;
     this.xpath = xpath;
+    this.absoluteXPath = xpath;
     this.attributes = attributes;
     this.children = children;
     this.isVisible = isVisible;
@@ -104,7 +306,9 @@ export class DOMElementNode implements DOMBaseNode {
     const extras: string[] = [];
     if (this.isInteractive) extras.push("interactive");
     if (this.isTopElement) extras.push("top");
+    if (this.occludedBy !== null) extras.push(`occluded-by:${this.occludedBy}`);
     if (this.shadowRoot) extras.push("shadow-root");
+    if (this.inShadowRoot) extras.push("in-shadow-root");
     if (this.highlightIndex !== null)
       extras.push(`highlight:${this.highlightIndex}`);
     if (this.isInViewport) extras.push("in-viewport");
@@ -141,21 +345,22 @@ export class DOMElementNode implements DOMBaseNode {
     return parents.map((parent) => parent.tagName);
   }
 
+  // Each component is its input base64-encoded in full: truncating it made
+  // every pair of inputs sharing a prefix collide. For a digest that
+  // survives re-renders, see `fingerprintElement`.
   private parentBranchPathHash(parentBranchPath: string[]): string {
-    return Buffer.from(parentBranchPath.join("/"))
-      .toString("base64")
-      .slice(0, 16);
+    return Buffer.from(parentBranchPath.join("/")).toString("base64");
   }
 
   private attributesHash(attributes: Record<string, string>): string {
     const sortedAttrs = Object.keys(attributes)
       .sort()
       .map((key) => `${key}=${attributes[key]}`);
-    return Buffer.from(sortedAttrs.join("&")).toString("base64").slice(0, 16);
+    return Buffer.from(sortedAttrs.join("&")).toString("base64");
   }
 
   private xpathHash(xpath: string): string {
-    return Buffer.from(xpath).toString("base64").slice(0, 16);
+    return Buffer.from(xpath).toString("base64");
   }
 
   getAllTextTillNextClickableElement(maxDepth: number = -1): string {
@@ -202,8 +407,19 @@ export class DOMElementNode implements DOMBaseNode {
     // Since the current DOM extraction doesn't create proper text nodes,
     // we need to work with what we have
 
+    // The `value` attribute is only the initial value; what's in the
+    // control now is in its live state. Neither is ever text for a masked
+    // control.
+    const attributes = { ...this.attributes };
+    if (this.formState?.value !== undefined) {
+      attributes.value = this.formState.value;
+    }
+    if (isMaskedControl(this)) {
+      delete attributes.value;
+    }
+
     // Check if this element has any text-related attributes
-    const textFromAttributes = Object.entries(this.attributes)
+    const textFromAttributes = Object.entries(attributes)
       .filter(
         ([key, value]) =>
           ["placeholder", "value", "title", "aria-label"].includes(key) &&
@@ -296,10 +512,219 @@ export interface ElementMap {
   [key: number]: DOMElementNode;
 }
 
+/**
+ * One condition-and-outcome pair of an {@link ElementInclusionPolicy}. Every
+ * condition given must hold for the rule to match; conditions left out
+ * aren't checked. Patterns are regular expression sources (rules are sent
+ * into the page, so they have to be plain data).
+ */
+export interface ElementInclusionRule {
+  /** Lowercase tag name(s). */
+  tag?: string | string[];
+  /** Explicit or implicit ARIA role(s). */
+  role?: string | string[];
+  /** The element has this attribute. */
+  attribute?: string;
+  /** With `attribute`: its value matches this pattern. */
+  attributeValue?: string;
+  /** The element's trimmed text content matches this pattern. */
+  textPattern?: string;
+  /** The element has (or, with false, lacks) non-whitespace text. */
+  hasText?: boolean;
+  interactive?: boolean;
+  /** The element is a custom element (its tag name contains a hyphen). */
+  customElement?: boolean;
+  /** Whether a matching element goes into the element map. */
+  include: boolean;
+}
+
+/**
+ * Decides which elements get an `elementIndex`, i.e. go into the
+ * {@link ElementMap}. Checked in order, first decision wins: `rules`,
+ * `excludeTags`, `includeInteractive`, `includeTags`, then `includeWithText`.
+ */
+export interface ElementInclusionPolicy {
+  rules: ElementInclusionRule[];
+  excludeTags: string[];
+  includeTags: string[];
+  includeInteractive: boolean;
+  /** Include any element with non-whitespace text not otherwise decided. */
+  includeWithText: boolean;
+  /**
+   * With `includeWithText`, only count text directly inside the element, so
+   * wrappers whose text all comes from their descendants are left out.
+   */
+  leafTextOnly: boolean;
+}
+
+export const DEFAULT_ELEMENT_INCLUSION_POLICY: ElementInclusionPolicy = {
+  rules: [],
+  excludeTags: [],
+  includeTags: [
+    "p",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "pre",
+    "blockquote",
+    "abbr",
+    "cite",
+    "code",
+    "strong",
+    "em",
+    "small",
+    "mark",
+    "ul",
+    "ol",
+    "li",
+    "dl",
+    "dt",
+    "dd",
+    "table",
+    "thead",
+    "tbody",
+    "tfoot",
+    "tr",
+    "td",
+    "th",
+    "caption",
+    "col",
+    "colgroup",
+    "img",
+    "picture",
+    "figure",
+    "figcaption",
+    "audio",
+    "video",
+    "source",
+    "track",
+  ],
+  includeInteractive: true,
+  includeWithText: true,
+  leafTextOnly: false,
+};
+
+/**
+ * Limits on a single extraction, for pages too large to walk whole. Each
+ * one is unlimited when left out. Frames share the budget: a child frame
+ * gets whatever its parent frames left.
+ */
+export interface ExtractionBudget {
+  /**
+   * Elements to walk at most. When the page has more than this, subtrees
+   * entirely outside the viewport (plus `viewportExpansion`) are skipped
+   * first, so what's on screen is what fits; and once three quarters of
+   * the budget is spent, so are subtrees without a control, frame or
+   * shadow root in them, leaving the rest for what can be acted on.
+   */
+  maxNodes?: number;
+  /** Depth below the body beyond which children aren't walked. */
+  maxDepth?: number;
+  /** Characters per text node; longer text is cut off with "…". */
+  maxTextLength?: number;
+  /** Wall-clock time after which no further elements are walked. */
+  timeLimitMs?: number;
+}
+
+/**
+ * What an extraction left out to stay within its {@link ExtractionBudget}.
+ * The `skipped*` counts are of subtrees, not of elements within them. When
+ * `truncated` is set, a scroll sweep (`BrowserContext.getStateAcrossScroll`)
+ * is the way to see the rest of the page. Shortened texts are only counted
+ * in `truncatedTexts`: every element is still there, so they don't set it.
+ */
+export interface ExtractionReport {
+  /** Elements were left out, by any of the `skipped*` limits. */
+  truncated: boolean;
+  elementsExtracted: number;
+  /** Elements in the walked documents, walked or not. */
+  elementsOnPage: number;
+  skippedForNodeLimit: number;
+  skippedForDepth: number;
+  skippedForTime: number;
+  skippedOffscreen: number;
+  /** Element and text node texts cut to `maxTextLength`. */
+  truncatedTexts: number;
+  elapsedMs: number;
+}
+
+/**
+ * What an incremental extraction changed relative to the previous state,
+ * element by element (matched by xpath within each re-extracted subtree).
+ */
+export interface DOMStateChanges {
+  incremental: true;
+  added: DOMElementNode[];
+  /** Nodes of the previous tree that no longer exist. */
+  removed: DOMElementNode[];
+  /** Same xpath, but different attributes, own text, form state or visibility. */
+  modified: DOMElementNode[];
+}
+
+/** Bumped whenever {@link SerializedDOMState} changes incompatibly. */
+export const SERIALIZED_STATE_VERSION = 1;
+
+/** The data fields of a {@link DOMElementNode}, without its links. */
+export type DOMElementNodeData = Omit<
+  {
+    [K in keyof DOMElementNode as DOMElementNode[K] extends Function
+      ? never
+      : K]: DOMElementNode[K];
+  },
+  "parent" | "children" | "hash"
+>;
+
+/**
+ * A node of a serialized state. Nodes refer to each other by their position
+ * in {@link SerializedDOMState.nodes}, which is what breaks the tree's
+ * parent/child cycles.
+ */
+export type SerializedNode =
+  | {
+      type: "TEXT_NODE";
+      text: string;
+      isVisible: boolean;
+      parent: number | null;
+    }
+  | (DOMElementNodeData & {
+      type: "ELEMENT_NODE";
+      parent: number | null;
+      children: number[];
+    });
+
+/** A {@link DOMState} as plain JSON; see {@link DOMState.toJSON}. */
+export interface SerializedDOMState {
+  version: typeof SERIALIZED_STATE_VERSION;
+  nodes: SerializedNode[];
+  elementTree: number;
+  selectorMap: Record<number, number>;
+  elementMap: Record<number, number>;
+  changes: {
+    incremental: true;
+    added: number[];
+    removed: number[];
+    modified: number[];
+  } | null;
+  extractionReport: ExtractionReport | null;
+}
+
 export class DOMState {
   elementTree: DOMElementNode;
   selectorMap: SelectorMap; // Interactive elements only
   elementMap: ElementMap; // ALL elements
+  /**
+   * Set when this state was produced incrementally from the previous one;
+   * null after a full extraction.
+   */
+  changes: DOMStateChanges | null = null;
+  /**
+   * What was left out to stay within the extraction budget. After an
+   * incremental extraction this only covers the re-extracted subtrees.
+   */
+  extractionReport: ExtractionReport | null = null;
 
   constructor(
     elementTree: DOMElementNode,
@@ -310,4 +735,147 @@ export class DOMState {
     this.selectorMap = selectorMap;
     this.elementMap = elementMap;
   }
+  /**
+   * The state as plain JSON, for saving snapshots, attaching them to bug
+   * reports or replaying selections against them offline.
+   *
+   * Every node reachable from the tree, the maps and the changes is kept —
+   * including nodes that are in a map but not in the tree, as after a scroll
+   * sweep — along with its parent and children, indices and scroll
+   * positions. {@link DOMState.fromJSON} restores an equivalent state,
+   * except that the values of masked controls (see {@link isMaskedControl})
+   * are left out: snapshots end up in places secrets must not.
+   */
+  toJSON(): SerializedDOMState {
+    const ids = new Map<DOMBaseNode, number>();
+    const nodes: DOMBaseNode[] = [];
+    const pending: DOMBaseNode[] = [];
+    const idOf = (node: DOMBaseNode): number => {
+      let id = ids.get(node);
+      if (id === undefined) {
+        id = nodes.length;
+        ids.set(node, id);
+        nodes.push(node);
+        pending.push(node);
+      }
+      return id;
+    };
+    const idsOf = (map: Record<number, DOMBaseNode>) =>
+      Object.fromEntries(
+        Object.entries(map).map(([index, node]) => [index, idOf(node)])
+      );
+
+    const elementTree = idOf(this.elementTree);
+    const selectorMap = idsOf(this.selectorMap);
+    const elementMap = idsOf(this.elementMap);
+    const changes = this.changes && {
+      incremental: true as const,
+      added: this.changes.added.map(idOf),
+      removed: this.changes.removed.map(idOf),
+      modified: this.changes.modified.map(idOf),
+    };
+
+    // Iterative, so a deep tree can't overflow the stack.
+    while (pending.length > 0) {
+      const node = pending.pop()!;
+      if (node.parent) idOf(node.parent);
+      if (node instanceof DOMElementNode) node.children.forEach(idOf);
+    }
+
+    return {
+      version: SERIALIZED_STATE_VERSION,
+      nodes: nodes.map((node): SerializedNode => {
+        const parent = node.parent ? ids.get(node.parent)! : null;
+        if (node instanceof DOMTextNode) {
+          return {
+            type: "TEXT_NODE",
+            text: node.text,
+            isVisible: node.isVisible,
+            parent,
+          };
+        }
+        const { parent: _parent, children, ...data } =
+          node as DOMElementNode;
+        if (isMaskedControl(node as DOMElementNode)) {
+          const { value: _value, ...attributes } = data.attributes;
+          data.attributes = attributes;
+          if (data.formState) {
+            const { value: _stateValue, ...formState } = data.formState;
+            data.formState = formState;
+          }
+        }
+        return {
+          ...(data as DOMElementNodeData),
+          type: "ELEMENT_NODE",
+          parent,
+          children: children.map((child) => ids.get(child)!),
+        };
+      }),
+      elementTree,
+      selectorMap,
+      elementMap,
+      changes,
+      extractionReport: this.extractionReport,
+    };
+  }
+
+  /** Restores a state from {@link DOMState.toJSON}'s output, or its string. */
+  static fromJSON(json: SerializedDOMState | string): DOMState {
+    const data: SerializedDOMState =
+      typeof json === "string" ? JSON.parse(json) : json;
+    if (data.version !== SERIALIZED_STATE_VERSION) {
+      throw new Error(
+        `Unsupported serialized state version ${data.version} (expected ${SERIALIZED_STATE_VERSION})`
+      );
+    }
+
+    const nodes: DOMBaseNode[] = data.nodes.map((serialized) => {
+      if (serialized.type === "TEXT_NODE") {
+        return new DOMTextNode(serialized.text, serialized.isVisible, null);
+      }
+      const { type: _type, parent: _parent, children: _children, ...fields } =
+        serialized;
+      const node = new DOMElementNode(
+        fields.tagName,
+        fields.xpath,
+        fields.attributes,
+        [],
+        fields.isVisible,
+        null
+      );
+      return Object.assign(node, fields);
+    });
+    data.nodes.forEach((serialized, id) => {
+      const node = nodes[id];
+      node.parent =
+        serialized.parent === null
+          ? null
+          : (nodes[serialized.parent] as DOMElementNode);
+      if (serialized.type === "ELEMENT_NODE") {
+        (node as DOMElementNode).children = serialized.children.map(
+          (child) => nodes[child]
+        );
+      }
+    });
+
+    const element = (id: number) => nodes[id] as DOMElementNode;
+    const mapOf = (ids: Record<number, number>) =>
+      Object.fromEntries(
+        Object.entries(ids).map(([index, id]) => [index, element(id)])
+      );
+
+    const state = new DOMState(
+      element(data.elementTree),
+      mapOf(data.selectorMap),
+      mapOf(data.elementMap)
+    );
+    state.changes = data.changes && {
+      incremental: true,
+      added: data.changes.added.map(element),
+      removed: data.changes.removed.map(element),
+      modified: data.changes.modified.map(element),
+    };
+    state.extractionReport = data.extractionReport;
+    return state;
+  }
 }
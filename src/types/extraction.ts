@@ -0,0 +1,86 @@
+import {
+  CoordinateSet,
+  ExtractionReport,
+  FormControlState,
+  ScrollableInfo,
+  ViewportInfo,
+  VisibilityState,
+} from "./dom";
+
+/**
+ * The shape of what `buildDomTreeOverlay` returns to DomService, shared by
+ * both sides. Bumped whenever that shape changes incompatibly, so a payload
+ * produced by a different build of the page script is rejected instead of
+ * being half-understood.
+ */
+export const EXTRACTION_PAYLOAD_VERSION = 1;
+
+export interface ExtractedTextNode {
+  type: "TEXT_NODE";
+  text: string;
+  isVisible: boolean;
+}
+
+export interface ExtractedElementNode {
+  type: "ELEMENT_NODE";
+  tagName: string;
+  xpath: string;
+  absoluteXPath: string;
+  semanticXPath: string | null;
+  attributes: Record<string, string>;
+  text: string;
+  isVisible: boolean;
+  visibility: VisibilityState;
+  isInteractive: boolean;
+  interactiveReasons: string[];
+  isTopElement: boolean;
+  occludedBy: string | null;
+  role: string | null;
+  accessibleName: string;
+  accessibleDescription: string;
+  formState: FormControlState | null;
+  scrollable: ScrollableInfo | null;
+  isInViewport: boolean;
+  shadowRoot: boolean;
+  inShadowRoot: boolean;
+  highlightIndex: number | null;
+  elementIndex: number | null;
+  viewport: ViewportInfo;
+  viewportCoordinates: CoordinateSet;
+  pageCoordinates: CoordinateSet;
+  /** Set on an `iframe`/`frame` DomService tagged before the run. */
+  frameId: string | null;
+  frameContentOffset: { x: number; y: number } | null;
+  /** Ids of the child nodes, each listed in `map` before this node. */
+  children: string[];
+}
+
+export type ExtractedNode = ExtractedElementNode | ExtractedTextNode;
+
+interface ExtractionPayloadBase {
+  version: typeof EXTRACTION_PAYLOAD_VERSION;
+  report: ExtractionReport;
+  /** Every extracted node by id, children before their parents. */
+  map: Record<string, ExtractedNode>;
+  viewport: ViewportInfo;
+  nextHighlightIndex: number;
+  nextElementIndex: number;
+}
+
+/** A walk of the whole document, rooted at its body. */
+export interface FullExtractionPayload extends ExtractionPayloadBase {
+  mode: "full";
+  rootId: string;
+}
+
+/** A walk of only the subtrees that changed since the previous run. */
+export interface IncrementalExtractionPayload extends ExtractionPayloadBase {
+  mode: "incremental";
+  rootIds: string[];
+  /** The xpath of each root, in the same order as `rootIds`. */
+  rootXPaths: string[];
+}
+
+export type ExtractionPayload =
+  | FullExtractionPayload
+  | IncrementalExtractionPayload;